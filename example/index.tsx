@@ -42,35 +42,50 @@ export class GithubRepository implements IGithubRepository {
     }
 }
 
-export class StoreGithubRepositories extends PaginatedSearchableRepository<IGithubRepositoriesQuery, GithubRepository> {
+export class StoreGithubRepositories extends PaginatedSearchableRepository<
+    IGithubRepositoriesQuery,
+    GithubRepository,
+    string,
+    string,
+    IGithubRepository
+> {
     protected async fetchByQuery(
         query: IGithubRepositoriesQuery,
         pagination: Pagination,
-    ): Promise<FetchByQueryResult<GithubRepository>> {
+        signal: AbortSignal,
+    ): Promise<FetchByQueryResult<IGithubRepository>> {
         const { name } = query;
         const { offset, count } = pagination;
         const page = Math.floor(offset / count) + 1;
         const response = await fetch(
             `https://api.github.com/search/repositories?q=${name}&page=${page}&per_page=${count}`,
+            { signal },
         );
         if (!response.ok) {
             throw response;
         }
         const { items } = await response.json();
-        const entities = items.map(item => new GithubRepository(item));
-        return { entities };
+        return { entities: items };
     }
 
-    protected async fetchById(id: string): Promise<GithubRepository | undefined> {
-        const response = await fetch(`https://api.github.com/repos/${id}`);
+    protected async fetchById(id: string, signal: AbortSignal): Promise<IGithubRepository | undefined> {
+        const response = await fetch(`https://api.github.com/repos/${id}`, { signal });
         if (response.status === 404) {
             return;
         }
         if (!response.ok) {
             throw response;
         }
-        const result = await response.json();
-        return new GithubRepository(result);
+        return await response.json();
+    }
+
+    protected deserialize(raw: IGithubRepository): GithubRepository {
+        return new GithubRepository(raw);
+    }
+
+    protected serialize(entity: GithubRepository): IGithubRepository {
+        const { description, forks, stars, name, id, owner } = entity;
+        return { description, forks, stars, name, id, owner };
     }
 
     protected extractId(entity: GithubRepository): string {
@@ -0,0 +1,14 @@
+/**
+ * The base of all errors of this library.
+ * Extending built-ins such as `Error` breaks the prototype chain when compiling to ES5, so it is restored here
+ * once for all subclasses, keeping `instanceof` working.
+ */
+export abstract class BaseError extends Error {
+    /**
+     * @param message The message of the error.
+     */
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
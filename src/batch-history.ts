@@ -0,0 +1,84 @@
+import { action, computed, makeObservable, observable } from "mobx";
+
+/**
+ * The undo and redo stacks of snapshots of a batch of mutable copies.
+ * Each recorded snapshot is one step that can be undone.
+ */
+export class BatchHistory<TSnapshot> {
+    @observable.shallow private undoStack: TSnapshot[] = [];
+    @observable.shallow private redoStack: TSnapshot[] = [];
+
+    /**
+     * @param current The snapshot of the current state.
+     * @param limit The maximum number of steps that can be undone. Older steps are dropped.
+     * @param equals Compares two snapshots. Recording a snapshot equal to the current state is ignored.
+     */
+    constructor(
+        private current: TSnapshot,
+        private limit: number,
+        private equals: (a: TSnapshot, b: TSnapshot) => boolean,
+    ) {
+        makeObservable(this);
+    }
+
+    /**
+     * Whether a step can be undone. Is observable.
+     */
+    @computed public get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    /**
+     * Whether an undone step can be redone. Is observable.
+     */
+    @computed public get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Record a new state as a step. All undone steps are dropped and can no longer be redone.
+     *
+     * @param next The snapshot of the new state.
+     */
+    @action.bound public record(next: TSnapshot): void {
+        if (this.equals(next, this.current)) {
+            return;
+        }
+        this.undoStack.push(this.current);
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+        this.current = next;
+    }
+
+    /**
+     * Go back by one step.
+     *
+     * @return The snapshot of the state to restore or `undefined` if there is nothing to undo.
+     */
+    @action.bound public undo(): TSnapshot | undefined {
+        const previous = this.undoStack.pop();
+        if (previous === undefined) {
+            return undefined;
+        }
+        this.redoStack.push(this.current);
+        this.current = previous;
+        return previous;
+    }
+
+    /**
+     * Go forward by one previously undone step.
+     *
+     * @return The snapshot of the state to restore or `undefined` if there is nothing to redo.
+     */
+    @action.bound public redo(): TSnapshot | undefined {
+        const next = this.redoStack.pop();
+        if (next === undefined) {
+            return undefined;
+        }
+        this.undoStack.push(this.current);
+        this.current = next;
+        return next;
+    }
+}
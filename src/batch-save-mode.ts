@@ -0,0 +1,18 @@
+/**
+ * Determines what happens to the other entities of a batch if some of them fail to save with
+ * [[Indexable.saveBatch]].
+ */
+export const enum BatchSaveMode {
+    /**
+     * The saved entities are only committed to the cache if all entities of the batch were saved.
+     * Otherwise none of them is committed and all mutable copies are kept, so that the batch can be saved again.
+     * Implement [[IndexableRepository.persistEntities]] with a transaction to make saving atomic in the backend, too.
+     */
+    ATOMIC = "atomic",
+
+    /**
+     * Every saved entity is committed to the cache, independently of the others.
+     * Only the mutable copies of the entities that failed to save are kept.
+     */
+    PARTIAL = "partial",
+}
@@ -0,0 +1,74 @@
+/**
+ * Computes the string a value such as an id or a query is keyed by.
+ * Two values must result in the same key if and only if they are considered equal.
+ */
+export type KeyFunction<T> = (value: T) => string;
+
+function canonicalEntries(entries: [string, string][]): string {
+    return entries
+        .map(([key, value]) => `${key}:${value}`)
+        .sort()
+        .join(",");
+}
+
+/**
+ * Serialize a value into a canonical string, so that structurally equal values result in the same key.
+ * Unlike `JSON.stringify`, the order of the properties of an object doesn't matter, properties that are
+ * `undefined` are kept and every value is tagged with its type, so `1` and `"1"` result in different keys.
+ * Dates, `Map`s, `Set`s and `BigInt`s are supported. The order of the entries of `Map`s and `Set`s doesn't
+ * matter either. All other objects are serialized like plain objects by their own enumerable properties.
+ *
+ * #### Example
+ * ```
+ * expect(canonicalKey({ a: 1, b: 2 })).toBe(canonicalKey({ b: 2, a: 1 }));
+ * expect(canonicalKey({ a: undefined })).not.toBe(canonicalKey({}));
+ * ```
+ *
+ * @throws Will throw if the value is or contains a function or a symbol.
+ *
+ * @param value The value to serialize.
+ *
+ * @return The canonical key of the value.
+ */
+export function canonicalKey(value: unknown): string {
+    switch (typeof value) {
+        case "undefined":
+            return "undefined";
+        case "boolean":
+            return `boolean:${value}`;
+        case "number":
+            return `number:${value}`;
+        case "bigint":
+            return `bigint:${value}`;
+        case "string":
+            return `string:${JSON.stringify(value)}`;
+        case "object":
+            break;
+        default:
+            throw new Error(`Can't compute the key of a value of type "${typeof value}".`);
+    }
+    if (value === null) {
+        return "null";
+    }
+    if (value instanceof Date) {
+        return `date:${value.getTime()}`;
+    }
+    if (Array.isArray(value)) {
+        return `array:[${value.map(canonicalKey).join(",")}]`;
+    }
+    if (value instanceof Map) {
+        const entries = [...value.entries()].map(([key, item]): [string, string] => [
+            canonicalKey(key),
+            canonicalKey(item),
+        ]);
+        return `map:{${canonicalEntries(entries)}}`;
+    }
+    if (value instanceof Set) {
+        return `set:[${[...value.values()].map(canonicalKey).sort().join(",")}]`;
+    }
+    const entries = Object.keys(value).map((key): [string, string] => [
+        JSON.stringify(key),
+        canonicalKey((value as Record<string, unknown>)[key]),
+    ]);
+    return `object:{${canonicalEntries(entries)}}`;
+}
@@ -0,0 +1,83 @@
+import deepEqual from "deep-equal";
+
+/**
+ * A top-level property of an entity that was changed differently in a mutable copy and in the cached entity
+ * since the copy was created.
+ */
+export interface Conflict<TEntity> {
+    /**
+     * The name of the conflicting property.
+     */
+    field: keyof TEntity;
+
+    /**
+     * The value of the property at the time the mutable copy was created.
+     */
+    base: unknown;
+
+    /**
+     * The value of the property in the mutable copy.
+     */
+    mine: unknown;
+
+    /**
+     * The value of the property in the cached entity.
+     */
+    theirs: unknown;
+}
+
+/**
+ * Determines how the conflicts between a mutable copy and the changed cached entity are resolved.
+ */
+export const enum ConflictResolution {
+    /**
+     * The mutable copy is kept as it is. Saving it overwrites all changes of the cached entity.
+     */
+    TAKE_MINE = "take mine",
+
+    /**
+     * The mutable copy is replaced by the cached entity. All changes of the copy are lost.
+     */
+    TAKE_THEIRS = "take theirs",
+
+    /**
+     * All changes of the cached entity to properties that weren't changed in the mutable copy are applied to
+     * the copy. Conflicting properties are kept and still reported as conflicts.
+     */
+    AUTO_MERGE = "auto merge",
+}
+
+/**
+ * Get the names of all top-level properties that differ between two entities.
+ * Properties missing in one of the entities are considered different.
+ *
+ * @param from The original entity.
+ * @param to The modified entity.
+ *
+ * @return The names of all changed properties.
+ */
+export function changedFields<TEntity>(from: TEntity, to: TEntity): (keyof TEntity)[] {
+    const a = from as unknown as Record<string, unknown>;
+    const b = to as unknown as Record<string, unknown>;
+    const keys = Object.keys(b).concat(Object.keys(a).filter((key) => !(key in b)));
+    return keys.filter((key) => !deepEqual(a[key], b[key], { strict: true })) as (keyof TEntity)[];
+}
+
+/**
+ * Perform a three-way comparison of an entity that was changed in two places.
+ * A property conflicts if it was changed on both sides to different values.
+ *
+ * @param base The common ancestor of both entities.
+ * @param mine The entity as changed locally, such as a mutable copy.
+ * @param theirs The entity as changed remotely, such as the cached entity after reloading it.
+ *
+ * @return All conflicting properties.
+ */
+export function findConflicts<TEntity>(base: TEntity, mine: TEntity, theirs: TEntity): Conflict<TEntity>[] {
+    const changedByMe = changedFields(base, mine);
+    const changedByThem = changedFields(base, theirs);
+    return changedByMe
+        .filter((field) => changedByThem.indexOf(field) !== -1)
+        .filter((field) => !deepEqual(mine[field], theirs[field], { strict: true }))
+        .map((field) => ({ field, base: base[field], mine: mine[field], theirs: theirs[field] }));
+}
@@ -0,0 +1,117 @@
+import { BaseError } from "./base-error";
+import { ValidationError } from "./validation";
+
+/**
+ * Reported to the error listeners whenever an optimistic update of an entity failed to persist and was
+ * rolled back.
+ */
+export class RollbackError<TId = string> extends BaseError {
+    /**
+     * @param id The id of the entity whose update was rolled back.
+     * @param cause The error that made persisting the update fail.
+     */
+    constructor(public readonly id: TId, public readonly cause: Error) {
+        super(`Optimistic update was rolled back: ${cause.message}`);
+        this.name = "RollbackError";
+    }
+}
+
+/**
+ * Thrown when saving a mutable copy that failed validation.
+ */
+export class InvalidEntityError<TEntity = unknown> extends BaseError {
+    /**
+     * @param errors All problems found when validating the mutable copy.
+     */
+    constructor(public readonly errors: ValidationError<TEntity>[]) {
+        super(`Entity is invalid: ${errors.map(({ message }) => message).join(", ")}`);
+        this.name = "InvalidEntityError";
+    }
+}
+
+/**
+ * Reported whenever fetching an entity or a query failed. Has the same message as the error thrown while fetching.
+ * Fetches rejecting with other values than errors, such as `undefined` or a string, are reported as well.
+ */
+export class FetchError<TError extends Error = Error> extends BaseError {
+    /**
+     * @param cause The error thrown by the fetch, for example by [[IndexableRepository.fetchById]].
+     */
+    constructor(public readonly cause: TError) {
+        super(cause instanceof Error ? cause.message : String(cause));
+        this.name = "FetchError";
+    }
+}
+
+/**
+ * Reported whenever an entity was fetched successfully, but has a different id than the one requested.
+ */
+export class IdMismatchError<TId = string> extends BaseError {
+    /**
+     * @param requestedId The id that was requested.
+     * @param fetchedId The id of the fetched entity.
+     */
+    constructor(
+        public readonly requestedId: TId,
+        public readonly fetchedId: TId,
+    ) {
+        super("Fetched entity has different id than requested.");
+        this.name = "IdMismatchError";
+    }
+}
+
+/**
+ * Rejects all pending calls waiting for an entity or a query that was evicted in the meantime.
+ */
+export class EvictedError extends BaseError {
+    constructor() {
+        super("Entity evicted while waiting.");
+        this.name = "EvictedError";
+    }
+}
+
+/**
+ * Rejects all pending calls waiting for an entity or a query when the repository is reset.
+ */
+export class ResetError extends BaseError {
+    constructor() {
+        super("Repository was reset while waiting.");
+        this.name = "ResetError";
+    }
+}
+
+/**
+ * The reason a request is aborted with, either explicitly or because it timed out.
+ */
+export class AbortedError extends BaseError {
+    /**
+     * @param isTimeout Whether the request was aborted because it timed out.
+     */
+    constructor(public readonly isTimeout = false) {
+        super(isTimeout ? "Request timed out." : "Request was aborted.");
+        this.name = "AbortedError";
+    }
+}
+
+/**
+ * All errors a request for an entity or a query can fail with, as reported by [[Indexable.errorOf]] and
+ * [[Searchable.queryError]] or used to reject pending calls such as [[Indexable.waitForId]].
+ * `TError` is the type of errors thrown when fetching.
+ */
+export type RequestError<TError extends Error = Error> =
+    | FetchError<TError>
+    | IdMismatchError<unknown>
+    | EvictedError
+    | ResetError
+    | AbortedError;
+
+/**
+ * All errors reported to the error listeners of a repository.
+ * `TError` is the type of errors thrown when fetching, saving or deleting. Errors thrown when saving or
+ * deleting an entity are reported unchanged.
+ */
+export type RepositoryError<TId = string, TEntity = unknown, TError extends Error = Error> =
+    | RequestError<TError>
+    | RollbackError<TId>
+    | InvalidEntityError<TEntity>
+    | TError;
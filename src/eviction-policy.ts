@@ -0,0 +1,127 @@
+/**
+ * A strategy deciding which entities to evict first once a repository's cache exceeds its maximum size.
+ * The repository notifies the policy about every entity that is added, accessed or removed.
+ */
+export interface EvictionPolicy<TId> {
+    /**
+     * Invoked whenever an entity was added to the cache.
+     * Might be invoked multiple times for the same id, for example if the entity was reloaded.
+     *
+     * @param id The id of the entity that was added.
+     */
+    added(id: TId): void;
+
+    /**
+     * Invoked whenever an entity was accessed in the cache.
+     *
+     * @param id The id of the entity that was accessed.
+     */
+    accessed(id: TId): void;
+
+    /**
+     * Invoked whenever an entity was removed from the cache.
+     *
+     * @param id The id of the entity that was removed.
+     */
+    removed(id: TId): void;
+
+    /**
+     * Forget about all entities.
+     */
+    reset(): void;
+
+    /**
+     * Determine the order in which entities should be evicted.
+     *
+     * @return A list of all known ids, with the id that should be evicted first at the start.
+     */
+    candidates(): TId[];
+}
+
+/**
+ * Evicts the entity that was added to the cache first.
+ */
+export class FifoEvictionPolicy<TId> implements EvictionPolicy<TId> {
+    protected ids = new Set<TId>();
+
+    /** @inheritdoc */
+    public added(id: TId): void {
+        this.ids.add(id);
+    }
+
+    /** @inheritdoc */
+    public accessed(_id: TId): void {
+        return;
+    }
+
+    /** @inheritdoc */
+    public removed(id: TId): void {
+        this.ids.delete(id);
+    }
+
+    /** @inheritdoc */
+    public reset(): void {
+        this.ids.clear();
+    }
+
+    /** @inheritdoc */
+    public candidates(): TId[] {
+        return [...this.ids];
+    }
+}
+
+/**
+ * Evicts the entity that was accessed least recently.
+ * Adding an entity counts as accessing it.
+ */
+export class LruEvictionPolicy<TId> extends FifoEvictionPolicy<TId> {
+    /** @inheritdoc */
+    public added(id: TId): void {
+        this.ids.delete(id);
+        this.ids.add(id);
+    }
+
+    /** @inheritdoc */
+    public accessed(id: TId): void {
+        if (this.ids.has(id)) {
+            this.added(id);
+        }
+    }
+}
+
+/**
+ * Evicts the entity that was accessed least frequently.
+ * If multiple entities were accessed equally often, the one added first is evicted first.
+ */
+export class LfuEvictionPolicy<TId> implements EvictionPolicy<TId> {
+    private accessCounts = new Map<TId, number>();
+
+    /** @inheritdoc */
+    public added(id: TId): void {
+        if (!this.accessCounts.has(id)) {
+            this.accessCounts.set(id, 0);
+        }
+    }
+
+    /** @inheritdoc */
+    public accessed(id: TId): void {
+        if (this.accessCounts.has(id)) {
+            this.accessCounts.set(id, this.accessCounts.get(id)! + 1);
+        }
+    }
+
+    /** @inheritdoc */
+    public removed(id: TId): void {
+        this.accessCounts.delete(id);
+    }
+
+    /** @inheritdoc */
+    public reset(): void {
+        this.accessCounts.clear();
+    }
+
+    /** @inheritdoc */
+    public candidates(): TId[] {
+        return [...this.accessCounts.entries()].sort(([, a], [, b]) => a - b).map(([id]) => id);
+    }
+}
@@ -1,9 +1,22 @@
+export * from "./batch-history";
+export * from "./batch-save-mode";
+export * from "./canonical-key";
+export * from "./conflicts";
+export * from "./errors";
+export * from "./eviction-policy";
 export * from "./indexable-repository";
+export * from "./json-patch";
 export * from "./listeners";
+export * from "./merge-strategy";
+export * from "./mutation-queue";
+export * from "./observation-tracker";
 export * from "./paginated-searchable-repository";
 export * from "./pagination-range";
 export * from "./pagination";
+export * from "./request-controllers";
 export * from "./request-states";
+export * from "./retry-policy";
 export * from "./searchable-repository";
 export * from "./segment";
 export * from "./segment-with-ids";
+export * from "./validation";
@@ -1,19 +1,117 @@
-import { observable, action, makeObservable } from "mobx";
+import { observable, action, makeObservable, toJS, reaction, IReactionDisposer, ObservableMap } from "mobx";
 import { bind } from "bind-decorator";
 import clone from "clone";
+import deepEqual from "deep-equal";
 
-import { RequestStatus, RequestStates } from "./request-states";
-import { PromiseCallbacks, ErrorListener } from "./listeners";
+import { RequestStatus, RequestStates, RequestStatusInfo, FailedRequest } from "./request-states";
+import { RequestControllers } from "./request-controllers";
+import { PromiseCallbacks, ErrorListener, DebugListener } from "./listeners";
 import { Repository } from "./repository";
+import { EvictionPolicy, LruEvictionPolicy } from "./eviction-policy";
+import { ObservationTracker } from "./observation-tracker";
+import { RetryPolicy } from "./retry-policy";
+import { MergeStrategy, shallowMerge, deepMerge } from "./merge-strategy";
+import {
+    RollbackError,
+    InvalidEntityError,
+    FetchError,
+    IdMismatchError,
+    EvictedError,
+    ResetError,
+    AbortedError,
+    RequestError,
+    RepositoryError,
+} from "./errors";
+import { JsonPatchOperation, createPatch, applyPatch } from "./json-patch";
+import { BatchHistory } from "./batch-history";
+import { BatchSaveMode } from "./batch-save-mode";
+import {
+    Validator,
+    AsyncValidator,
+    ValidationError,
+    AsyncValidation,
+    isAsyncValidator,
+    runValidators,
+    runAsyncValidators,
+} from "./validation";
+import { Conflict, ConflictResolution, changedFields, findConflicts } from "./conflicts";
+import {
+    QueuedMutation,
+    MutationQueueStatus,
+    MutationQueueStorage,
+    InMemoryMutationQueueStorage,
+} from "./mutation-queue";
 
 export interface LoadOptions {
     force?: boolean;
 }
 
+/**
+ * The differences between a mutable copy and the cached entity it was copied from.
+ */
+export interface MutableCopyDiff<TEntity> {
+    /**
+     * The RFC 6902 operations turning the cached entity into the mutable copy.
+     */
+    patch: JsonPatchOperation[];
+
+    /**
+     * All changed top-level properties with their new values. Removed properties are `undefined`.
+     */
+    changes: Partial<TEntity>;
+}
+
+/**
+ * The outcome of saving all mutable copies of a batch with [[Indexable.saveBatch]].
+ */
+export interface BatchSaveResult<TEntity, TId> {
+    /**
+     * The saved entities as they are cached now.
+     */
+    saved: TEntity[];
+
+    /**
+     * The ids of all entities that weren't saved or weren't committed to the cache, with the reason.
+     */
+    failed: { id: TId; error: Error }[];
+}
+
+/**
+ * An optimistic update of an entity that was applied to the cache, but is not yet confirmed by the backend.
+ */
+interface OptimisticUpdate<TEntity> {
+    mutator: (entity: TEntity) => void;
+}
+
+/**
+ * All pending optimistic updates of an entity, together with the last state confirmed by the backend.
+ */
+interface OptimisticUpdates<TEntity> {
+    base: TEntity;
+    pending: OptimisticUpdate<TEntity>[];
+}
+
+/**
+ * The undo history of a batch of mutable copies, together with the reaction recording it.
+ */
+interface BatchRecording<TId, TEntity> {
+    history: BatchHistory<Map<TId, TEntity>>;
+    dispose: IReactionDisposer;
+}
+
+/**
+ * The asynchronous validation of a mutable copy, together with the reaction rescheduling it.
+ */
+interface CopyValidation<TEntity> {
+    validation: AsyncValidation<TEntity>;
+    dispose: IReactionDisposer;
+}
+
 /**
  * An indexable object which provides basic access to a set of entities by id.
+ * `TError` is the type of errors thrown when fetching entities, which are wrapped in a [[FetchError]].
  */
-export interface Indexable<TEntity, TId = string, TBatchId = string> {
+export interface Indexable<TEntity, TId = string, TBatchId = string, TRaw = TEntity, TError extends Error = Error> {
     /**
      * Access an entity synchronously by its id.
      * This will return `undefined` at first (if the entity is not yet in the cache), but load the entity
@@ -108,8 +206,9 @@ export interface Indexable<TEntity, TId = string, TBatchId = string> {
      * myRepository.byId("some-unique-id-119");
      * ```
      *
-     * @throws Will throw if loading the entity failed,
-     *     if the entity was evicted while loading or if the repository was reset while waiting.
+     * @throws Will throw a [[FetchError]] or an [[IdMismatchError]] if loading the entity failed, an [[EvictedError]]
+     *     if the entity was evicted while loading, a [[ResetError]] if the repository was reset while waiting or an
+     *     [[AbortedError]] if the request timed out.
      *
      * @param id The id of the entity to wait for.
      *
@@ -154,6 +253,66 @@ export interface Indexable<TEntity, TId = string, TBatchId = string> {
      */
     isKnown(id: TId): boolean;
 
+    /**
+     * Checks whether a cached entity is older than its maximum age.
+     * Stale entities are still returned from [[Indexable.byId]], which will reload them in the background.
+     * As this method is observable, observers will be re-rendered once an entity they access turns stale.
+     *
+     * #### Example
+     * ```
+     * const myRepository: MyRepository = ...;
+     * await myRepository.byIdAsync("some-unique-id-119")
+     * expect(myRepository.isStale("some-unique-id-119")).toBe(false);
+     * // Wait for the maximum age to expire.
+     * expect(myRepository.isStale("some-unique-id-119")).toBe(true);
+     * ```
+     *
+     * @param id The id of the entity to check.
+     *
+     * @return `true` if the entity is cached and exceeded its maximum age and `false` otherwise.
+     */
+    isStale(id: TId): boolean;
+
+    /**
+     * Get the status of loading an entity by its id.
+     * As this method is observable, observers can use it to tell whether an entity is still loading,
+     * was not found or failed to load while [[Indexable.byId]] returns `undefined`.
+     *
+     * #### Example
+     * ```
+     *     @observer
+     *     class MyComponent extends React.Component<{ id: string }> {
+     *         private myRepository!: MyRepository;
+     *
+     *         public render() {
+     *             const myEntity = this.myRepository.byId(this.props.id);
+     *             const info = this.myRepository.statusOf(this.props.id);
+     *             switch (info.status) {
+     *                 case RequestStatus.ERROR: return <div>Failed: {info.error.message}</div>;
+     *                 case RequestStatus.NOT_FOUND: return <div>Not found.</div>;
+     *                 default: return myEntity ? <div>{myEntity.name}</div> : <div>Loading...</div>;
+     *             }
+     *         }
+     *     }
+     * ```
+     *
+     * @param id The id of the entity.
+     *
+     * @return The status of the entity, with the error if it failed to load.
+     *     Entities that were added to the cache without being loaded are reported as done.
+     */
+    statusOf(id: TId): RequestStatusInfo<RequestError<TError>>;
+
+    /**
+     * Get the error that occurred when loading an entity by its id.
+     * This method is observable, see [[Indexable.statusOf]].
+     *
+     * @param id The id of the entity.
+     *
+     * @return The error if the entity failed to load and `undefined` otherwise.
+     */
+    errorOf(id: TId): RequestError<TError> | undefined;
+
     /**
      * Access the mutable copy of an entity inside batch `batchId` synchronously by its id.
      * See [[IndexableRepository.byId]] for information on how the reactivity works.
@@ -260,182 +419,1085 @@ export interface Indexable<TEntity, TId = string, TBatchId = string> {
     discardMutableCopy(batchId: TBatchId, id: TId): void;
 
     /**
-     * Manually add an entity to the cache.
+     * Discard the batch `batchId` together with all of its mutable copies and its undo history.
+     * Accessing a mutable copy in the batch afterwards creates a new, empty batch.
      *
-     * @param entity The id of the entity to retrieve.
+     * @param batchId The id of the batch of mutable entities to discard.
      */
-    add(entity: TEntity): void;
+    discardBatch(batchId: TBatchId): void;
 
     /**
-     * Remove an entity from the cache.
-     * This might result in pending calls to `byIdAsync` or `waitForId` to reject.
+     * Get the ids of all existing batches of mutable copies.
+     * This method is observable.
      *
-     * @param id The id of the entity to evict from the cache.
+     * @return The ids of all batches.
      */
-    evict(id: TId): void;
+    batchIds(): TBatchId[];
 
     /**
-     * Evict an entity from the cache and then load it again.
-     * This might result in pending calls to `byIdAsync` or `waitForId` to reject.
+     * Check whether the batch `batchId` exists.
+     * This method is observable.
      *
-     * @param id The id of the entity to reload.
+     * @param batchId The id of the batch of mutable entities.
      *
-     * @return The entity if it was currently cached or `undefined` if it was not yet cached.
+     * @return `true` if the batch exists and `false` if it was never created or was discarded.
+     */
+    hasBatch(batchId: TBatchId): boolean;
+
+    /**
+     * Get the ids of all batches holding a mutable copy of the entity `id`.
+     * This method is observable.
      *
-     * @return A Promise resolving to the entity or `undefined` if it failed to load.
+     * @param id The id of the entity.
+     *
+     * @return The ids of all batches with a mutable copy of the entity.
      */
-    reloadId(id: TId): Promise<TEntity>;
+    batchesContaining(id: TId): TBatchId[];
 
     /**
-     * Wait until all operations were performed and no current operations are running.
-     * This operations is guaranteed to resolve. It ignores errors.
+     * Check whether the mutable copy of the entity `id` in the batch `batchId` differs from the cached entity.
+     * A copy of an entity that isn't cached, such as a new entity that was never saved, is always dirty.
+     * This method is observable and can be used to enable save buttons or to warn before navigating away.
      *
-     * If an operation is started after this method was invoked, it will not be tracked.
+     * #### Example
+     * ```
+     * const copy = myRepository.mutableCopyById("some-batch", "some-unique-id-119");
+     * copy.name = "New name";
+     * expect(myRepository.isDirty("some-batch", "some-unique-id-119")).toBe(true);
+     * ```
+     *
+     * @param batchId The id of the batch of mutable entities.
+     * @param id The id of the entity to check.
+     *
+     * @return `true` if the mutable copy was changed and `false` if it was not or if no mutable copy exists.
      */
-    waitForIdle(): Promise<void>;
-}
+    isDirty(batchId: TBatchId, id: TId): boolean;
 
-/**
- * An abstract class implementing [[Indexable]] and providing all its caching operations.
- * Two abstract methods need to be implemented: `fetchById` and `extractId`.
- * The method [[IndexableRepository.fetchById]] is responsible for performing the actual call to the asynchronous
- * provider (e.g. REST API) and [[IndexableRepository.extractId]] needs to return an unique identifier for any provided
- * entity.
- *
- * #### Example
- * ```
- * interface MyEntity {
- *     id: number;
- *     name: string;
- * }
- *
- * class MyRepository extends IndexableRepository<MyEntity, number> {
- *     protected extractId(entity: MyEntity): number {
- *         return entity.id;
- *     }
- *
- *     protected async fetchById(id: number): Promise<MyEntity> {
- *         const response = await fetch(`http://example.com/api/my-entity/${id}`);
- *         if (response.status === 404) {
- *             return;
- *         }
- *         const body = await response.json();
- *         return body;
- *     }
- * }
- * ```
- */
-export abstract class IndexableRepository<TEntity, TId = string, TBatchId = string>
-    implements Indexable<TEntity, TId, TBatchId>, Repository {
-    private cloneEntity: (entity: TEntity) => TEntity;
+    /**
+     * Get the top-level properties of the mutable copy of the entity `id` in the batch `batchId` that differ
+     * from the cached entity.
+     * This method is observable, see [[Indexable.isDirty]].
+     *
+     * @param batchId The id of the batch of mutable entities.
+     * @param id The id of the entity to check.
+     *
+     * @return The names of all changed properties. Empty if no mutable copy exists.
+     */
+    dirtyFields(batchId: TBatchId, id: TId): (keyof TEntity)[];
 
     /**
-     * A map including all entities in the cache.
-     * Indexed by the ids extracted in [[IndexableRepository.extractId]].
+     * Get the ids of all dirty mutable copies in the batch `batchId`.
+     * This method is observable, see [[Indexable.isDirty]].
+     *
+     * @param batchId The id of the batch of mutable entities.
+     *
+     * @return The ids of all mutable copies that differ from the cached entities.
      */
-    @observable public entities = new Map<TId, TEntity>();
+    dirtyIds(batchId: TBatchId): TId[];
 
     /**
-     * A map holding batches of mutable copies of entities.
-     * Indexed by a call-site supplied `TBatchId`.
+     * Check whether any mutable copy in the batch `batchId` is dirty.
+     * This method is observable, see [[Indexable.isDirty]].
      *
-     * A batch is a namespace for mutable copies.
-     * It grants precisely control over which mutable copy you want to work with.
-     * A batch is indexed by the ids extracted in [[IndexableRepository.extractId]].
+     * @param batchId The id of the batch of mutable entities.
+     *
+     * @return `true` if at least one mutable copy in the batch differs from the cached entity.
      */
-    @observable public mutableCopyBatches = new Map<TBatchId, Map<TId, TEntity>>();
+    isBatchDirty(batchId: TBatchId): boolean;
 
-    constructor(cloneEntity: (entity: TEntity) => TEntity = clone) {
-        this.cloneEntity = cloneEntity;
-        makeObservable(this);
-    }
+    /**
+     * Compute the changes applied to the mutable copy of the entity `id` in the batch `batchId`, for example
+     * to send them to a backend accepting `PATCH` requests.
+     * A copy of an entity that isn't cached is compared against an empty object.
+     *
+     * #### Example
+     * ```
+     * const copy = myRepository.mutableCopyById("some-batch", "some-unique-id-119");
+     * copy.name = "New name";
+     * expect(myRepository.diffMutableCopy("some-batch", "some-unique-id-119")).toEqual({
+     *     patch: [{ op: "replace", path: "/name", value: "New name" }],
+     *     changes: { name: "New name" },
+     * });
+     * ```
+     *
+     * @param batchId The id of the batch of mutable entities.
+     * @param id The id of the entity to compare.
+     *
+     * @return The differences to the cached entity or `undefined` if no mutable copy exists.
+     */
+    diffMutableCopy(batchId: TBatchId, id: TId): MutableCopyDiff<TEntity> | undefined;
 
     /**
-     * The state of all requests performed to load entities by id.
+     * Apply a JSON Patch, for example sent by the server, to a cached entity.
+     * The patch is applied atomically: If any operation fails, the cached entity is left untouched.
+     * The patched entity is added like any other entity, so it is combined with the cached entity according to
+     * the merge strategy. Pending optimistic updates stay applied on top of the patched entity.
+     *
+     * @throws Will throw if the entity isn't cached or if the patch could not be applied.
+     *
+     * @param id The id of the entity to patch.
+     * @param patch The RFC 6902 operations to apply.
      */
-    protected stateById = new RequestStates<TId>();
+    applyPatch(id: TId, patch: JsonPatchOperation[]): void;
 
     /**
-     * Listeners attached via [[IndexableRepository.waitForId]].
+     * Revert the last change to the mutable copies in the batch `batchId`.
+     * Changes are only recorded if [[IndexableRepository.historyLimit]] is set.
+     * All changes made within a single action are recorded as one step.
+     * Mutable copies that still exist are restored in place, so references to them stay valid.
+     *
+     * #### Example
+     * ```
+     * const copy = myRepository.mutableCopyById("some-batch", "some-unique-id-119");
+     * runInAction(() => (copy.name = "New name"));
+     * myRepository.undo("some-batch");
+     * expect(copy.name).toBe("Old name");
+     * ```
+     *
+     * @param batchId The id of the batch of mutable entities.
      */
-    protected listenersById = new Map<TId, PromiseCallbacks[]>();
+    undo(batchId: TBatchId): void;
 
     /**
-     * All instances of [[ErrorListener]] attached to this repository.
+     * Apply the last change reverted with [[Indexable.undo]] again.
+     * Any new change to the batch drops all changes that could be redone.
+     *
+     * @param batchId The id of the batch of mutable entities.
      */
-    protected errorListeners = new Set<ErrorListener>();
+    redo(batchId: TBatchId): void;
 
     /**
-     * Implement the actual loading of one entity in this method.
-     * If the entity could not be found, the method is expected to return `undefined`.
-     * It is okay to have this method reject with an error.
+     * Check whether a change to the batch `batchId` can be undone.
+     * This method is observable.
+     *
+     * @param batchId The id of the batch of mutable entities.
+     *
+     * @return `true` if [[Indexable.undo]] would revert a change and `false` otherwise.
+     */
+    canUndo(batchId: TBatchId): boolean;
+
+    /**
+     * Check whether a change to the batch `batchId` can be redone.
+     * This method is observable.
+     *
+     * @param batchId The id of the batch of mutable entities.
+     *
+     * @return `true` if [[Indexable.redo]] would apply a change again and `false` otherwise.
+     */
+    canRedo(batchId: TBatchId): boolean;
+
+    /**
+     * Get the properties that were changed differently in the mutable copy of the entity `id` in the batch
+     * `batchId` and in the cached entity, for example because the entity was reloaded or patched while the copy
+     * was being edited.
+     * The repository remembers the state of the entity at the time the copy was created, and compares both
+     * sides against it.
+     * This method is observable.
      *
      * #### Example
      * ```
-     * protected async fetchById(id: number): Promise<MyEntity> {
-     *     const response = await fetch(`http://example.com/api/my-entity/${id}`);
-     *     if (response.status === 404) {
-     *         return;
-     *     }
-     *     const body = await response.json();
-     *     return body;
-     * }
+     * const copy = await myRepository.mutableCopyByIdAsync("some-batch", "some-unique-id-119");
+     * runInAction(() => (copy.name = "My name"));
+     * myRepository.applyPatch("some-unique-id-119", [{ op: "replace", path: "/name", value: "Their name" }]);
+     * expect(myRepository.conflictsOf("some-batch", "some-unique-id-119")).toEqual([
+     *     { field: "name", base: "Old name", mine: "My name", theirs: "Their name" },
+     * ]);
      * ```
      *
-     * @throws The method may throw an error, for example if the entity couldn't be loaded.
+     * @param batchId The id of the batch of mutable entities.
+     * @param id The id of the entity to check.
      *
-     * @param id The id of the entity to load.
+     * @return All conflicting properties. Empty if no mutable copy exists or if the entity isn't cached.
+     */
+    conflictsOf(batchId: TBatchId, id: TId): Conflict<TEntity>[];
+
+    /**
+     * Resolve the conflicts between the mutable copy of the entity `id` in the batch `batchId` and the cached
+     * entity, see [[Indexable.conflictsOf]].
+     * Afterwards, the copy is considered to be based on the current state of the cached entity.
      *
-     * @return A Promise that resolves with the entity if it could be loaded, or `undefined` if it couldn't be found.
+     * @param batchId The id of the batch of mutable entities.
+     * @param id The id of the entity to resolve the conflicts of.
+     * @param resolution How to resolve the conflicts. Defaults to [[ConflictResolution.AUTO_MERGE]].
      */
-    protected abstract fetchById(id: TId): Promise<TEntity | undefined>;
+    resolveConflicts(batchId: TBatchId, id: TId, resolution?: ConflictResolution): void;
 
     /**
-     * Implement the extraction of a unique id from a given entity.
-     * The id will be used as key for the repository's cache.
+     * Register a validator checking all mutable copies of this repository.
+     * Mutable copies that fail validation can't be saved.
      *
      * #### Example
      * ```
-     * protected async extractId(entity: MyEntity): number {
-     *     return entity.id;
-     * }
+     * myRepository.addValidator({
+     *     field: "name",
+     *     validate: (entity) => (entity.name ? undefined : "Name is required."),
+     * });
+     * myRepository.addValidator({
+     *     field: "name",
+     *     validateAsync: async (entity, signal) => {
+     *         const response = await fetch(`http://example.com/api/names/${entity.name}`, { signal });
+     *         return response.status === 404 ? undefined : "Name is already taken.";
+     *     },
+     * });
      * ```
      *
-     * @param entity The entity to retrieve the unique id from.
+     * @param validator The validator to register.
+     */
+    addValidator(validator: Validator<TEntity> | AsyncValidator<TEntity>): void;
+
+    /**
+     * Remove a previously registered validator again.
      *
-     * @return An id that must be unique within this repository.
+     * @param validator The validator to remove.
      */
-    protected abstract extractId(entity: TEntity): TId;
+    removeValidator(validator: Validator<TEntity> | AsyncValidator<TEntity>): void;
 
-    /** @inheritdoc */
-    public byId(id: TId): TEntity | undefined {
-        setTimeout(() => this.loadById(id));
-        return this.entities.get(id);
-    }
+    /**
+     * Get the problems found when validating the mutable copy of the entity `id` in the batch `batchId`.
+     * Synchronous validators are re-evaluated on every change. Asynchronous validators run once the copy
+     * didn't change for [[IndexableRepository.validationDebounce]], and are cancelled by further changes.
+     * Until then, the problems they found previously are reported.
+     * This method is observable.
+     *
+     * @param batchId The id of the batch of mutable entities.
+     * @param id The id of the entity to validate.
+     *
+     * @return All problems found. Empty if no mutable copy exists.
+     */
+    validationErrors(batchId: TBatchId, id: TId): ValidationError<TEntity>[];
 
-    /** @inheritdoc */
-    public addErrorListener(listener: ErrorListener): void {
-        this.errorListeners.add(listener);
-    }
+    /**
+     * Check whether asynchronous validators are about to validate or are validating the mutable copy of the
+     * entity `id` in the batch `batchId`.
+     * This method is observable.
+     *
+     * @param batchId The id of the batch of mutable entities.
+     * @param id The id of the entity.
+     *
+     * @return `true` if asynchronous validation is pending and `false` otherwise.
+     */
+    isValidating(batchId: TBatchId, id: TId): boolean;
 
-    /** @inheritdoc */
-    public removeErrorListener(listener: ErrorListener): void {
-        this.errorListeners.delete(listener);
-    }
+    /**
+     * Check whether the mutable copy of the entity `id` in the batch `batchId` passed validation.
+     * A copy is not considered valid while asynchronous validation is pending, see [[Indexable.isValidating]].
+     * This method is observable.
+     *
+     * @param batchId The id of the batch of mutable entities.
+     * @param id The id of the entity.
+     *
+     * @return `true` if no problems were found and `false` otherwise.
+     */
+    isValid(batchId: TBatchId, id: TId): boolean;
 
-    /** @inheritdoc */
-    public async byIdAsync(id: TId): Promise<TEntity | undefined> {
-        await this.loadById(id);
-        return this.entities.get(id);
-    }
+    /**
+     * Manually add an entity to the cache.
+     * The entity is deserialized the same way as entities returned from fetching them.
+     * If an entity with the same id is already cached, both are combined as determined by the repository's
+     * [[MergeStrategy]].
+     *
+     * @param raw The raw payload of the entity to add.
+     */
+    add(raw: TRaw): void;
 
-    /** @inheritdoc */
-    public waitForId(id: TId): Promise<void> {
-        return new Promise((resolve, reject) => {
-            if (!this.listenersById.has(id)) {
-                this.listenersById.set(id, []);
-            }
-            this.listenersById.get(id)!.push({ resolve, reject });
+    /**
+     * Remove an entity from the cache.
+     * This might result in pending calls to `byIdAsync` or `waitForId` to reject.
+     *
+     * @param id The id of the entity to evict from the cache.
+     */
+    evict(id: TId): void;
+
+    /**
+     * Evict an entity from the cache and then load it again.
+     * This might result in pending calls to `byIdAsync` or `waitForId` to reject.
+     *
+     * @param id The id of the entity to reload.
+     *
+     * @return The entity if it was currently cached or `undefined` if it was not yet cached.
+     *
+     * @return A Promise resolving to the entity or `undefined` if it failed to load.
+     */
+    reloadId(id: TId): Promise<TEntity>;
+
+    /**
+     * Load an entity again that previously failed to load.
+     * Loading an entity that failed is not attempted again automatically, until this method is invoked.
+     * If the entity did not fail to load, this behaves like [[Indexable.byIdAsync]].
+     *
+     * @param id The id of the entity to retry loading.
+     *
+     * @return A Promise resolving to the entity or `undefined` if it failed to load again.
+     */
+    retry(id: TId): Promise<TEntity | undefined>;
+
+    /**
+     * Write the mutable copy of an entity in the batch `batchId` back to the backend.
+     * If the entity is cached, it is sent to [[IndexableRepository.persistEntity]]. Otherwise it is
+     * considered new and sent to [[IndexableRepository.createEntity]].
+     * The response replaces the cached entity and the mutable copy is replaced by a fresh copy of it.
+     *
+     * #### Example
+     * ```
+     * const myRepository: MyRepository = ...;
+     * const copy = await myRepository.mutableCopyByIdAsync("some-batch", "some-unique-id-119");
+     * copy.name = "New name";
+     * await myRepository.save("some-batch", "some-unique-id-119");
+     * expect(myRepository.byId("some-unique-id-119").name).toBe("New name");
+     * ```
+     *
+     * If the backend is unreachable, the save is queued and applied to the cache at once, see
+     * [[Indexable.replayMutations]]. The Promise then resolves immediately and the save status stays `IN_PROGRESS`
+     * until the save was replayed.
+     *
+     * @throws Will throw if no mutable copy exists, if the required hook is not implemented or if saving failed.
+     *     Will throw an [[InvalidEntityError]] without saving if the copy fails validation.
+     *
+     * @param batchId The id of the batch of mutable entities.
+     * @param id The id of the entity to save.
+     *
+     * @return A Promise resolving to the saved entity.
+     */
+    save(batchId: TBatchId, id: TId): Promise<TEntity>;
+
+    /**
+     * Write all dirty mutable copies in the batch `batchId` back to the backend, see [[Indexable.isDirty]].
+     * Cached entities are sent to [[IndexableRepository.persistEntities]] in a single call if it is implemented
+     * and to [[IndexableRepository.persistEntity]] one by one otherwise. New entities are sent to
+     * [[IndexableRepository.createEntity]].
+     * All saved entities are committed to the cache in a single transaction. If some entities fail to save,
+     * [[IndexableRepository.batchSaveMode]] determines whether the others are committed.
+     * Copies that fail validation aren't sent to the backend and fail with an [[InvalidEntityError]].
+     *
+     * #### Example
+     * ```
+     * const { saved, failed } = await myRepository.saveBatch("wizard");
+     * failed.forEach(({ id, error }) => console.error(`Couldn't save ${id}: ${error.message}`));
+     * ```
+     *
+     * If the backend is unreachable, the saves are queued and committed like with [[Indexable.save]]. If a batch
+     * is rolled back with [[BatchSaveMode.ATOMIC]], its queued saves are removed from the queue again.
+     *
+     * @param batchId The id of the batch of mutable entities.
+     *
+     * @return A Promise resolving to the saved and the failed entities. Failures are reported in the result and to
+     *     the error listeners. Only rejects if removing the queued saves of a rolled back batch couldn't be stored.
+     */
+    saveBatch(batchId: TBatchId): Promise<BatchSaveResult<TEntity, TId>>;
+
+    /**
+     * Delete an entity in the backend using [[IndexableRepository.deleteEntity]].
+     * Once deleted, the entity is evicted from the cache, all batches and all query results and is considered
+     * not found afterwards.
+     * If the backend is unreachable, the deletion is queued and applied to the cache at once, see
+     * [[Indexable.replayMutations]].
+     *
+     * @throws Will throw if the hook is not implemented or if deleting failed.
+     *
+     * @param id The id of the entity to delete.
+     */
+    deleteById(id: TId): Promise<void>;
+
+    /**
+     * Get the status of saving or deleting an entity.
+     * This method is observable, see [[Indexable.statusOf]].
+     *
+     * @param id The id of the entity.
+     *
+     * @return The status of the last save or delete request, with the error if it failed.
+     */
+    saveStatusOf(id: TId): RequestStatusInfo;
+
+    /**
+     * Get the number of mutations that were issued while the backend was unreachable and wait to be replayed.
+     * This method is observable.
+     *
+     * @return The number of queued mutations.
+     */
+    mutationQueueLength(): number;
+
+    /**
+     * Get the state of the queue of mutations that wait to be replayed.
+     * This method is observable.
+     *
+     * @return Whether mutations are queued and whether they are currently replayed.
+     */
+    mutationQueueStatus(): MutationQueueStatus;
+
+    /**
+     * Send all queued mutations to the backend in the order they were issued.
+     * [[Indexable.save]], [[Indexable.saveBatch]], [[Indexable.deleteById]] and [[Indexable.updateOptimistic]]
+     * queue their mutations if [[IndexableRepository.isOfflineError]] detects that the backend is unreachable, and
+     * as long as other mutations are queued.
+     * Replaying stops as soon as the backend is unreachable again. If a mutation fails with another error,
+     * [[IndexableRepository.resolveMutationConflict]] may replace it. Otherwise, the mutation is dropped, the
+     * error is reported to the error listeners and the entity is evicted, so it is reloaded from the backend.
+     * While replaying, responses of the backend don't override entities with queued mutations.
+     *
+     * #### Example
+     * ```
+     * window.addEventListener("online", () => myRepository.replayMutations());
+     * ```
+     *
+     * @throws Will throw if storing the queue, resolving a conflict or applying a response failed.
+     *
+     * @return A Promise resolving once the queue is empty or the backend is unreachable again. Invoking this
+     *     method while replaying returns the running replay.
+     */
+    replayMutations(): Promise<void>;
+
+    /**
+     * Load the queued mutations from [[IndexableRepository.mutationQueueStorage]] and apply them to the cache,
+     * replacing the current queue.
+     * Should be invoked once after creating the repository if the storage keeps the queue across reloads.
+     */
+    restoreMutations(): Promise<void>;
+
+    /**
+     * Apply a change to a cached entity immediately and persist it afterwards.
+     * If persisting fails, the change is rolled back and a [[RollbackError]] is reported to the error listeners.
+     * Query results resolve their entities by id and are therefore rolled back as well.
+     * Multiple updates of the same entity can be pending at once. Rolling back one of them keeps the others.
+     *
+     * #### Example
+     * ```
+     * const myRepository: MyRepository = ...;
+     * myRepository.updateOptimistic("some-unique-id-119", (entity) => (entity.starred = true));
+     * // The change is visible at once.
+     * expect(myRepository.byId("some-unique-id-119").starred).toBe(true);
+     * ```
+     *
+     * If the backend is unreachable, the update is kept and queued as a save of the updated entity, see
+     * [[Indexable.replayMutations]]. The queued save is replayed with [[IndexableRepository.persistEntity]], as
+     * the `persist` function can't be stored. The Promise then resolves immediately and the save status stays
+     * `IN_PROGRESS` until the save was replayed.
+     *
+     * @throws Will throw a [[RollbackError]] if persisting failed and the change was rolled back.
+     *     Will also throw if the entity is not cached or if no `persist` function is available.
+     *
+     * @param id The id of the entity to update.
+     * @param mutator Modifies the entity in place. Is invoked within an action.
+     * @param persist Sends the updated entity to the backend. Defaults to [[IndexableRepository.persistEntity]].
+     *     May resolve to the entity as returned by the backend.
+     *
+     * @return A Promise resolving to the updated entity once the change was persisted or queued.
+     */
+    updateOptimistic(
+        id: TId,
+        mutator: (entity: TEntity) => void,
+        persist?: (raw: TRaw) => Promise<TRaw | undefined>,
+    ): Promise<TEntity>;
+
+    /**
+     * Wait until all operations were performed and no current operations are running.
+     * This operations is guaranteed to resolve. It ignores errors.
+     *
+     * If an operation is started after this method was invoked, it will not be tracked.
+     */
+    waitForIdle(): Promise<void>;
+
+    /**
+     * Check whether any entity or query is currently being loaded, for example to show a global spinner.
+     * This method is observable.
+     *
+     * @return `true` if any request to load an entity or a query is in progress and `false` otherwise.
+     */
+    isBusy(): boolean;
+
+    /**
+     * Get the number of entities and queries that are currently being loaded.
+     * This method is observable.
+     *
+     * @return The number of requests in progress.
+     */
+    pendingCount(): number;
+
+    /**
+     * Get all entities and queries that failed to load, for example to show a global error banner.
+     * This method is observable.
+     *
+     * #### Example
+     * ```
+     * @observer
+     * class ErrorBanner extends React.Component {
+     *     @inject private myRepository!: MyRepository;
+     *
+     *     public render() {
+     *         const failed = this.myRepository.failedRequests();
+     *         return failed.length > 0 ? <div>{failed.length} requests failed.</div> : null;
+     *     }
+     * }
+     * ```
+     *
+     * @return The ids of the entities or the queries with the errors they failed with.
+     */
+    failedRequests(): FailedRequest<unknown, RequestError<TError>>[];
+}
+
+/**
+ * An abstract class implementing [[Indexable]] and providing all its caching operations.
+ * Two abstract methods need to be implemented: `fetchById` and `extractId`.
+ * The method [[IndexableRepository.fetchById]] is responsible for performing the actual call to the asynchronous
+ * provider (e.g. REST API) and [[IndexableRepository.extractId]] needs to return an unique identifier for any provided
+ * entity.
+ *
+ * #### Example
+ * ```
+ * interface MyEntity {
+ *     id: number;
+ *     name: string;
+ * }
+ *
+ * class MyRepository extends IndexableRepository<MyEntity, number> {
+ *     protected extractId(entity: MyEntity): number {
+ *         return entity.id;
+ *     }
+ *
+ *     protected async fetchById(id: number): Promise<MyEntity> {
+ *         const response = await fetch(`http://example.com/api/my-entity/${id}`);
+ *         if (response.status === 404) {
+ *             return;
+ *         }
+ *         const body = await response.json();
+ *         return body;
+ *     }
+ * }
+ * ```
+ */
+export abstract class IndexableRepository<
+        TEntity,
+        TId = string,
+        TBatchId = string,
+        TRaw = TEntity,
+        TError extends Error = Error,
+    >
+    implements Indexable<TEntity, TId, TBatchId, TRaw, TError>, Repository<RepositoryError<TId, TEntity, TError>>
+{
+    private cloneEntity: (entity: TEntity) => TEntity;
+
+    /**
+     * A map including all entities in the cache.
+     * Indexed by the ids extracted in [[IndexableRepository.extractId]].
+     */
+    @observable public entities = new Map<TId, TEntity>();
+
+    /**
+     * A map holding batches of mutable copies of entities.
+     * Indexed by a call-site supplied `TBatchId`.
+     *
+     * A batch is a namespace for mutable copies.
+     * It grants precisely control over which mutable copy you want to work with.
+     * A batch is indexed by the ids extracted in [[IndexableRepository.extractId]].
+     */
+    @observable public mutableCopyBatches = new Map<TBatchId, Map<TId, TEntity>>();
+
+    constructor(cloneEntity: (entity: TEntity) => TEntity = clone) {
+        this.cloneEntity = cloneEntity;
+        makeObservable(this);
+    }
+
+    /**
+     * The state of all requests performed to load entities by id.
+     */
+    protected stateById = new RequestStates<TId, undefined, RequestError<TError>>();
+
+    /**
+     * Listeners attached via [[IndexableRepository.waitForId]].
+     */
+    protected listenersById = new Map<TId, PromiseCallbacks<void, RequestError<TError>>[]>();
+
+    /**
+     * All instances of [[ErrorListener]] attached to this repository.
+     */
+    protected errorListeners = new Set<ErrorListener<RepositoryError<TId, TEntity, TError>>>();
+
+    /**
+     * All instances of [[DebugListener]] attached to this repository.
+     */
+    protected debugListeners = new Set<DebugListener>();
+
+    /**
+     * The maximum number of ids combined into one call to [[IndexableRepository.fetchByIds]].
+     * Can be overridden to change the batch size.
+     */
+    protected maxBatchSize = 100;
+
+    /**
+     * All ids that were requested since the last call to [[IndexableRepository.fetchByIds]],
+     * with the callbacks of all Promises waiting for the respective entity.
+     */
+    private pendingBatch = new Map<TId, (PromiseCallbacks<TEntity | undefined> & { signal: AbortSignal })[]>();
+
+    /**
+     * The maximum age in milliseconds after which a cached entity is considered stale.
+     * If `undefined`, entities never turn stale.
+     * Can be overridden to change the maximum age, see [[IndexableRepository.maxAgeOf]] for specifying
+     * it per entity.
+     */
+    protected maxAge?: number;
+
+    /**
+     * The ids of all cached entities that exceeded their maximum age.
+     */
+    @observable private staleIds = new Set<TId>();
+
+    /**
+     * Timers for marking the respective entity as stale.
+     */
+    private staleTimers = new Map<TId, ReturnType<typeof setTimeout>>();
+
+    /**
+     * The maximum number of entities in the cache.
+     * If more entities are added, entities are evicted as determined by [[IndexableRepository.evictionPolicy]].
+     * If `undefined`, the cache is unbounded.
+     * Can be overridden to limit the size of the cache.
+     */
+    protected maxEntries?: number;
+
+    /**
+     * The policy used to determine which entities to evict once [[IndexableRepository.maxEntries]] is exceeded.
+     * Can be overridden with a [[FifoEvictionPolicy]], [[LfuEvictionPolicy]] or any custom [[EvictionPolicy]].
+     */
+    protected evictionPolicy: EvictionPolicy<TId> = new LruEvictionPolicy();
+
+    /**
+     * Determines how an added entity is combined with the entity already cached under the same id.
+     * Merging keeps the cached instance, so that observers and forms holding a reference to it are updated.
+     * Can be overridden with any [[MergeStrategy]], see [[IndexableRepository.mergeEntity]] for specifying
+     * a custom merge.
+     */
+    protected mergeStrategy: MergeStrategy = MergeStrategy.REPLACE;
+
+    /**
+     * The time in milliseconds after which entities and query results that are no longer observed by any
+     * reaction are evicted.
+     * If `undefined`, unobserved entities are kept.
+     * Can be overridden to enable the garbage collection.
+     */
+    protected gcGracePeriod?: number;
+
+    /**
+     * The policy used for retrying failed fetches of entities and queries.
+     * Retrying is disabled by default.
+     * Can be overridden to enable retrying, for example with `new RetryPolicy({ maxAttempts: 3 })`.
+     */
+    protected retryPolicy = new RetryPolicy();
+
+    /**
+     * The time in milliseconds after which a request is aborted.
+     * Requests that timed out are not considered errors, but are marked as [[RequestStatus.ABORTED]].
+     * If `undefined`, requests never time out.
+     * Can be overridden to specify a timeout.
+     */
+    protected requestTimeout?: number;
+
+    /**
+     * The maximum number of changes to the mutable copies of a batch that can be undone.
+     * If `undefined`, changes aren't recorded and [[Indexable.undo]] does nothing.
+     * Can be overridden to enable undo and redo. Only affects batches created afterwards.
+     */
+    protected historyLimit?: number;
+
+    /**
+     * Determines whether [[Indexable.saveBatch]] commits the saved entities if other entities of the batch
+     * failed to save.
+     * Can be overridden with any [[BatchSaveMode]].
+     */
+    protected batchSaveMode = BatchSaveMode.ATOMIC;
+
+    /**
+     * The time in milliseconds after which batches of mutable copies that are no longer observed by any
+     * reaction via [[Indexable.mutableCopyById]] are discarded.
+     * Batches are then also discarded as soon as their last mutable copy is discarded.
+     * If `undefined`, batches are only discarded by [[Indexable.discardBatch]] and [[Indexable.reset]].
+     * Can be overridden to dispose batches automatically, for example once an editor is closed.
+     */
+    protected batchGracePeriod?: number;
+
+    /**
+     * The time in milliseconds asynchronous validators wait after the last change of a mutable copy before
+     * validating it.
+     * Can be overridden to validate more or less eagerly.
+     */
+    protected validationDebounce = 300;
+
+    /**
+     * Stores the mutations that were queued while the backend was unreachable.
+     * Keeps them in memory by default. Can be overridden to keep them across reloads of the application.
+     */
+    protected mutationQueueStorage: MutationQueueStorage<QueuedMutation<TId, TRaw>> =
+        new InMemoryMutationQueueStorage();
+
+    /**
+     * All mutations that wait to be replayed, in the order they were issued.
+     */
+    @observable.shallow private mutationQueue: QueuedMutation<TId, TRaw>[] = [];
+
+    /**
+     * Whether the queued mutations are currently replayed.
+     */
+    @observable private isReplaying = false;
+
+    /**
+     * The replay that is currently running, if any.
+     */
+    private replay?: Promise<void>;
+
+    /**
+     * All validators registered via [[Indexable.addValidator]].
+     */
+    @observable.shallow private validators: (Validator<TEntity> | AsyncValidator<TEntity>)[] = [];
+
+    /**
+     * The asynchronous validation of every mutable copy that was validated, indexed by batch.
+     */
+    private asyncValidations = new Map<TBatchId, Map<TId, CopyValidation<TEntity>>>();
+
+    /**
+     * The undo histories of all batches of mutable copies that are recorded.
+     */
+    @observable.shallow private batchRecordings = new Map<TBatchId, BatchRecording<TId, TEntity>>();
+
+    /**
+     * Snapshots of the cached entities at the time their mutable copies were created, indexed by batch.
+     * Used to detect conflicts once the cached entities change.
+     */
+    @observable.shallow private copyBases = new Map<TBatchId, ObservableMap<TId, TEntity>>();
+
+    /**
+     * The controllers for aborting all running requests to load entities by id.
+     */
+    protected requestsById = new RequestControllers<TId>();
+
+    /**
+     * The state of all requests performed to save or delete entities by id.
+     */
+    protected saveStateById = new RequestStates<TId>();
+
+    /**
+     * The pending optimistic updates for every entity that is currently updated optimistically.
+     */
+    private optimisticUpdates = new Map<TId, OptimisticUpdates<TEntity>>();
+
+    /**
+     * Tracks which ids are accessed via [[IndexableRepository.byId]] from within a reaction.
+     */
+    private observedIds = new ObservationTracker<TId>(
+        () => this.gcGracePeriod,
+        (id) => this.collectUnobserved(id),
+    );
+
+    /**
+     * Tracks which batches are accessed via [[IndexableRepository.mutableCopyById]] from within a reaction.
+     */
+    private observedBatches = new ObservationTracker<TBatchId>(
+        () => this.batchGracePeriod,
+        (batchId) => this.discardBatch(batchId),
+    );
+
+    /**
+     * Implement the actual loading of one entity in this method.
+     * If the entity could not be found, the method is expected to return `undefined`.
+     * It is okay to have this method reject with an error.
+     * The provided signal is aborted once the result is no longer needed, for example because the entity was
+     * evicted, the repository was reset or the request timed out.
+     *
+     * #### Example
+     * ```
+     * protected async fetchById(id: number, signal: AbortSignal): Promise<MyEntity> {
+     *     const response = await fetch(`http://example.com/api/my-entity/${id}`, { signal });
+     *     if (response.status === 404) {
+     *         return;
+     *     }
+     *     const body = await response.json();
+     *     return body;
+     * }
+     * ```
+     *
+     * @throws The method may throw an error, for example if the entity couldn't be loaded.
+     *
+     * @param id The id of the entity to load.
+     * @param signal A signal that is aborted once the request should be cancelled.
+     *
+     * @return A Promise that resolves with the raw payload of the entity if it could be loaded, or `undefined` if it
+     *     couldn't be found. The payload is converted using [[IndexableRepository.deserialize]].
+     */
+    protected abstract fetchById(id: TId, signal: AbortSignal): Promise<TRaw | undefined>;
+
+    /**
+     * Optionally implement the loading of multiple entities in one request.
+     * If this method is implemented, it is used instead of [[IndexableRepository.fetchById]] and all ids
+     * requested within one tick will be combined into one call, with at most
+     * [[IndexableRepository.maxBatchSize]] ids each.
+     * Entities for ids that are missing from the result will be considered not found.
+     * The provided signal is aborted once the requests for all ids in the batch were aborted.
+     *
+     * #### Example
+     * ```
+     * protected async fetchByIds(ids: number[], signal: AbortSignal): Promise<MyEntity[]> {
+     *     const response = await fetch(`http://example.com/api/my-entity?ids=${ids.join(",")}`, { signal });
+     *     const body = await response.json();
+     *     return body;
+     * }
+     * ```
+     *
+     * @throws The method may throw an error, which will be reported for every requested id.
+     *
+     * @param ids The ids of the entities to load.
+     * @param signal A signal that is aborted once the request should be cancelled.
+     *
+     * @return A Promise that resolves with the raw payloads of all entities that could be found.
+     */
+    protected fetchByIds?(ids: TId[], signal: AbortSignal): Promise<TRaw[]>;
+
+    /**
+     * Optionally implement writing changes to an existing entity back to the backend.
+     * Required for saving cached entities with [[IndexableRepository.save]].
+     *
+     * #### Example
+     * ```
+     * protected async persistEntity(raw: MyEntity): Promise<MyEntity> {
+     *     const response = await fetch(`http://example.com/api/my-entity/${raw.id}`, {
+     *         method: "PUT",
+     *         body: JSON.stringify(raw),
+     *     });
+     *     return await response.json();
+     * }
+     * ```
+     *
+     * @throws The method may throw an error, for example if the entity couldn't be saved.
+     *
+     * @param raw The serialized mutable copy of the entity.
+     *
+     * @return A Promise that resolves with the raw payload of the saved entity as returned by the backend,
+     *     or `undefined` if the backend doesn't return it, in which case the sent payload is used.
+     */
+    protected persistEntity?(raw: TRaw): Promise<TRaw | undefined>;
+
+    /**
+     * Optionally implement creating a new entity in the backend.
+     * Required for saving entities that aren't cached yet with [[IndexableRepository.save]].
+     * The backend may assign a new id to the entity.
+     *
+     * @throws The method may throw an error, for example if the entity couldn't be created.
+     *
+     * @param raw The serialized mutable copy of the entity.
+     *
+     * @return A Promise that resolves with the raw payload of the created entity as returned by the backend,
+     *     or `undefined` if the backend doesn't return it, in which case the sent payload is used.
+     */
+    protected createEntity?(raw: TRaw): Promise<TRaw | undefined>;
+
+    /**
+     * Optionally implement persisting multiple modified entities in the backend at once.
+     * Used by [[IndexableRepository.saveBatch]] instead of calling [[IndexableRepository.persistEntity]] for
+     * every entity. New entities are still created one by one.
+     *
+     * @throws The method may throw an error, which will be reported for every entity.
+     *
+     * @param raws The serialized mutable copies of the entities.
+     *
+     * @return A Promise that resolves with the raw payloads of the saved entities in the same order, or
+     *     `undefined` for every entity the backend doesn't return.
+     */
+    protected persistEntities?(raws: TRaw[]): Promise<(TRaw | undefined)[]>;
+
+    /**
+     * Optionally implement deleting an entity in the backend.
+     * Required for [[IndexableRepository.deleteById]].
+     *
+     * @throws The method may throw an error, for example if the entity couldn't be deleted.
+     *
+     * @param id The id of the entity to delete.
+     */
+    protected deleteEntity?(id: TId): Promise<void>;
+
+    /**
+     * Optionally implement resolving a queued mutation that failed when it was replayed, for example because
+     * the entity was changed by someone else in the meantime.
+     * If not implemented, failing mutations are dropped, see [[Indexable.replayMutations]].
+     *
+     * #### Example
+     * ```
+     * protected async resolveMutationConflict(
+     *     mutation: QueuedMutation<number, MyEntity>,
+     *     error: Error,
+     * ): Promise<QueuedMutation<number, MyEntity> | undefined> {
+     *     if (mutation.type === "save" && error instanceof VersionMismatchError) {
+     *         return { ...mutation, raw: { ...mutation.raw, version: error.currentVersion } };
+     *     }
+     *     return undefined;
+     * }
+     * ```
+     *
+     * @param mutation The mutation that failed.
+     * @param error The error the mutation failed with.
+     *
+     * @return A Promise resolving to a mutation replacing the failed one, which is sent at once, or to
+     *     `undefined` to drop the failed mutation.
+     */
+    protected resolveMutationConflict?(
+        mutation: QueuedMutation<TId, TRaw>,
+        error: Error,
+    ): Promise<QueuedMutation<TId, TRaw> | undefined>;
+
+    /**
+     * Implement the extraction of a unique id from a given entity.
+     * The id will be used as key for the repository's cache.
+     *
+     * #### Example
+     * ```
+     * protected async extractId(entity: MyEntity): number {
+     *     return entity.id;
+     * }
+     * ```
+     *
+     * @param entity The entity to retrieve the unique id from.
+     *
+     * @return An id that must be unique within this repository.
+     */
+    protected abstract extractId(entity: TEntity): TId;
+
+    /**
+     * Convert the raw payload of an entity, as returned by the fetch methods or passed to
+     * [[IndexableRepository.add]], into an entity.
+     * Can be overridden to let the fetch methods return plain JSON. By default, the payload is used as-is.
+     *
+     * #### Example
+     * ```
+     * protected deserialize(raw: MyEntityJson): MyEntity {
+     *     return new MyEntity(raw);
+     * }
+     * ```
+     *
+     * @param raw The raw payload to convert.
+     *
+     * @return The entity.
+     */
+    protected deserialize(raw: TRaw): TEntity {
+        return (raw as unknown) as TEntity;
+    }
+
+    /**
+     * Convert an entity back into its raw payload. This is the inverse of [[IndexableRepository.deserialize]].
+     * Should be overridden whenever [[IndexableRepository.deserialize]] is.
+     *
+     * @param entity The entity to convert.
+     *
+     * @return The raw payload.
+     */
+    protected serialize(entity: TEntity): TRaw {
+        return (entity as unknown) as TRaw;
+    }
+
+    /**
+     * Determine the maximum age in milliseconds of a specific entity.
+     * Can be overridden to specify the maximum age per entity. Defaults to [[IndexableRepository.maxAge]].
+     *
+     * @param _entity The entity to determine the maximum age of.
+     *
+     * @return The maximum age in milliseconds or `undefined` if the entity should never turn stale.
+     */
+    protected maxAgeOf(_entity: TEntity): number | undefined {
+        return this.maxAge;
+    }
+
+    /**
+     * Determine whether a mutation failed because the backend is unreachable, in which case the mutation is
+     * queued, see [[Indexable.replayMutations]].
+     * Returns `false` by default, which disables queueing. Can be overridden to detect network errors.
+     *
+     * #### Example
+     * ```
+     * protected isOfflineError(error: Error): boolean {
+     *     return !navigator.onLine || error instanceof TypeError;
+     * }
+     * ```
+     *
+     * @param _error The error the mutation failed with.
+     *
+     * @return `true` if the mutation should be queued and `false` if it failed.
+     */
+    protected isOfflineError(_error: Error): boolean {
+        return false;
+    }
+
+    /**
+     * Combine an added entity with the entity already cached under the same id.
+     * Is invoked within an action. Can be overridden to merge entities in a custom way.
+     * By default, the entities are combined as determined by [[IndexableRepository.mergeStrategy]].
+     *
+     * @param existing The entity that is currently cached.
+     * @param incoming The entity that is being added.
+     *
+     * @return The entity to cache. Return `existing` after modifying it in place to keep its identity.
+     */
+    protected mergeEntity(existing: TEntity, incoming: TEntity): TEntity {
+        switch (this.mergeStrategy) {
+            case MergeStrategy.SHALLOW_MERGE:
+                return shallowMerge(existing, incoming);
+            case MergeStrategy.DEEP_MERGE:
+                return deepMerge(existing, incoming);
+            default:
+                return incoming;
+        }
+    }
+
+    /** @inheritdoc */
+    public byId(id: TId): TEntity | undefined {
+        // Observe the staleness, so that observers will access the entity again once it turned stale.
+        this.isStale(id);
+        setTimeout(() => this.loadById(id));
+        this.observedIds.reportObserved(id);
+        return this.accessEntity(id);
+    }
+
+    /** @inheritdoc */
+    public addErrorListener(listener: ErrorListener<RepositoryError<TId, TEntity, TError>>): void {
+        this.errorListeners.add(listener);
+    }
+
+    /** @inheritdoc */
+    public removeErrorListener(listener: ErrorListener<RepositoryError<TId, TEntity, TError>>): void {
+        this.errorListeners.delete(listener);
+    }
+
+    /** @inheritdoc */
+    public addDebugListener(listener: DebugListener): void {
+        this.debugListeners.add(listener);
+    }
+
+    /** @inheritdoc */
+    public removeDebugListener(listener: DebugListener): void {
+        this.debugListeners.delete(listener);
+    }
+
+    /**
+     * Drop the response of a request that was aborted, reporting it to all debug listeners.
+     *
+     * @param key The id of the entity or the query the response belonged to.
+     * @param signal The aborted signal of the request.
+     *
+     * @throws Always throws the reason the request was aborted with.
+     */
+    protected dropResponse(key: unknown, signal: AbortSignal): never {
+        this.debugListeners.forEach((callback) => callback({ type: "dropped-response", key, reason: signal.reason }));
+        throw signal.reason;
+    }
+
+    /** @inheritdoc */
+    public async byIdAsync(id: TId): Promise<TEntity | undefined> {
+        await this.loadById(id);
+        return this.accessEntity(id);
+    }
+
+    /** @inheritdoc */
+    public waitForId(id: TId): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.listenersById.has(id)) {
+                this.listenersById.set(id, []);
+            }
+            this.listenersById.get(id)!.push({ resolve, reject });
         });
     }
 
@@ -448,102 +1510,1179 @@ export abstract class IndexableRepository<TEntity, TId = string, TBatchId = stri
     }
 
     /** @inheritdoc */
-    public isLoaded(id: TId): boolean {
-        return this.entities.has(id);
+    public isBusy(): boolean {
+        return this.stateById.hasPending;
+    }
+
+    /** @inheritdoc */
+    public pendingCount(): number {
+        return this.stateById.counts[RequestStatus.IN_PROGRESS];
+    }
+
+    /** @inheritdoc */
+    public failedRequests(): FailedRequest<unknown, RequestError<TError>>[] {
+        return this.stateById.errors;
+    }
+
+    /** @inheritdoc */
+    public isLoaded(id: TId): boolean {
+        return this.entities.has(id);
+    }
+
+    /** @inheritdoc */
+    public statusOf(id: TId): RequestStatusInfo<RequestError<TError>> {
+        const info = this.stateById.getStatusInfo(id);
+        if (info.status === RequestStatus.NONE && this.isLoaded(id)) {
+            return { status: RequestStatus.DONE };
+        }
+        return info;
+    }
+
+    /** @inheritdoc */
+    public errorOf(id: TId): RequestError<TError> | undefined {
+        const info = this.statusOf(id);
+        return info.status === RequestStatus.ERROR ? info.error : undefined;
+    }
+
+    /** @inheritdoc */
+    public isKnown(id: TId): boolean {
+        return (
+            this.isLoaded(id) ||
+            this.stateById.isStatus(
+                id,
+                RequestStatus.ERROR,
+                RequestStatus.IN_PROGRESS,
+                RequestStatus.NOT_FOUND,
+                RequestStatus.DONE,
+            )
+        );
+    }
+
+    /** @inheritdoc */
+    public isStale(id: TId): boolean {
+        return this.staleIds.has(id);
+    }
+
+    private batchById(batchId: TBatchId): Map<TId, TEntity> {
+        if (!this.mutableCopyBatches.has(batchId)) {
+            this.mutableCopyBatches.set(batchId, new Map<TId, TEntity>());
+            if (this.historyLimit !== undefined) {
+                this.recordBatch(batchId);
+            }
+        }
+        return this.mutableCopyBatches.get(batchId);
+    }
+
+    /** @inheritdoc */
+    public mutableCopyById(batchId: TBatchId, id: TId): TEntity | undefined {
+        const batch = this.batchById(batchId);
+        this.observedBatches.reportObserved(batchId);
+        if (!batch.has(id)) {
+            if (this.isLoaded(id)) {
+                // If the resource is already loaded then this method will be synchronous.
+                this.addMutableCopy(batchId, id, this.byId(id));
+            } else {
+                // Otherwise we need to asynchronously load the entity first.
+                setTimeout(async () => {
+                    this.addMutableCopy(batchId, id, await this.byIdAsync(id));
+                });
+            }
+        }
+        return batch.get(id);
+    }
+
+    /** @inheritdoc */
+    public async mutableCopyByIdAsync(batchId: TBatchId, id: TId): Promise<TEntity | undefined> {
+        const batch = this.batchById(batchId);
+        if (!batch.has(id)) {
+            this.addMutableCopy(batchId, id, await this.byIdAsync(id));
+        }
+        return batch.get(id);
+    }
+
+    @action.bound private addMutableCopy(batchId: TBatchId, id: TId, entity: TEntity): void {
+        this.batchById(batchId).set(id, this.cloneEntity(entity));
+        this.setCopyBase(batchId, id, entity);
+    }
+
+    /**
+     * Remember the state of the cached entity a mutable copy is based on, or forget it if `entity` is `undefined`.
+     */
+    @action.bound private setCopyBase(batchId: TBatchId, id: TId, entity: TEntity | undefined): void {
+        if (!this.copyBases.has(batchId)) {
+            this.copyBases.set(batchId, observable.map<TId, TEntity>({}, { deep: false }));
+        }
+        const bases = this.copyBases.get(batchId)!;
+        if (entity === undefined) {
+            bases.delete(id);
+        } else {
+            bases.set(id, clone(toJS(entity)));
+        }
+    }
+
+    /** @inheritdoc */
+    @action.bound public setMutableCopy(batchId: TBatchId, entity: TEntity): void {
+        const batch = this.batchById(batchId);
+        const id = this.extractId(entity);
+        batch.set(id, entity);
+        this.setCopyBase(batchId, id, this.entities.get(id));
+    }
+
+    /** @inheritdoc */
+    @action.bound public discardMutableCopy(batchId: TBatchId, id: TId): void {
+        const batch = this.batchById(batchId);
+        batch.delete(id);
+        this.setCopyBase(batchId, id, undefined);
+        this.disposeIfEmpty(batchId);
+    }
+
+    /** @inheritdoc */
+    @action.bound public discardBatch(batchId: TBatchId): void {
+        this.mutableCopyBatches.delete(batchId);
+        this.batchRecordings.get(batchId)?.dispose();
+        this.batchRecordings.delete(batchId);
+        this.copyBases.delete(batchId);
+        this.stopAsyncValidations(batchId);
+    }
+
+    /** @inheritdoc */
+    public batchIds(): TBatchId[] {
+        return [...this.mutableCopyBatches.keys()];
+    }
+
+    /** @inheritdoc */
+    public hasBatch(batchId: TBatchId): boolean {
+        return this.mutableCopyBatches.has(batchId);
+    }
+
+    /** @inheritdoc */
+    public batchesContaining(id: TId): TBatchId[] {
+        return this.batchIds().filter((batchId) => this.mutableCopyBatches.get(batchId)!.has(id));
+    }
+
+    /**
+     * Discard a batch that no longer holds any mutable copies, if batches are disposed automatically.
+     */
+    private disposeIfEmpty(batchId: TBatchId): void {
+        if (this.batchGracePeriod !== undefined && this.mutableCopyBatches.get(batchId)!.size === 0) {
+            this.discardBatch(batchId);
+        }
+    }
+
+    /** @inheritdoc */
+    public isDirty(batchId: TBatchId, id: TId): boolean {
+        // Don't use `batchById` here, as creating the batch would modify state during a derivation.
+        const copy = this.mutableCopyBatches.get(batchId)?.get(id);
+        if (copy === undefined) {
+            return false;
+        }
+        if (!this.isLoaded(id)) {
+            return true;
+        }
+        return !deepEqual(copy, this.entities.get(id), { strict: true });
+    }
+
+    /** @inheritdoc */
+    public dirtyFields(batchId: TBatchId, id: TId): (keyof TEntity)[] {
+        const copy = this.mutableCopyBatches.get(batchId)?.get(id);
+        if (copy === undefined) {
+            return [];
+        }
+        return changedFields(this.entities.get(id) ?? ({} as TEntity), copy);
+    }
+
+    /** @inheritdoc */
+    public dirtyIds(batchId: TBatchId): TId[] {
+        const batch = this.mutableCopyBatches.get(batchId);
+        if (!batch) {
+            return [];
+        }
+        return [...batch.keys()].filter((id) => this.isDirty(batchId, id));
+    }
+
+    /** @inheritdoc */
+    public isBatchDirty(batchId: TBatchId): boolean {
+        const batch = this.mutableCopyBatches.get(batchId);
+        if (!batch) {
+            return false;
+        }
+        return [...batch.keys()].some((id) => this.isDirty(batchId, id));
+    }
+
+    /** @inheritdoc */
+    public diffMutableCopy(batchId: TBatchId, id: TId): MutableCopyDiff<TEntity> | undefined {
+        const copy = this.mutableCopyBatches.get(batchId)?.get(id);
+        if (copy === undefined) {
+            return undefined;
+        }
+        // Take snapshots, so that the returned values don't change along with the copy.
+        const snapshot = toJS(copy);
+        const patch = createPatch(toJS(this.entities.get(id) ?? ({} as TEntity)), snapshot);
+        const changes = this.dirtyFields(batchId, id).reduce((result, key) => {
+            result[key] = snapshot[key];
+            return result;
+        }, {} as Partial<TEntity>);
+        return { patch, changes };
+    }
+
+    /** @inheritdoc */
+    @action.bound public undo(batchId: TBatchId): void {
+        const snapshot = this.batchRecordings.get(batchId)?.history.undo();
+        if (snapshot) {
+            this.restoreBatch(batchId, snapshot);
+        }
+    }
+
+    /** @inheritdoc */
+    @action.bound public redo(batchId: TBatchId): void {
+        const snapshot = this.batchRecordings.get(batchId)?.history.redo();
+        if (snapshot) {
+            this.restoreBatch(batchId, snapshot);
+        }
+    }
+
+    /** @inheritdoc */
+    public canUndo(batchId: TBatchId): boolean {
+        return this.batchRecordings.get(batchId)?.history.canUndo ?? false;
+    }
+
+    /** @inheritdoc */
+    public canRedo(batchId: TBatchId): boolean {
+        return this.batchRecordings.get(batchId)?.history.canRedo ?? false;
+    }
+
+    /** @inheritdoc */
+    public conflictsOf(batchId: TBatchId, id: TId): Conflict<TEntity>[] {
+        const copy = this.mutableCopyBatches.get(batchId)?.get(id);
+        const base = this.copyBases.get(batchId)?.get(id);
+        const entity = this.entities.get(id);
+        if (copy === undefined || base === undefined || entity === undefined) {
+            return [];
+        }
+        return findConflicts(base, toJS(copy), toJS(entity));
+    }
+
+    /** @inheritdoc */
+    @action.bound public resolveConflicts(
+        batchId: TBatchId,
+        id: TId,
+        resolution = ConflictResolution.AUTO_MERGE,
+    ): void {
+        const copy = this.mutableCopyBatches.get(batchId)?.get(id) as Record<string, unknown> | undefined;
+        const base = this.copyBases.get(batchId)?.get(id) as Record<string, unknown> | undefined;
+        const entity = this.entities.get(id);
+        if (copy === undefined || base === undefined || entity === undefined) {
+            return;
+        }
+        const theirs = clone(toJS(entity)) as Record<string, unknown>;
+        switch (resolution) {
+            case ConflictResolution.TAKE_THEIRS:
+                applyPatch(copy, createPatch(copy, clone(theirs)));
+                break;
+            case ConflictResolution.AUTO_MERGE: {
+                const conflicting = findConflicts(base, copy, theirs).map(({ field }) => field);
+                const changedByMe = changedFields(base, copy);
+                changedFields(base, theirs)
+                    .filter((field) => changedByMe.indexOf(field) === -1)
+                    .forEach((field) => {
+                        if (field in theirs) {
+                            copy[field] = clone(theirs[field]);
+                        } else {
+                            delete copy[field];
+                        }
+                    });
+                // Conflicting properties keep their original base, so that they are still reported.
+                conflicting.forEach((field) => {
+                    if (field in base) {
+                        theirs[field] = base[field];
+                    } else {
+                        delete theirs[field];
+                    }
+                });
+                break;
+            }
+        }
+        this.setCopyBase(batchId, id, theirs as unknown as TEntity);
+    }
+
+    /** @inheritdoc */
+    @action.bound public addValidator(validator: Validator<TEntity> | AsyncValidator<TEntity>): void {
+        this.validators.push(validator);
+    }
+
+    /** @inheritdoc */
+    @action.bound public removeValidator(validator: Validator<TEntity> | AsyncValidator<TEntity>): void {
+        const index = this.validators.indexOf(validator);
+        if (index !== -1) {
+            this.validators.splice(index, 1);
+        }
+    }
+
+    /** @inheritdoc */
+    public validationErrors(batchId: TBatchId, id: TId): ValidationError<TEntity>[] {
+        const copy = this.mutableCopyBatches.get(batchId)?.get(id);
+        if (copy === undefined) {
+            return [];
+        }
+        const errors = runValidators(copy, this.syncValidators());
+        if (this.asyncValidators().length === 0) {
+            return errors;
+        }
+        return [...errors, ...this.asyncValidationOf(batchId, id).errors];
+    }
+
+    /** @inheritdoc */
+    public isValidating(batchId: TBatchId, id: TId): boolean {
+        if (!this.mutableCopyBatches.get(batchId)?.has(id) || this.asyncValidators().length === 0) {
+            return false;
+        }
+        return this.asyncValidationOf(batchId, id).isPending;
+    }
+
+    /** @inheritdoc */
+    public isValid(batchId: TBatchId, id: TId): boolean {
+        return this.validationErrors(batchId, id).length === 0 && !this.isValidating(batchId, id);
+    }
+
+    private syncValidators(): Validator<TEntity>[] {
+        return this.validators.filter((validator): validator is Validator<TEntity> => !isAsyncValidator(validator));
+    }
+
+    private asyncValidators(): AsyncValidator<TEntity>[] {
+        return this.validators.filter(isAsyncValidator);
+    }
+
+    /**
+     * Get the asynchronous validation of a mutable copy, starting it if necessary.
+     * The validation is rescheduled whenever the copy or the validators change, and stops once the copy is gone.
+     */
+    private asyncValidationOf(batchId: TBatchId, id: TId): AsyncValidation<TEntity> {
+        if (!this.asyncValidations.has(batchId)) {
+            this.asyncValidations.set(batchId, new Map());
+        }
+        const validations = this.asyncValidations.get(batchId)!;
+        if (!validations.has(id)) {
+            const validation = new AsyncValidation<TEntity>(this.validationDebounce);
+            const dispose = reaction(
+                () => {
+                    const copy = this.mutableCopyBatches.get(batchId)!.get(id);
+                    return copy && { entity: clone(toJS(copy)), validators: this.asyncValidators() };
+                },
+                (input) => {
+                    if (!input) {
+                        dispose();
+                        validation.cancel();
+                        validations.delete(id);
+                        if (validations.size === 0) {
+                            this.asyncValidations.delete(batchId);
+                        }
+                        return;
+                    }
+                    validation.schedule(input.entity, input.validators);
+                },
+                { fireImmediately: true },
+            );
+            validations.set(id, { validation, dispose });
+        }
+        return validations.get(id)!.validation;
+    }
+
+    /**
+     * Stop all asynchronous validations of a batch and forget about them.
+     */
+    private stopAsyncValidations(batchId: TBatchId): void {
+        this.asyncValidations.get(batchId)?.forEach(({ validation, dispose }) => {
+            dispose();
+            validation.cancel();
+        });
+        this.asyncValidations.delete(batchId);
+    }
+
+    /**
+     * Validate an entity immediately with all validators.
+     *
+     * @throws Will throw an [[InvalidEntityError]] if any problems were found.
+     */
+    private async validateCopy(copy: TEntity): Promise<void> {
+        const asyncErrors = await runAsyncValidators(
+            clone(toJS(copy)),
+            this.asyncValidators(),
+            new AbortController().signal,
+        );
+        const errors = [...runValidators(copy, this.syncValidators()), ...asyncErrors];
+        if (errors.length > 0) {
+            throw new InvalidEntityError(errors);
+        }
+    }
+
+    /**
+     * Start recording the changes to the mutable copies of a batch.
+     * The reaction only runs once the outermost action finished, so all changes within an action form one step.
+     */
+    @action.bound private recordBatch(batchId: TBatchId): void {
+        const snapshot = (): Map<TId, TEntity> => this.snapshotBatch(batchId);
+        const equals = (a: Map<TId, TEntity>, b: Map<TId, TEntity>): boolean => deepEqual(a, b, { strict: true });
+        const history = new BatchHistory(snapshot(), this.historyLimit!, equals);
+        const dispose = reaction(snapshot, history.record, { equals });
+        this.batchRecordings.set(batchId, { history, dispose });
+    }
+
+    /**
+     * Take a deep copy of all mutable copies in a batch, which doesn't change along with the copies.
+     */
+    private snapshotBatch(batchId: TBatchId): Map<TId, TEntity> {
+        const snapshot = new Map<TId, TEntity>();
+        this.mutableCopyBatches.get(batchId)!.forEach((copy, id) => snapshot.set(id, clone(toJS(copy))));
+        return snapshot;
+    }
+
+    @action.bound private restoreBatch(batchId: TBatchId, snapshot: Map<TId, TEntity>): void {
+        const batch = this.mutableCopyBatches.get(batchId)!;
+        [...batch.keys()].filter((id) => !snapshot.has(id)).forEach((id) => batch.delete(id));
+        snapshot.forEach((entity, id) => {
+            const copy = batch.get(id);
+            if (copy === undefined) {
+                batch.set(id, clone(entity));
+                if (!this.copyBases.get(batchId)!.has(id)) {
+                    // The base was forgotten when the copy was discarded or saved.
+                    this.setCopyBase(batchId, id, this.entities.get(id));
+                }
+                return;
+            }
+            applyPatch(copy, createPatch(copy, clone(entity)));
+        });
+    }
+
+    /** @inheritdoc */
+    @action.bound public applyPatch(id: TId, patch: JsonPatchOperation[]): void {
+        if (!this.isLoaded(id)) {
+            throw new Error("Can't patch an entity that isn't cached.");
+        }
+        const updates = this.optimisticUpdates.get(id);
+        if (updates) {
+            // The patch describes the state on the server, which pending optimistic updates are layered upon.
+            updates.base = applyPatch(this.cloneEntity(updates.base), patch);
+            this.addEntity(this.layerOptimistic(updates));
+            return;
+        }
+        this.addEntity(applyPatch(this.cloneEntity(this.entities.get(id)!), patch));
+    }
+
+    /** @inheritdoc */
+    @action.bound public add(raw: TRaw): void {
+        this.addEntity(this.deserialize(raw));
+    }
+
+    /**
+     * Add an entity that was already deserialized to the cache.
+     *
+     * @param entity The entity to add.
+     */
+    @action.bound protected addEntity(entity: TEntity): void {
+        this.addEntities([entity]);
+    }
+
+    /**
+     * Add multiple entities that were already deserialized to the cache, for example the result of a query.
+     * None of the added entities are evicted to keep the cache within [[IndexableRepository.maxEntries]],
+     * even if there are more of them than fit.
+     *
+     * @param entities The entities to add.
+     */
+    @action.bound protected addEntities(entities: TEntity[]): void {
+        entities.forEach((entity) => this.storeEntity(entity));
+        this.enforceMaxEntries(entities.map((entity) => this.extractId(entity)));
+    }
+
+    private storeEntity(entity: TEntity): void {
+        const id = this.extractId(entity);
+        const existing = this.entities.get(id);
+        const merged = existing === undefined ? entity : this.mergeEntity(existing, entity);
+        if (merged !== existing) {
+            this.entities.set(id, merged);
+        }
+        this.clearStale(id);
+        const maxAge = this.maxAgeOf(entity);
+        if (maxAge !== undefined) {
+            this.staleTimers.set(id, setTimeout(() => this.markStale(id), maxAge));
+        }
+        this.evictionPolicy.added(id);
+    }
+
+    /** @inheritdoc */
+    @action.bound public reset(): void {
+        this.stateById.reset();
+        this.saveStateById.reset();
+        this.optimisticUpdates.clear();
+        this.listenersById.forEach((listeners) => {
+            listeners.forEach(({ reject }) => reject(new ResetError()));
+        });
+        this.listenersById.clear();
+        this.entities.clear();
+        this.mutableCopyBatches.clear();
+        this.batchRecordings.forEach(({ dispose }) => dispose());
+        this.batchRecordings.clear();
+        this.copyBases.clear();
+        [...this.asyncValidations.keys()].forEach((batchId) => this.stopAsyncValidations(batchId));
+        this.staleTimers.forEach((timer) => clearTimeout(timer));
+        this.staleTimers.clear();
+        this.staleIds.clear();
+        this.evictionPolicy.reset();
+        this.observedIds.reset();
+        this.observedBatches.reset();
+        this.requestsById.abortAll();
+    }
+
+    /** @inheritdoc */
+    @action.bound public evict(id: TId): void {
+        this.entities.delete(id);
+        this.optimisticUpdates.delete(id);
+        this.requestsById.abort(id);
+        this.evictionPolicy.removed(id);
+        this.clearStale(id);
+        this.callListenersById(id, new EvictedError());
+        this.stateById.delete(id);
+    }
+
+    /** @inheritdoc */
+    public async reloadId(id: TId): Promise<TEntity> {
+        await this.loadById(id, { force: true });
+        return await this.byIdAsync(id);
     }
 
     /** @inheritdoc */
-    public isKnown(id: TId): boolean {
-        return (
-            this.isLoaded(id) ||
-            this.stateById.isStatus(
-                id,
-                RequestStatus.ERROR,
-                RequestStatus.IN_PROGRESS,
-                RequestStatus.NOT_FOUND,
-                RequestStatus.DONE,
-            )
-        );
+    public async retry(id: TId): Promise<TEntity | undefined> {
+        if (this.stateById.isStatus(id, RequestStatus.ERROR)) {
+            this.stateById.setStatus(id, RequestStatus.NONE);
+        }
+        return await this.byIdAsync(id);
     }
 
-    private batchById(batchId: TBatchId): Map<TId, TEntity> {
-        if (!this.mutableCopyBatches.has(batchId)) {
-            this.mutableCopyBatches.set(batchId, new Map<TId, TEntity>());
+    /** @inheritdoc */
+    public async save(batchId: TBatchId, id: TId): Promise<TEntity> {
+        const copy = this.mutableCopyBatches.get(batchId)?.get(id);
+        if (copy === undefined) {
+            throw new Error("No mutable copy of the entity exists in the batch.");
+        }
+        const isNew = this.isNewCopy(batchId, id);
+        const hook = this.saveHook(isNew);
+        const raw = this.serialize(copy);
+        this.saveStateById.start(id);
+        try {
+            await this.validateCopy(copy);
+            const result = await this.performMutation({ type: "save", id, raw, isNew }, () => hook(raw));
+            if (result.isQueued) {
+                return this.commitQueuedSave(batchId, id, raw);
+            }
+            return this.commitSave(batchId, id, this.deserialize(result.response ?? raw));
+        } catch (error) {
+            this.saveStateById.setStatus(id, RequestStatus.ERROR, error);
+            this.errorListeners.forEach((callback) => callback(error));
+            throw error;
         }
-        return this.mutableCopyBatches.get(batchId);
     }
 
     /** @inheritdoc */
-    public mutableCopyById(batchId: TBatchId, id: TId): TEntity | undefined {
-        const batch = this.batchById(batchId);
-        if (!batch.has(id)) {
-            if (this.isLoaded(id)) {
-                // If the resource is already loaded then this method will be synchronous.
-                const entity = this.byId(id);
-                batch.set(id, this.cloneEntity(entity));
+    public async saveBatch(batchId: TBatchId): Promise<BatchSaveResult<TEntity, TId>> {
+        const ids = this.dirtyIds(batchId);
+        const copies = ids.map((id) => this.mutableCopyBatches.get(batchId)!.get(id)!);
+        const raws = copies.map((copy) => this.serialize(copy));
+        ids.forEach((id) => this.saveStateById.start(id));
+        const invalid = await Promise.all(
+            copies.map((copy) =>
+                this.validateCopy(copy).then(
+                    () => undefined,
+                    (error: Error) => error,
+                ),
+            ),
+        );
+        const validIds = ids.filter((_id, index) => !invalid[index]);
+        const mutations = validIds.map((id) => ({
+            type: "save" as const,
+            id,
+            raw: raws[ids.indexOf(id)],
+            isNew: this.isNewCopy(batchId, id),
+        }));
+        const results = this.persistCopies(mutations);
+        const outcomes = await Promise.all(
+            ids.map((id, index) => {
+                const error = invalid[index];
+                const promise = error ? Promise.reject(error) : results[validIds.indexOf(id)];
+                return promise.then(
+                    (result) => ({ result }),
+                    (error: Error) => ({ error }),
+                );
+            }),
+        );
+        const isRolledBack =
+            this.batchSaveMode === BatchSaveMode.ATOMIC && outcomes.some((outcome) => "error" in outcome);
+        if (isRolledBack && mutations.some((mutation) => this.mutationQueue.indexOf(mutation) !== -1)) {
+            this.unqueueMutations(mutations);
+            await this.storeMutationQueue();
+        }
+        const rollbackError = new Error("Entity was not saved as other entities of the batch failed to save.");
+        const failed: { id: TId; error: Error }[] = [];
+        const succeeded: { id: TId; raw: TRaw; isQueued: boolean; response?: TRaw }[] = [];
+        outcomes.forEach((outcome, index) => {
+            const id = ids[index];
+            if ("error" in outcome) {
+                failed.push({ id, error: outcome.error });
+                this.errorListeners.forEach((callback) => callback(outcome.error));
+            } else if (isRolledBack) {
+                failed.push({ id, error: rollbackError });
             } else {
-                // Otherwise we need to asynchronously load the entity first.
-                setTimeout(async () => {
-                    const entity = await this.byIdAsync(id);
-                    batch.set(id, this.cloneEntity(entity));
-                });
+                succeeded.push({ id, raw: raws[index], ...outcome.result });
             }
+        });
+        failed.forEach(({ id, error }) => this.saveStateById.setStatus(id, RequestStatus.ERROR, error));
+        return { saved: this.commitBatch(batchId, succeeded), failed };
+    }
+
+    /**
+     * Checks whether a mutable copy is of an entity that doesn't exist yet, as it wasn't copied from a cached entity.
+     * The cached entity may have been evicted since the copy was created, so the cache can't tell.
+     */
+    private isNewCopy(batchId: TBatchId, id: TId): boolean {
+        return !this.copyBases.get(batchId)!.has(id);
+    }
+
+    /**
+     * Get the hook for saving an entity, which depends on whether the entity is new.
+     *
+     * @throws Will throw if the required hook is not implemented.
+     */
+    private saveHook(isNew: boolean): (raw: TRaw) => Promise<TRaw | undefined> {
+        const hook = isNew ? this.createEntity : this.persistEntity;
+        if (!hook) {
+            throw new Error(`Can't save entity as \`${isNew ? "createEntity" : "persistEntity"}\` is not implemented.`);
         }
-        return batch.get(id);
+        return hook.bind(this);
+    }
+
+    /**
+     * Send the serialized copies of multiple entities to the backend, using the bulk hook for entities that
+     * already exist if it is implemented. Every copy is queued instead if the backend is unreachable or other
+     * mutations are queued.
+     *
+     * @return A Promise for the result of every mutation, in the same order.
+     */
+    private persistCopies(
+        mutations: Extract<QueuedMutation<TId, TRaw>, { type: "save" }>[],
+    ): Promise<{ isQueued: boolean; response?: TRaw }>[] {
+        const updated = mutations.filter(({ isNew }) => !isNew);
+        let bulk: Promise<(TRaw | undefined)[]> | undefined;
+        const sendBulk = (): Promise<(TRaw | undefined)[]> => {
+            // Only sent once, by the first mutation that isn't queued.
+            bulk = bulk ?? this.persistEntities!(updated.map(({ raw }) => raw));
+            return bulk;
+        };
+        return mutations.map(async (mutation) => {
+            const { raw, isNew } = mutation;
+            if (this.persistEntities && !isNew) {
+                return await this.performMutation(mutation, async () => (await sendBulk())[updated.indexOf(mutation)]);
+            }
+            const hook = this.saveHook(isNew);
+            return await this.performMutation(mutation, () => hook(raw));
+        });
+    }
+
+    @action.bound private commitBatch(
+        batchId: TBatchId,
+        succeeded: { id: TId; raw: TRaw; isQueued: boolean; response?: TRaw }[],
+    ): TEntity[] {
+        return succeeded.map(({ id, raw, isQueued, response }) =>
+            isQueued
+                ? this.commitQueuedSave(batchId, id, raw)
+                : this.commitSave(batchId, id, this.deserialize(response ?? raw)),
+        );
     }
 
     /** @inheritdoc */
-    public async mutableCopyByIdAsync(batchId: TBatchId, id: TId): Promise<TEntity | undefined> {
-        const batch = this.batchById(batchId);
-        if (!batch.has(id)) {
-            const entity = await this.byIdAsync(id);
-            batch.set(id, this.cloneEntity(entity));
+    public async deleteById(id: TId): Promise<void> {
+        const hook = this.deleteHook();
+        this.saveStateById.start(id);
+        let result: { isQueued: boolean };
+        try {
+            result = await this.performMutation({ type: "delete", id }, () => hook(id));
+        } catch (error) {
+            this.saveStateById.setStatus(id, RequestStatus.ERROR, error);
+            this.errorListeners.forEach((callback) => callback(error));
+            throw error;
         }
-        return batch.get(id);
+        if (result.isQueued) {
+            this.commitQueuedDelete(id);
+        } else {
+            this.commitDelete(id);
+        }
+    }
+
+    /**
+     * Get the hook for deleting an entity.
+     *
+     * @throws Will throw if the hook is not implemented.
+     */
+    private deleteHook(): (id: TId) => Promise<void> {
+        if (!this.deleteEntity) {
+            throw new Error("Can't delete entity as `deleteEntity` is not implemented.");
+        }
+        return this.deleteEntity.bind(this);
     }
 
     /** @inheritdoc */
-    public setMutableCopy(batchId: TBatchId, entity: TEntity): void {
-        const batch = this.batchById(batchId);
-        batch.set(this.extractId(entity), entity);
+    public saveStatusOf(id: TId): RequestStatusInfo {
+        return this.saveStateById.getStatusInfo(id);
     }
 
     /** @inheritdoc */
-    public discardMutableCopy(batchId: TBatchId, id: TId): void {
-        const batch = this.batchById(batchId);
-        batch.delete(id);
+    public mutationQueueLength(): number {
+        return this.mutationQueue.length;
     }
 
     /** @inheritdoc */
-    @action.bound public add(entity: TEntity): void {
-        this.entities.set(this.extractId(entity), entity);
+    public mutationQueueStatus(): MutationQueueStatus {
+        if (this.isReplaying) {
+            return MutationQueueStatus.REPLAYING;
+        }
+        return this.mutationQueue.length > 0 ? MutationQueueStatus.QUEUED : MutationQueueStatus.IDLE;
     }
 
     /** @inheritdoc */
-    @action.bound public reset(): void {
-        this.stateById.reset();
-        this.listenersById.forEach((listeners) => {
-            listeners.forEach(({ reject }) => reject(new Error("Repository was reset while waiting.")));
-        });
-        this.listenersById.clear();
-        this.entities.clear();
-        this.mutableCopyBatches.clear();
+    public async replayMutations(): Promise<void> {
+        if (this.replay) {
+            return await this.replay;
+        }
+        this.replay = this.replayQueue();
+        try {
+            await this.replay;
+        } finally {
+            this.replay = undefined;
+        }
     }
 
     /** @inheritdoc */
-    @action.bound public evict(id: TId): void {
-        this.entities.delete(id);
-        this.callListenersById(id, new Error("Entity evicted while waiting."));
-        this.stateById.delete(id);
+    public async restoreMutations(): Promise<void> {
+        this.applyQueuedMutations(await this.mutationQueueStorage.load());
+    }
+
+    /**
+     * Send a mutation to the backend, unless other mutations are queued.
+     * The mutation is queued instead if other mutations are queued or if the backend is unreachable.
+     *
+     * @throws Will throw if the mutation failed with an error that doesn't indicate that the backend is unreachable.
+     *
+     * @return A Promise resolving to the response of the backend or telling that the mutation was queued.
+     */
+    private async performMutation<T>(
+        mutation: QueuedMutation<TId, TRaw>,
+        send: () => Promise<T>,
+    ): Promise<{ isQueued: boolean; response?: T }> {
+        if (this.mutationQueue.length === 0) {
+            try {
+                return { isQueued: false, response: await send() };
+            } catch (error) {
+                if (!this.isOfflineError(error)) {
+                    throw error;
+                }
+            }
+        }
+        this.queueMutation(mutation);
+        await this.storeMutationQueue();
+        return { isQueued: true };
+    }
+
+    private async sendMutation(mutation: QueuedMutation<TId, TRaw>): Promise<TRaw | undefined> {
+        if (mutation.type === "delete") {
+            await this.deleteHook()(mutation.id);
+            return undefined;
+        }
+        return await this.saveHook(mutation.isNew)(mutation.raw);
+    }
+
+    private async replayQueue(): Promise<void> {
+        this.setReplaying(true);
+        try {
+            while (this.mutationQueue.length > 0) {
+                const mutation = this.mutationQueue[0];
+                // Only sending is guarded, so that a failure while applying the response isn't taken for a conflict.
+                const result = await this.sendMutation(mutation).then(
+                    (response) => ({ response }),
+                    (error: Error) => ({ error }),
+                );
+                if (!("error" in result)) {
+                    this.confirmMutation(mutation, result.response);
+                } else if (this.isOfflineError(result.error)) {
+                    return;
+                } else {
+                    const replacement = await this.resolveMutationConflict?.(mutation, result.error);
+                    if (replacement) {
+                        this.replaceMutation(mutation, replacement);
+                    } else {
+                        this.dropMutation(mutation, result.error);
+                    }
+                }
+                await this.storeMutationQueue();
+            }
+        } finally {
+            this.setReplaying(false);
+        }
+    }
+
+    private storeMutationQueue(): Promise<void> {
+        return this.mutationQueueStorage.store(this.mutationQueue.slice());
+    }
+
+    private hasQueuedMutation(id: TId): boolean {
+        return this.mutationQueue.some((mutation) => mutation.id === id);
+    }
+
+    @action.bound private setReplaying(isReplaying: boolean): void {
+        this.isReplaying = isReplaying;
+    }
+
+    @action.bound private queueMutation(mutation: QueuedMutation<TId, TRaw>): void {
+        this.mutationQueue.push(mutation);
+    }
+
+    /**
+     * Remove mutations that were queued but must not be replayed anymore.
+     */
+    @action.bound private unqueueMutations(mutations: QueuedMutation<TId, TRaw>[]): void {
+        this.mutationQueue = this.mutationQueue.filter((mutation) => mutations.indexOf(mutation) === -1);
+    }
+
+    @action.bound private replaceMutation(
+        mutation: QueuedMutation<TId, TRaw>,
+        replacement: QueuedMutation<TId, TRaw>,
+    ): void {
+        this.mutationQueue.splice(this.mutationQueue.indexOf(mutation), 1, replacement);
+    }
+
+    /**
+     * Remove a mutation from the queue after it was replayed successfully.
+     * The response is only applied if no later mutations of the same entity are queued.
+     */
+    @action.bound private confirmMutation(mutation: QueuedMutation<TId, TRaw>, response: TRaw | undefined): void {
+        const { id } = mutation;
+        this.unqueueMutations([mutation]);
+        if (this.hasQueuedMutation(id)) {
+            return;
+        }
+        if (response !== undefined) {
+            this.addEntity(this.deserialize(response));
+        }
+        this.saveStateById.settle(id, RequestStatus.DONE);
+    }
+
+    /**
+     * Remove a mutation from the queue after replaying it failed.
+     * The entity is evicted to discard the optimistic changes, unless later mutations of it are queued, in which
+     * case saving it is still in progress.
+     */
+    @action.bound private dropMutation(mutation: QueuedMutation<TId, TRaw>, error: Error): void {
+        const { id } = mutation;
+        this.unqueueMutations([mutation]);
+        if (!this.saveStateById.isStatus(id, RequestStatus.IN_PROGRESS)) {
+            // Saving the entity again may have failed in the meantime, for example as its copy was invalid.
+            this.saveStateById.start(id);
+        }
+        this.saveStateById.setStatus(id, RequestStatus.ERROR, error);
+        this.errorListeners.forEach((callback) => callback(error));
+        if (this.hasQueuedMutation(id)) {
+            this.saveStateById.start(id);
+        } else {
+            this.evict(id);
+        }
+    }
+
+    @action.bound private applyQueuedMutations(mutations: QueuedMutation<TId, TRaw>[]): void {
+        this.mutationQueue = mutations;
+        mutations.forEach((mutation) => {
+            if (mutation.type === "delete") {
+                this.commitDelete(mutation.id);
+            } else {
+                this.addEntity(this.deserialize(mutation.raw));
+                this.markLoaded(mutation.id);
+            }
+            this.saveStateById.start(mutation.id);
+        });
     }
 
     /** @inheritdoc */
-    public async reloadId(id: TId): Promise<TEntity> {
-        await this.loadById(id, { force: true });
-        return await this.byIdAsync(id);
+    public async updateOptimistic(
+        id: TId,
+        mutator: (entity: TEntity) => void,
+        persist?: (raw: TRaw) => Promise<TRaw | undefined>,
+    ): Promise<TEntity> {
+        const send = persist ?? this.persistEntity?.bind(this);
+        if (!send) {
+            throw new Error("Can't update entity as `persistEntity` is not implemented.");
+        }
+        if (!this.isLoaded(id)) {
+            throw new Error("Can't update an entity that isn't cached.");
+        }
+        const update = this.applyOptimistic(id, mutator);
+        const raw = this.serialize(this.entities.get(id)!);
+        let result: { isQueued: boolean; response?: TRaw };
+        try {
+            result = await this.performMutation({ type: "save", id, raw, isNew: false }, () => send(raw));
+        } catch (error) {
+            this.rollbackOptimistic(id, update);
+            const rollbackError = new RollbackError(id, error);
+            this.errorListeners.forEach((callback) => callback(rollbackError));
+            throw rollbackError;
+        }
+        if (result.isQueued) {
+            this.confirmQueuedOptimistic(id, update);
+        } else {
+            this.confirmOptimistic(id, update, result.response);
+        }
+        return this.entities.get(id)!;
+    }
+
+    @action.bound private applyOptimistic(id: TId, mutator: (entity: TEntity) => void): OptimisticUpdate<TEntity> {
+        const entity = this.entities.get(id)!;
+        if (!this.optimisticUpdates.has(id)) {
+            this.optimisticUpdates.set(id, { base: this.cloneEntity(entity), pending: [] });
+        }
+        const update = { mutator };
+        this.optimisticUpdates.get(id)!.pending.push(update);
+        mutator(entity);
+        return update;
+    }
+
+    @action.bound private confirmOptimistic(id: TId, update: OptimisticUpdate<TEntity>, response?: TRaw): void {
+        const updates = this.optimisticUpdates.get(id);
+        if (!updates) {
+            // The entity was evicted or the repository was reset in the meantime.
+            return;
+        }
+        updates.pending.splice(updates.pending.indexOf(update), 1);
+        if (response === undefined) {
+            update.mutator(updates.base);
+        } else {
+            updates.base = this.deserialize(response);
+        }
+        if (updates.pending.length === 0) {
+            this.optimisticUpdates.delete(id);
+        }
+        if (response !== undefined) {
+            this.addEntity(this.layerOptimistic(updates));
+        }
+    }
+
+    @action.bound private confirmQueuedOptimistic(id: TId, update: OptimisticUpdate<TEntity>): void {
+        this.confirmOptimistic(id, update);
+        this.saveStateById.start(id);
+    }
+
+    @action.bound private rollbackOptimistic(id: TId, update: OptimisticUpdate<TEntity>): void {
+        const updates = this.optimisticUpdates.get(id);
+        if (!updates) {
+            return;
+        }
+        updates.pending.splice(updates.pending.indexOf(update), 1);
+        if (updates.pending.length === 0) {
+            this.optimisticUpdates.delete(id);
+        }
+        this.addEntity(this.layerOptimistic(updates));
+    }
+
+    /**
+     * Apply all pending optimistic updates on top of a copy of the last confirmed state of an entity.
+     */
+    private layerOptimistic({ base, pending }: OptimisticUpdates<TEntity>): TEntity {
+        const entity = this.cloneEntity(base);
+        pending.forEach(({ mutator }) => mutator(entity));
+        return entity;
+    }
+
+    @action.bound private commitSave(batchId: TBatchId, id: TId, entity: TEntity): TEntity {
+        const savedId = this.extractId(entity);
+        this.addEntity(entity);
+        this.markLoaded(savedId);
+        this.saveStateById.settle(id, RequestStatus.DONE);
+        const saved = this.entities.get(savedId)!;
+        this.batchById(batchId).delete(id);
+        this.setCopyBase(batchId, id, undefined);
+        this.addMutableCopy(batchId, savedId, saved);
+        return saved;
+    }
+
+    /**
+     * Mark an entity as loaded after it was saved or restored from the mutation queue.
+     * A request still loading the entity is superseded, as its response may be older than the saved entity.
+     */
+    @action.bound private markLoaded(id: TId): void {
+        this.requestsById.abort(id);
+        this.stateById.settle(id, RequestStatus.DONE);
+        this.callListenersById(id);
+    }
+
+    @action.bound private commitQueuedSave(batchId: TBatchId, id: TId, raw: TRaw): TEntity {
+        const saved = this.commitSave(batchId, id, this.deserialize(raw));
+        this.saveStateById.start(id);
+        return saved;
+    }
+
+    @action.bound private commitQueuedDelete(id: TId): void {
+        this.commitDelete(id);
+        this.saveStateById.start(id);
+    }
+
+    @action.bound private commitDelete(id: TId): void {
+        this.mutableCopyBatches.forEach((batch) => batch.delete(id));
+        this.copyBases.forEach((bases) => bases.delete(id));
+        this.batchIds().forEach((batchId) => this.disposeIfEmpty(batchId));
+        this.evict(id);
+        this.stateById.settle(id, RequestStatus.NOT_FOUND);
+        this.saveStateById.settle(id, RequestStatus.DONE);
+    }
+
+    /**
+     * Add an entity that was loaded from the backend. Pending optimistic updates of it are layered upon the
+     * loaded entity, which they are rolled back to if persisting them fails.
+     */
+    @action.bound private addLoadedEntity(id: TId, entity: TEntity): void {
+        const updates = this.optimisticUpdates.get(id);
+        if (updates) {
+            updates.base = entity;
+            this.addEntity(this.layerOptimistic(updates));
+            return;
+        }
+        this.addEntity(entity);
     }
 
-    private callListenersById(id: TId, error?: Error): void {
+    private async fetchEntity(id: TId, signal: AbortSignal): Promise<TEntity | undefined> {
+        if (this.fetchByIds) {
+            return await this.fetchBatched(id, signal);
+        }
+        const raw = await this.fetchById(id, signal);
+        return raw === undefined ? undefined : this.deserialize(raw);
+    }
+
+    private fetchBatched(id: TId, signal: AbortSignal): Promise<TEntity | undefined> {
+        return new Promise((resolve, reject) => {
+            if (this.pendingBatch.size === 0) {
+                setTimeout(() => this.flushBatch());
+            }
+            // An id may be requested again before the batch was flushed, for example when reloading it.
+            this.pendingBatch.set(id, [...(this.pendingBatch.get(id) ?? []), { resolve, reject, signal }]);
+            if (this.pendingBatch.size >= this.maxBatchSize) {
+                this.flushBatch();
+            }
+        });
+    }
+
+    private async flushBatch(): Promise<void> {
+        const batch = new Map<TId, (PromiseCallbacks<TEntity | undefined> & { signal: AbortSignal })[]>();
+        this.pendingBatch.forEach((callbacks, id) => {
+            // Waiters aborted before flushing, for example as the entity was evicted, don't need the entity anymore.
+            callbacks.filter(({ signal }) => signal.aborted).forEach(({ reject, signal }) => reject(signal.reason));
+            const waiting = callbacks.filter(({ signal }) => !signal.aborted);
+            if (waiting.length > 0) {
+                batch.set(id, waiting);
+            }
+        });
+        this.pendingBatch = new Map();
+        if (batch.size === 0) {
+            return;
+        }
+        const controller = new AbortController();
+        const waiters = [...batch.values()].reduce((result, callbacks) => [...result, ...callbacks], []);
+        const signals = waiters.map(({ signal }) => signal);
+        signals.forEach((signal) =>
+            signal.addEventListener("abort", () => {
+                if (signals.every(({ aborted }) => aborted)) {
+                    controller.abort(new AbortedError());
+                }
+            }),
+        );
+        try {
+            const raws = await this.fetchByIds!([...batch.keys()], controller.signal);
+            const entities = raws.map((raw) => this.deserialize(raw));
+            const entitiesById = new Map(entities.map((entity) => [this.extractId(entity), entity]));
+            batch.forEach((callbacks, id) => callbacks.forEach(({ resolve }) => resolve(entitiesById.get(id))));
+        } catch (error) {
+            waiters.forEach(({ reject }) => reject(error));
+        }
+    }
+
+    /**
+     * Checks whether an entity must not be evicted to keep the cache within [[IndexableRepository.maxEntries]].
+     * Entities are protected if a mutable copy of them exists, if an optimistic update or a queued mutation of
+     * them is pending or if a call to [[IndexableRepository.waitForId]] is pending for them.
+     * Can be overridden to protect additional entities.
+     *
+     * @param id The id of the entity to check.
+     *
+     * @return `true` if the entity must not be evicted and `false` otherwise.
+     */
+    protected isEvictionProtected(id: TId): boolean {
+        return (
+            this.listenersById.has(id) ||
+            this.optimisticUpdates.has(id) ||
+            this.hasQueuedMutation(id) ||
+            [...this.mutableCopyBatches.values()].some((batch) => batch.has(id))
+        );
+    }
+
+    /**
+     * Checks whether an entity is still observed other than via [[IndexableRepository.byId]], for example as part
+     * of the result of an observed query. Such entities aren't evicted once they are no longer observed via
+     * [[IndexableRepository.byId]].
+     *
+     * @param id The id of the entity to check.
+     *
+     * @return `true` if the entity is observed elsewhere and `false` otherwise.
+     */
+    protected isObservedElsewhere(_id: TId): boolean {
+        return false;
+    }
+
+    private collectUnobserved(id: TId): void {
+        if (
+            !this.isEvictionProtected(id) &&
+            !this.isObservedElsewhere(id) &&
+            !this.stateById.isStatus(id, RequestStatus.IN_PROGRESS)
+        ) {
+            this.evict(id);
+        }
+    }
+
+    private accessEntity(id: TId): TEntity | undefined {
+        if (this.entities.has(id)) {
+            this.evictionPolicy.accessed(id);
+        }
+        return this.entities.get(id);
+    }
+
+    private enforceMaxEntries(addedIds: TId[]): void {
+        if (this.maxEntries === undefined || this.entities.size <= this.maxEntries) {
+            return;
+        }
+        for (const id of this.evictionPolicy.candidates()) {
+            if (this.entities.size <= this.maxEntries) {
+                return;
+            }
+            if (addedIds.indexOf(id) === -1 && !this.isEvictionProtected(id)) {
+                this.evict(id);
+            }
+        }
+    }
+
+    @action.bound private markStale(id: TId): void {
+        if (this.entities.has(id)) {
+            this.staleIds.add(id);
+        }
+    }
+
+    private clearStale(id: TId): void {
+        clearTimeout(this.staleTimers.get(id));
+        this.staleTimers.delete(id);
+        this.staleIds.delete(id);
+    }
+
+    private callListenersById(id: TId, error?: RequestError<TError>): void {
         if (!this.listenersById.has(id)) {
             return;
         }
@@ -558,32 +2697,64 @@ export abstract class IndexableRepository<TEntity, TId = string, TBatchId = stri
     }
 
     @bind private async loadById(id: TId, { force = false }: LoadOptions = {}): Promise<void> {
-        if (!force && (this.isLoaded(id) || this.stateById.isStatus(id, RequestStatus.DONE))) {
+        const isCached = this.isLoaded(id) || this.stateById.isStatus(id, RequestStatus.DONE);
+        if (!force && isCached && !this.isStale(id)) {
             return;
         }
-        if (this.stateById.isStatus(id, RequestStatus.IN_PROGRESS, RequestStatus.ERROR)) {
+        if (!force && this.stateById.isStatus(id, RequestStatus.IN_PROGRESS)) {
             await this.waitForId(id);
             return;
         }
-        this.stateById.setStatus(id, RequestStatus.IN_PROGRESS);
+        if (!force && this.stateById.isStatus(id, RequestStatus.ERROR)) {
+            return;
+        }
+        // Starting a new request aborts the currently running one, if the load was forced.
+        const signal = this.requestsById.start(id, this.requestTimeout);
+        this.stateById.start(id);
         try {
-            const result = await this.fetchById(id);
+            const result = await this.retryPolicy.run(
+                () => this.fetchEntity(id, signal),
+                signal,
+                () => this.stateById.countAttempt(id),
+            );
+            if (signal.aborted) {
+                this.dropResponse(id, signal);
+            }
             if (result === undefined) {
+                // Resolve waiting calls before evicting, as evicting would reject them.
+                this.callListenersById(id);
+                if (this.entities.has(id)) {
+                    // The entity was deleted since it was cached. Keeping it would revalidate it on every access.
+                    this.evict(id);
+                }
                 this.stateById.setStatus(id, RequestStatus.NOT_FOUND);
                 return;
             }
             if (this.extractId(result) !== id) {
-                const error = new Error("Fetched entity has different id than requested.");
-                this.errorListeners.forEach((callback) => callback(error));
-                throw error;
+                throw new IdMismatchError(id, this.extractId(result));
             }
             this.stateById.setStatus(id, RequestStatus.DONE);
-            this.add(result);
+            if (!this.hasQueuedMutation(id)) {
+                // Entities with queued mutations keep their optimistic state until the mutations were replayed.
+                this.addLoadedEntity(id, result);
+            }
             this.callListenersById(id);
         } catch (error) {
-            this.stateById.setStatus(id, RequestStatus.ERROR, error);
-            this.errorListeners.forEach((callback) => callback(error));
-            this.callListenersById(id, error);
+            if (!this.requestsById.isCurrent(id, signal)) {
+                // The request was aborted as the entity was evicted, reloaded or the repository was reset.
+                return;
+            }
+            if (signal.aborted) {
+                this.stateById.setStatus(id, RequestStatus.ABORTED);
+                this.callListenersById(id, signal.reason);
+                return;
+            }
+            const failure = error instanceof IdMismatchError ? error : new FetchError<TError>(error);
+            this.stateById.setStatus(id, RequestStatus.ERROR, failure);
+            this.errorListeners.forEach((callback) => callback(failure));
+            this.callListenersById(id, failure);
+        } finally {
+            this.requestsById.finish(id, signal);
         }
     }
 }
@@ -0,0 +1,201 @@
+import deepEqual from "deep-equal";
+import clone from "clone";
+
+import { isPlainObject } from "./utils";
+
+/**
+ * A single operation of a JSON Patch as specified in RFC 6902.
+ * Paths are JSON Pointers as specified in RFC 6901.
+ */
+export type JsonPatchOperation =
+    | { op: "add"; path: string; value: unknown }
+    | { op: "remove"; path: string }
+    | { op: "replace"; path: string; value: unknown }
+    | { op: "move"; from: string; path: string }
+    | { op: "copy"; from: string; path: string }
+    | { op: "test"; path: string; value: unknown };
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Tokens that would modify the prototype of an object instead of one of its properties.
+ */
+const forbiddenTokens = ["__proto__", "constructor", "prototype"];
+
+function escapeToken(token: string): string {
+    return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Split a JSON Pointer into its unescaped tokens. Pointers to the whole document are handled by the callers.
+ */
+function parsePointer(pointer: string): string[] {
+    if (pointer[0] !== "/") {
+        throw new Error(`Invalid JSON Pointer "${pointer}".`);
+    }
+    const tokens = pointer
+        .slice(1)
+        .split("/")
+        .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+    if (tokens.some((token) => forbiddenTokens.indexOf(token) !== -1)) {
+        throw new Error(`Invalid JSON Pointer "${pointer}".`);
+    }
+    return tokens;
+}
+
+function hasKey(container: Container, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(container, key);
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+    if (allowEnd && token === "-") {
+        return array.length;
+    }
+    const index = /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : NaN;
+    if (!(index < array.length || (allowEnd && index === array.length))) {
+        throw new Error(`Invalid array index "${token}".`);
+    }
+    return index;
+}
+
+/**
+ * Resolve the container holding the value a pointer refers to.
+ * The pointer must not refer to the whole document.
+ */
+function locate(document: unknown, pointer: string): { container: Container; key: string } {
+    const tokens = parsePointer(pointer);
+    const key = tokens.pop()!;
+    const container = tokens.reduce<unknown>((current, token) => {
+        if (typeof current !== "object" || current === null || !hasKey(current as Container, token)) {
+            throw new Error(`Path "${pointer}" does not exist.`);
+        }
+        return (current as Record<string, unknown>)[token];
+    }, document);
+    if (typeof container !== "object" || container === null) {
+        throw new Error(`Path "${pointer}" does not exist.`);
+    }
+    return { container: container as Container, key };
+}
+
+function getValue(document: unknown, pointer: string): unknown {
+    if (pointer === "") {
+        return document;
+    }
+    const { container, key } = locate(document, pointer);
+    if (Array.isArray(container)) {
+        return container[arrayIndex(container, key, false)];
+    }
+    if (!hasKey(container, key)) {
+        throw new Error(`Path "${pointer}" does not exist.`);
+    }
+    return container[key];
+}
+
+function addValue<T>(document: T, pointer: string, value: unknown): T {
+    if (pointer === "") {
+        return value as T;
+    }
+    const { container, key } = locate(document, pointer);
+    if (Array.isArray(container)) {
+        container.splice(arrayIndex(container, key, true), 0, value);
+    } else {
+        container[key] = value;
+    }
+    return document;
+}
+
+function removeValue(document: unknown, pointer: string): void {
+    if (pointer === "") {
+        throw new Error("Can't remove the whole document.");
+    }
+    const { container, key } = locate(document, pointer);
+    if (Array.isArray(container)) {
+        container.splice(arrayIndex(container, key, false), 1);
+        return;
+    }
+    if (!hasKey(container, key)) {
+        throw new Error(`Path "${pointer}" does not exist.`);
+    }
+    delete container[key];
+}
+
+function diffProperties(
+    from: Record<string, unknown>,
+    to: Record<string, unknown>,
+    path: string,
+    patch: JsonPatchOperation[],
+): void {
+    Object.keys(from)
+        .filter((key) => !hasKey(to, key))
+        .forEach((key) => patch.push({ op: "remove", path: `${path}/${escapeToken(key)}` }));
+    Object.keys(to).forEach((key) => {
+        const childPath = `${path}/${escapeToken(key)}`;
+        if (!hasKey(from, key)) {
+            patch.push({ op: "add", path: childPath, value: to[key] });
+        } else if (isPlainObject(from[key]) && isPlainObject(to[key])) {
+            diffProperties(from[key] as Record<string, unknown>, to[key] as Record<string, unknown>, childPath, patch);
+        } else if (!deepEqual(from[key], to[key], { strict: true })) {
+            patch.push({ op: "replace", path: childPath, value: to[key] });
+        }
+    });
+}
+
+/**
+ * Compute the JSON Patch transforming `from` into `to`.
+ * The top-level properties of both documents are always compared, so they may be class instances.
+ * Nested plain objects are compared recursively. Arrays and all other values are replaced as a whole.
+ *
+ * @param from The original document.
+ * @param to The modified document.
+ *
+ * @return The operations which turn `from` into `to` when applied with [[applyPatch]].
+ */
+export function createPatch<T>(from: T, to: T): JsonPatchOperation[] {
+    const patch: JsonPatchOperation[] = [];
+    diffProperties(from as unknown as Record<string, unknown>, to as unknown as Record<string, unknown>, "", patch);
+    return patch;
+}
+
+/**
+ * Apply a JSON Patch to a document, modifying the document in place.
+ * The operations are applied in order. If an operation fails, all previous operations stay applied.
+ *
+ * @throws Will throw if a path does not exist or refers to a prototype, if an array index is invalid or if a
+ *     `test` operation failed.
+ *
+ * @param document The document to modify.
+ * @param patch The operations to apply.
+ *
+ * @return The patched document. Only differs from `document` if the patch replaced the whole document.
+ */
+export function applyPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+    return patch.reduce((current, operation) => {
+        switch (operation.op) {
+            case "add":
+                return addValue(current, operation.path, operation.value);
+            case "remove":
+                removeValue(current, operation.path);
+                return current;
+            case "replace":
+                getValue(current, operation.path);
+                if (operation.path !== "") {
+                    removeValue(current, operation.path);
+                }
+                return addValue(current, operation.path, operation.value);
+            case "move": {
+                const value = getValue(current, operation.from);
+                removeValue(current, operation.from);
+                return addValue(current, operation.path, value);
+            }
+            case "copy":
+                return addValue(current, operation.path, clone(getValue(current, operation.from)));
+            case "test":
+                if (!deepEqual(getValue(current, operation.path), operation.value, { strict: true })) {
+                    throw new Error(`Test operation failed for path "${operation.path}".`);
+                }
+                return current;
+            default:
+                throw new Error(`Unknown JSON Patch operation "${(operation as { op: string }).op}".`);
+        }
+    }, document);
+}
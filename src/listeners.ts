@@ -1,19 +1,48 @@
 /**
  * A set of `resolve` and `reject` callbacks.
  */
-export interface PromiseCallbacks {
+export interface PromiseCallbacks<T = void, TError = Error> {
     /**
      * A Promise's resolve callback.
      */
-    resolve: () => void;
+    resolve: (value: T) => void;
 
     /**
      * A Promise's reject callback.
      */
-    reject: (error: Error) => void;
+    reject: (error: TError) => void;
 }
 
 /**
  * A listener that can be invoked with an error.
  */
-export type ErrorListener = (error: Error) => void;
+export type ErrorListener<TError = Error> = (error: TError) => void;
+
+/**
+ * Reported whenever a response arrived for a request that was aborted in the meantime, for example because
+ * the entity was evicted, the query was reloaded or the repository was reset.
+ * The response is dropped and does not change the repository's state.
+ */
+export interface DroppedResponseEvent {
+    type: "dropped-response";
+
+    /**
+     * The id of the entity or the query that the response belonged to.
+     */
+    key: unknown;
+
+    /**
+     * The reason the request was aborted with.
+     */
+    reason: Error;
+}
+
+/**
+ * All events that can be reported to a [[DebugListener]].
+ */
+export type DebugEvent = DroppedResponseEvent;
+
+/**
+ * A listener that is invoked with events useful for debugging a repository.
+ */
+export type DebugListener = (event: DebugEvent) => void;
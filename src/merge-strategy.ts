@@ -0,0 +1,62 @@
+import { isPlainObject } from "./utils";
+
+/**
+ * Determines how an entity that is added to a repository is combined with the entity already cached under
+ * the same id.
+ */
+export const enum MergeStrategy {
+    /**
+     * The cached entity is replaced by the added one.
+     */
+    REPLACE = "replace",
+
+    /**
+     * All top-level properties of the added entity are assigned to the cached entity.
+     * Properties missing in the added entity are kept.
+     */
+    SHALLOW_MERGE = "shallow merge",
+
+    /**
+     * Like [[MergeStrategy.SHALLOW_MERGE]], but nested plain objects are merged recursively.
+     * Arrays and all other values are replaced.
+     */
+    DEEP_MERGE = "deep merge",
+}
+
+/**
+ * Assign all top-level properties of `incoming` to `existing`, modifying `existing` in place.
+ *
+ * @param existing The entity to update.
+ * @param incoming The entity to take the properties from.
+ *
+ * @return The updated `existing` entity.
+ */
+export function shallowMerge<TEntity>(existing: TEntity, incoming: TEntity): TEntity {
+    Object.keys(incoming).forEach((key) => {
+        (existing as Record<string, unknown>)[key] = (incoming as Record<string, unknown>)[key];
+    });
+    return existing;
+}
+
+/**
+ * Recursively assign all properties of `incoming` to `existing`, modifying `existing` and all of its
+ * nested plain objects in place.
+ * Arrays and all values that aren't plain objects are replaced.
+ *
+ * @param existing The entity to update.
+ * @param incoming The entity to take the properties from.
+ *
+ * @return The updated `existing` entity.
+ */
+export function deepMerge<TEntity>(existing: TEntity, incoming: TEntity): TEntity {
+    const target = existing as Record<string, unknown>;
+    Object.keys(incoming).forEach((key) => {
+        const value = (incoming as Record<string, unknown>)[key];
+        if (isPlainObject(target[key]) && isPlainObject(value)) {
+            deepMerge(target[key], value);
+            return;
+        }
+        target[key] = value;
+    });
+    return existing;
+}
@@ -0,0 +1,88 @@
+/**
+ * A mutation that was issued while the backend was unreachable and waits to be replayed.
+ * Only contains serializable data, so it can be stored durably.
+ */
+export type QueuedMutation<TId, TRaw> =
+    | {
+          type: "save";
+
+          /**
+           * The id of the saved entity.
+           */
+          id: TId;
+
+          /**
+           * The serialized entity to send to the backend.
+           */
+          raw: TRaw;
+
+          /**
+           * Whether the entity is created rather than updated.
+           */
+          isNew: boolean;
+      }
+    | {
+          type: "delete";
+
+          /**
+           * The id of the deleted entity.
+           */
+          id: TId;
+      };
+
+/**
+ * The state of the queue of mutations waiting to be replayed.
+ */
+export const enum MutationQueueStatus {
+    /**
+     * No mutations are queued.
+     */
+    IDLE = "idle",
+
+    /**
+     * Mutations are queued and wait for the backend to become reachable again.
+     */
+    QUEUED = "queued",
+
+    /**
+     * The queued mutations are currently being replayed.
+     */
+    REPLAYING = "replaying",
+}
+
+/**
+ * Stores the queued mutations of a repository, for example in `localStorage` or IndexedDB, so they survive
+ * reloading the application.
+ */
+export interface MutationQueueStorage<TMutation> {
+    /**
+     * Load the stored mutations.
+     *
+     * @return A Promise resolving to all stored mutations in the order they were issued.
+     */
+    load(): Promise<TMutation[]>;
+
+    /**
+     * Replace the stored mutations. Invoked whenever the queue changed.
+     *
+     * @param mutations All queued mutations in the order they were issued.
+     */
+    store(mutations: TMutation[]): Promise<void>;
+}
+
+/**
+ * Keeps the queued mutations in memory. They are lost when the application is reloaded.
+ */
+export class InMemoryMutationQueueStorage<TMutation> implements MutationQueueStorage<TMutation> {
+    protected mutations: TMutation[] = [];
+
+    /** @inheritdoc */
+    public async load(): Promise<TMutation[]> {
+        return this.mutations.slice();
+    }
+
+    /** @inheritdoc */
+    public async store(mutations: TMutation[]): Promise<void> {
+        this.mutations = mutations.slice();
+    }
+}
@@ -0,0 +1,89 @@
+import { createAtom, IAtom } from "mobx";
+
+import { KeyFunction, canonicalKey } from "./canonical-key";
+
+/**
+ * Tracks whether any MobX reaction currently depends on a specific key, such as the id of an entity
+ * or a query, and invokes a callback once a key was no longer observed for a grace period.
+ */
+export class ObservationTracker<TKey> {
+    private atoms = new Map<string, IAtom>();
+    private observedKeys = new Set<string>();
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    /**
+     * @param gracePeriod Returns the time in milliseconds a key needs to be unobserved before `onUnobserved`
+     *     is invoked, or `undefined` if no observation should be tracked.
+     * @param onUnobserved Invoked with every key that was no longer observed for the grace period.
+     * @param hashOf Computes the string keys are tracked by. Keys with the same hash are the same key.
+     *     Defaults to [[canonicalKey]].
+     */
+    constructor(
+        private gracePeriod: () => number | undefined,
+        private onUnobserved: (key: TKey) => void,
+        private hashOf: KeyFunction<TKey> = canonicalKey,
+    ) {}
+
+    /**
+     * Report that the specified key was accessed.
+     * If this happens within a reaction, the key is considered observed until no reaction depends on it anymore.
+     *
+     * @param key The key that was accessed.
+     */
+    public reportObserved(key: TKey): void {
+        if (this.gracePeriod() === undefined) {
+            return;
+        }
+        const hash = this.hashOf(key);
+        if (!this.atoms.has(hash)) {
+            this.atoms.set(
+                hash,
+                createAtom(
+                    `ObservationTracker@${hash}`,
+                    () => this.observed(hash),
+                    () => this.unobserved(hash, key),
+                ),
+            );
+        }
+        if (!this.atoms.get(hash)!.reportObserved() && !this.observedKeys.has(hash)) {
+            this.atoms.delete(hash);
+        }
+    }
+
+    /**
+     * Check whether any reaction currently depends on the specified key.
+     *
+     * @param key The key to check.
+     *
+     * @return `true` if the key is currently observed and `false` otherwise.
+     */
+    public isObserved(key: TKey): boolean {
+        return this.observedKeys.has(this.hashOf(key));
+    }
+
+    /**
+     * Cancel all pending callbacks.
+     */
+    public reset(): void {
+        this.timers.forEach((timer) => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    private observed(hash: string): void {
+        this.observedKeys.add(hash);
+        clearTimeout(this.timers.get(hash));
+        this.timers.delete(hash);
+    }
+
+    private unobserved(hash: string, key: TKey): void {
+        this.observedKeys.delete(hash);
+        this.timers.set(
+            hash,
+            setTimeout(() => {
+                this.timers.delete(hash);
+                this.atoms.delete(hash);
+                this.onUnobserved(key);
+            }, this.gracePeriod()),
+        );
+    }
+}
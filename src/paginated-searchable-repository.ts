@@ -1,7 +1,6 @@
 import { makeObservable, override, transaction } from "mobx";
-import deepEqual from "deep-equal";
 
-import { RequestStates, RequestStatus } from "./request-states";
+import { RequestStates, RequestStatus, RequestStatusInfo, FailedRequest } from "./request-states";
 import { FetchByQueryResult, Searchable } from "./searchable-repository";
 import { IndexableRepository } from "./indexable-repository";
 import { Pagination } from "./pagination";
@@ -9,6 +8,10 @@ import { PromiseCallbacks } from "./listeners";
 import { Segment } from "./segment";
 import { SegmentWithIds } from "./segment-with-ids";
 import { PaginationRange } from "./pagination-range";
+import { ObservationTracker } from "./observation-tracker";
+import { canonicalKey } from "./canonical-key";
+import { FetchError, RequestError, ResetError, EvictedError } from "./errors";
+import { RequestControllers } from "./request-controllers";
 
 /**
  * The request state associated with a request from [[PaginatedSearchableRepository]].
@@ -26,8 +29,10 @@ export class StatePaginatedSearchable<TId = string> {
 
 /**
  * An object that can be queried with pagination enabled.
+ * `TError` is the type of errors thrown when fetching queries, which are wrapped in a [[FetchError]].
  */
-export interface PaginatedSearchable<TQuery, TEntity> extends Searchable<TQuery, TEntity> {
+export interface PaginatedSearchable<TQuery, TEntity, TError extends Error = Error>
+    extends Searchable<TQuery, TEntity, TError> {
     /**
      * Search for entities within the repository.
      * The result will be cached based on the query and pagination.
@@ -108,6 +113,43 @@ export interface PaginatedSearchable<TQuery, TEntity> extends Searchable<TQuery,
      */
     reloadQuery(query: TQuery, pagination?: Pagination): Promise<TEntity[]>;
 
+    /**
+     * Load a query again that previously failed to load.
+     * Loading a query that failed is not attempted again automatically, until this method is invoked.
+     * Segments that were loaded successfully before are kept, only the missing segments within the
+     * pagination are loaded.
+     *
+     * @param query The query to retry loading.
+     * @param pagination An optional pagination such as `{ offset: 0, count: 100 }`.
+     *
+     * @return A Promise resolving to an array of all entities that matched the query and are within the given
+     *     pagination range.
+     */
+    retryQuery(query: TQuery, pagination?: Pagination): Promise<TEntity[]>;
+
+    /**
+     * Get the status of loading a query.
+     * As this method is observable, observers can use it to tell whether a query is still loading or failed
+     * to load while [[PaginatedSearchable.byQuery]] returns an empty array.
+     *
+     * @param query The query.
+     * @param pagination An optional pagination such as `{ offset: 0, count: 100 }`. If specified, a query that
+     *     is done is only reported as done if it was loaded within this range.
+     *
+     * @return The status of the query, with the error if it failed to load.
+     */
+    queryStatus(query: TQuery, pagination?: Pagination): RequestStatusInfo<RequestError<TError>>;
+
+    /**
+     * Get the error that occurred when loading a query.
+     * This method is observable, see [[PaginatedSearchable.queryStatus]].
+     *
+     * @param query The query.
+     *
+     * @return The error if the query failed to load and `undefined` otherwise.
+     */
+    queryError(query: TQuery): RequestError<TError> | undefined;
+
     /**
      * Load a query within the specified pagination range asynchronously.
      * Has the same call signature as [[PaginatedSearchable.byQuery]], but returns a Promise.
@@ -164,8 +206,9 @@ export interface PaginatedSearchable<TQuery, TEntity> extends Searchable<TQuery,
      * // The Promise should now have resolved, as the query is fully loaded.
      * ```
      *
-     * @throws Will throw if loading any part of the query failed, or if an entity contained within this query was
-     *     evicted after being loaded but before this Promise resolved.
+     * @throws Will throw a [[FetchError]] if loading any part of the query failed, an [[EvictedError]] if an entity
+     *     contained within this query was evicted after being loaded but before this Promise resolved, a
+     *     [[ResetError]] if the repository was reset while waiting or an [[AbortedError]] if the request timed out.
      *
      * @param query The query to wait for.
      * @param pagination An optional pagination such as `{ offset: 0, count: 100 }`.
@@ -186,7 +229,7 @@ export interface PaginatedSearchable<TQuery, TEntity> extends Searchable<TQuery,
 /**
  * A wrapper around [[PromiseCallbacks]], specifying for what the listener is waiting exactly.
  */
-interface ListenerSpecification<TQuery> {
+interface ListenerSpecification<TQuery, TError extends Error> {
     /**
      * The query the listener is waiting for.
      */
@@ -200,7 +243,7 @@ interface ListenerSpecification<TQuery> {
     /**
      * The listener's callbacks.
      */
-    listener: PromiseCallbacks;
+    listener: PromiseCallbacks<void, RequestError<TError>>;
 }
 
 /**
@@ -249,9 +292,17 @@ interface ListenerSpecification<TQuery> {
  * }
  * ```
  */
-export abstract class PaginatedSearchableRepository<TQuery, TEntity, TId = string, TBatchId = string>
-    extends IndexableRepository<TEntity, TId, TBatchId>
-    implements PaginatedSearchable<TQuery, TEntity> {
+export abstract class PaginatedSearchableRepository<
+        TQuery,
+        TEntity,
+        TId = string,
+        TBatchId = string,
+        TRaw = TEntity,
+        TError extends Error = Error,
+    >
+    extends IndexableRepository<TEntity, TId, TBatchId, TRaw, TError>
+    implements PaginatedSearchable<TQuery, TEntity, TError>
+{
     constructor(cloneEntity?: (entity: TEntity) => TEntity) {
         super(cloneEntity);
         makeObservable(this);
@@ -261,32 +312,74 @@ export abstract class PaginatedSearchableRepository<TQuery, TEntity, TId = strin
      * The state of all requests performed to load entities by query.
      * This includes the request's states as well as the currently loaded range of pagination.
      */
-    protected stateByQuery = new RequestStates<TQuery, StatePaginatedSearchable<TId>>(
+    protected stateByQuery = new RequestStates<TQuery, StatePaginatedSearchable<TId>, RequestError<TError>>(
         () => new StatePaginatedSearchable(),
+        (query) => this.keyOf(query),
     );
 
     /**
      * All listeners attached to this repository in [[PaginatedSearchableRepository.waitForQuery]].
      */
-    protected listenersByQuery = new Set<ListenerSpecification<TQuery>>();
+    protected listenersByQuery = new Set<ListenerSpecification<TQuery, TError>>();
+
+    /**
+     * The controllers for aborting all running requests to load entities by query.
+     */
+    protected requestsByQuery = new RequestControllers<TQuery>((query) => this.keyOf(query));
+
     /**
      * This value is used if a provided pagination is under specified.
      * Can be overridden to change the default page size.
      */
     protected defaultCount = 10;
 
+    /**
+     * Tracks which queries are accessed via [[PaginatedSearchableRepository.byQuery]] from within a reaction.
+     */
+    private observedQueries = new ObservationTracker<TQuery>(
+        () => this.gcGracePeriod,
+        (query) => this.collectUnobservedQuery(query),
+        (query) => this.keyOf(query),
+    );
+
+    /**
+     * Compute the key a query is cached by. Queries with the same key are considered the same query.
+     * Defaults to [[canonicalKey]], which ignores the order of properties. Can be overridden, for example to
+     * ignore properties that don't affect the result.
+     *
+     * #### Example
+     * ```
+     * protected keyOf(query: MyQuery): string {
+     *     return query.search.trim().toLowerCase();
+     * }
+     * ```
+     *
+     * @param query The query to compute the key of.
+     *
+     * @return The key of the query.
+     */
+    protected keyOf(query: TQuery): string {
+        return canonicalKey(query);
+    }
+
     /**
      * Perform the actual loading of all entities matching the given query and within the specified pagination range.
      * It is okay to have this method reject with an error, but a result must be returned otherwise.
      * If no entities could be found, return an empty array.
+     * The provided signal is aborted once the result is no longer needed, for example because the repository
+     * was reset or the request timed out.
      *
      * #### Example
      * ```
-     * protected async fetchByQuery(query: MyQuery, pagination: Pagination): Promise<FetchByQueryResult<MyEntity>> {
+     * protected async fetchByQuery(
+     *     query: MyQuery,
+     *     pagination: Pagination,
+     *     signal: AbortSignal,
+     * ): Promise<FetchByQueryResult<MyEntity>> {
      *     const { search } = query;
      *     const { offset, count } = pagination;
      *     const url = `http://example.com/api/my-entity?search=${search}&start=${offset}&count=${count}`;
-     *     const response = await fetch(url);
+     *     const response = await fetch(url, { signal });
      *     if (response.status === 404) {
      *         return { entities: [] };
      *     }
@@ -297,14 +390,20 @@ export abstract class PaginatedSearchableRepository<TQuery, TEntity, TId = strin
      *
      * @param query The query to execute.
      * @param pagination The pagination range to load.
+     * @param signal A signal that is aborted once the request should be cancelled.
      *
      * @return The array of resulting entities, wrapped in [[FetchByQueryResult]].
      */
-    protected abstract fetchByQuery(query: TQuery, pagination: Segment): Promise<FetchByQueryResult<TEntity>>;
+    protected abstract fetchByQuery(
+        query: TQuery,
+        pagination: Segment,
+        signal: AbortSignal,
+    ): Promise<FetchByQueryResult<TRaw>>;
 
     /** @inheritdoc */
     public byQuery(query: TQuery, pagination: Partial<Pagination> = {}): TEntity[] {
         setTimeout(() => this.loadByQuery(query, pagination));
+        this.observedQueries.reportObserved(query);
         return this.resolveEntities(query, pagination);
     }
 
@@ -329,6 +428,31 @@ export abstract class PaginatedSearchableRepository<TQuery, TEntity, TId = strin
         return [...paginationRange.getIds(pagination)].map((id) => this.entities.get(id)!);
     }
 
+    /**
+     * Checks whether an entity is still observed other than via [[IndexableRepository.byId]].
+     * Entities that are part of the result of a query observed via [[PaginatedSearchableRepository.byQuery]]
+     * are observed.
+     *
+     * @param id The id of the entity to check.
+     *
+     * @return `true` if the entity is observed elsewhere and `false` otherwise.
+     */
+    protected isObservedElsewhere(id: TId): boolean {
+        let isObserved = false;
+        this.stateByQuery.forEach(({ id: query, state }) => {
+            if (state.paginationRange.hasId(id) && this.observedQueries.isObserved(query)) {
+                isObserved = true;
+            }
+        });
+        return isObserved || super.isObservedElsewhere(id);
+    }
+
+    private collectUnobservedQuery(query: TQuery): void {
+        if (!this.stateByQuery.isStatus(query, RequestStatus.IN_PROGRESS)) {
+            this.stateByQuery.delete(query);
+        }
+    }
+
     private isQueryDoneInRange(query: TQuery, pagination: Pagination): boolean {
         if (!this.stateByQuery.isStatus(query, RequestStatus.DONE)) {
             return false;
@@ -341,12 +465,33 @@ export abstract class PaginatedSearchableRepository<TQuery, TEntity, TId = strin
         super.evict(id);
         this.stateByQuery.forEach((info) => {
             if (info.state.paginationRange.hasId(id)) {
+                // Segments still loading would otherwise be added to the deleted state.
+                this.requestsByQuery.abort(info.id);
                 this.stateByQuery.delete(info.id);
-                this.callListenersByQuery(info.id, new Error("Entity was evicted while waiting."));
+                this.callListenersByQuery(info.id, new EvictedError());
             }
         });
     }
 
+    /**
+     * Checks whether an entity must not be evicted to keep the cache within [[IndexableRepository.maxEntries]].
+     * In addition to the entities protected by [[IndexableRepository.isEvictionProtected]], the entities of
+     * queries still loading further segments are protected, as evicting them would abort the query.
+     *
+     * @param id The id of the entity to check.
+     *
+     * @return `true` if the entity must not be evicted and `false` otherwise.
+     */
+    protected isEvictionProtected(id: TId): boolean {
+        let isLoading = false;
+        this.stateByQuery.forEach(({ status, state }) => {
+            if (status === RequestStatus.IN_PROGRESS && state.paginationRange.hasId(id)) {
+                isLoading = true;
+            }
+        });
+        return isLoading || super.isEvictionProtected(id);
+    }
+
     /** @inheritdoc */
     public async reloadQuery(query: TQuery, pagination: Partial<Pagination> = {}): Promise<TEntity[]> {
         return await transaction(async () => {
@@ -355,14 +500,41 @@ export abstract class PaginatedSearchableRepository<TQuery, TEntity, TId = strin
         });
     }
 
+    /** @inheritdoc */
+    public async retryQuery(query: TQuery, pagination: Partial<Pagination> = {}): Promise<TEntity[]> {
+        if (this.stateByQuery.isStatus(query, RequestStatus.ERROR)) {
+            this.stateByQuery.setStatus(query, RequestStatus.NONE);
+        }
+        return await this.byQueryAsync(query, pagination);
+    }
+
+    /** @inheritdoc */
+    public queryStatus(query: TQuery, pagination?: Partial<Pagination>): RequestStatusInfo<RequestError<TError>> {
+        const info = this.stateByQuery.getStatusInfo(query);
+        if (
+            pagination &&
+            info.status === RequestStatus.DONE &&
+            !this.isFullyLoaded(query, this.completePagination(pagination))
+        ) {
+            return { status: RequestStatus.NONE };
+        }
+        return info;
+    }
+
+    /** @inheritdoc */
+    public queryError(query: TQuery): RequestError<TError> | undefined {
+        const info = this.queryStatus(query);
+        return info.status === RequestStatus.ERROR ? info.error : undefined;
+    }
+
     /** @inheritdoc */
     @override public reset(): void {
         super.reset();
-        this.listenersByQuery.forEach(({ listener }) =>
-            listener.reject(new Error("Repository was reset while waiting.")),
-        );
+        this.listenersByQuery.forEach(({ listener }) => listener.reject(new ResetError()));
         this.listenersByQuery.clear();
         this.stateByQuery.reset();
+        this.observedQueries.reset();
+        this.requestsByQuery.abortAll();
     }
 
     public async waitForIdle(): Promise<void> {
@@ -384,6 +556,21 @@ export abstract class PaginatedSearchableRepository<TQuery, TEntity, TId = strin
         );
     }
 
+    /** @inheritdoc */
+    public isBusy(): boolean {
+        return super.isBusy() || this.stateByQuery.hasPending;
+    }
+
+    /** @inheritdoc */
+    public pendingCount(): number {
+        return super.pendingCount() + this.stateByQuery.counts[RequestStatus.IN_PROGRESS];
+    }
+
+    /** @inheritdoc */
+    public failedRequests(): FailedRequest<unknown, RequestError<TError>>[] {
+        return [...super.failedRequests(), ...this.stateByQuery.errors];
+    }
+
     private isFullyLoaded(query: TQuery, pagination: Pagination): boolean {
         const state = this.stateByQuery.getState(query);
         const completed = state.paginationRange.isFullyLoaded(pagination);
@@ -401,9 +588,9 @@ export abstract class PaginatedSearchableRepository<TQuery, TEntity, TId = strin
         return false;
     }
 
-    private callListenersByQuery(query: TQuery, error?: Error): void {
+    private callListenersByQuery(query: TQuery, error?: RequestError<TError>): void {
         [...this.listenersByQuery]
-            .filter((listenerSpec) => deepEqual(query, listenerSpec.query))
+            .filter((listenerSpec) => this.keyOf(listenerSpec.query) === this.keyOf(query))
             .forEach((listenerSpec) => {
                 const completed = this.isFullyLoaded(query, listenerSpec.pagination);
                 if (!error && !completed) {
@@ -440,31 +627,56 @@ export abstract class PaginatedSearchableRepository<TQuery, TEntity, TId = strin
             await this.waitForQuery(query, pagination);
             return await this.loadByQuery(query, pagination);
         }
-        this.stateByQuery.setStatus(query, RequestStatus.IN_PROGRESS);
+        const signal = this.requestsByQuery.start(query, this.requestTimeout);
+        this.stateByQuery.start(query);
         const segmentsToLoad = this.stateByQuery.getState(query).paginationRange.getMissingSegments(pagination);
         try {
-            await Promise.all(segmentsToLoad.map((segment) => this.loadIndividualRange(query, segment)));
+            await Promise.all(segmentsToLoad.map((segment) => this.loadIndividualRange(query, segment, signal)));
             this.stateByQuery.setStatus(query, RequestStatus.DONE);
             this.callListenersByQuery(query);
         } catch (error) {
-            this.stateByQuery.setStatus(query, RequestStatus.ERROR, error);
-            this.errorListeners.forEach((callback) => callback(error));
-            this.callListenersByQuery(query, error);
+            if (!this.requestsByQuery.isCurrent(query, signal)) {
+                // The request was aborted as the repository was reset.
+                return;
+            }
+            if (signal.aborted) {
+                this.stateByQuery.setStatus(query, RequestStatus.ABORTED);
+                this.callListenersByQuery(query, signal.reason);
+                return;
+            }
+            const failure = new FetchError<TError>(error);
+            this.stateByQuery.setStatus(query, RequestStatus.ERROR, failure);
+            this.errorListeners.forEach((callback) => callback(failure));
+            this.callListenersByQuery(query, failure);
+        } finally {
+            this.requestsByQuery.finish(query, signal);
         }
     }
 
-    private async loadIndividualRange(query: TQuery, segment: Segment): Promise<FetchByQueryResult<TEntity>> {
-        const result = await this.fetchByQuery(query, segment);
+    private async loadIndividualRange(
+        query: TQuery,
+        segment: Segment,
+        signal: AbortSignal,
+    ): Promise<FetchByQueryResult<TEntity>> {
+        const result = await this.retryPolicy.run(
+            () => this.fetchByQuery(query, segment, signal),
+            signal,
+            () => this.stateByQuery.countAttempt(query),
+        );
+        if (signal.aborted) {
+            this.dropResponse(query, signal);
+        }
+        const entities = result.entities.map((raw) => this.deserialize(raw));
         transaction(() => {
-            result.entities.forEach((entity) => this.add(entity));
-            const ids = new Set(result.entities.map((entity) => this.extractId(entity)));
+            this.addEntities(entities);
+            const ids = new Set(entities.map((entity) => this.extractId(entity)));
             const state = this.stateByQuery.getState(query);
             state.paginationRange.add(new SegmentWithIds(segment.offset, ids));
-            if (result.entities.length < segment.count) {
-                state.limit = segment.offset + result.entities.length;
+            if (entities.length < segment.count) {
+                state.limit = segment.offset + entities.length;
             }
         });
-        return result;
+        return { entities };
     }
 
     private completePagination(partialPagination: Partial<Pagination>): Pagination {
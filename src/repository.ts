@@ -1,22 +1,38 @@
-import { ErrorListener } from "./listeners";
+import { DebugListener, ErrorListener } from "./listeners";
 
 /**
  * Basic features every repository needs to provide.
+ * `TError` is the type of errors reported to the error listeners.
  */
-export interface Repository {
+export interface Repository<TError = Error> {
     /**
      * Attach a listener to the repository that is invoked whenever the repository encounters an error.
      * 
      * @param listener A listener to invoke whenever the repository encounters an error.
      */
-    addErrorListener(listener: ErrorListener): void;
+    addErrorListener(listener: ErrorListener<TError>): void;
 
     /**
      * Remove a previously attached error listener from this repository.
      * 
      * @param listener The error listener to remove again.
      */
-    removeErrorListener(listener: ErrorListener): void;
+    removeErrorListener(listener: ErrorListener<TError>): void;
+
+    /**
+     * Attach a listener to the repository that is invoked with events useful for debugging, such as
+     * responses that were dropped because their request was aborted.
+     * 
+     * @param listener A listener to invoke with every debug event.
+     */
+    addDebugListener(listener: DebugListener): void;
+
+    /**
+     * Remove a previously attached debug listener from this repository.
+     * 
+     * @param listener The debug listener to remove again.
+     */
+    removeDebugListener(listener: DebugListener): void;
 
     /**
      * Reset the repository to its initial state.
@@ -0,0 +1,104 @@
+import { KeyFunction, canonicalKey } from "./canonical-key";
+import { AbortedError } from "./errors";
+
+/**
+ * The `AbortController` of a running request, with the timer aborting it once it timed out.
+ */
+interface RunningRequest {
+    controller: AbortController;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Keeps track of the `AbortController` for every running request, such as loading an entity by id or
+ * loading a query.
+ * Only one request per id can be running. Starting a new request aborts and supersedes the previous one.
+ */
+export class RequestControllers<TId = string> {
+    private requests = new Map<string, RunningRequest>();
+
+    /**
+     * @param keyOf Computes the key requests are stored by. Ids with the same key belong to the same request.
+     *     Defaults to [[canonicalKey]].
+     */
+    constructor(private keyOf: KeyFunction<TId> = canonicalKey) {}
+
+    /**
+     * Start a new request, aborting and superseding the currently running request with the same id.
+     *
+     * @param id The id of the request.
+     * @param timeout An optional timeout in milliseconds after which the request is aborted.
+     *
+     * @return The `AbortSignal` for the new request.
+     */
+    public start(id: TId, timeout?: number): AbortSignal {
+        this.abort(id);
+        const controller = new AbortController();
+        const request: RunningRequest = { controller };
+        if (timeout !== undefined) {
+            request.timer = setTimeout(() => controller.abort(new AbortedError(true)), timeout);
+        }
+        this.requests.set(this.keyOf(id), request);
+        return controller.signal;
+    }
+
+    /**
+     * Check whether the request that the specified signal belongs to is still the current one for its id.
+     * A request is no longer current once it was finished, aborted via [[RequestControllers.abort]] or
+     * superseded by a new request.
+     * Requests that timed out are still considered current until they are finished.
+     *
+     * @param id The id of the request.
+     * @param signal The signal of the request to check.
+     *
+     * @return `true` if the request is still current and `false` otherwise.
+     */
+    public isCurrent(id: TId, signal: AbortSignal): boolean {
+        const request = this.requests.get(this.keyOf(id));
+        return request !== undefined && request.controller.signal === signal;
+    }
+
+    /**
+     * Mark the request that the specified signal belongs to as finished.
+     * Does nothing if the request is no longer current.
+     *
+     * @param id The id of the request.
+     * @param signal The signal of the request that finished.
+     */
+    public finish(id: TId, signal: AbortSignal): void {
+        if (!this.isCurrent(id, signal)) {
+            return;
+        }
+        const key = this.keyOf(id);
+        clearTimeout(this.requests.get(key)!.timer);
+        this.requests.delete(key);
+    }
+
+    /**
+     * Abort the currently running request with the specified id, if any.
+     *
+     * @param id The id of the request to abort.
+     */
+    public abort(id: TId): void {
+        const key = this.keyOf(id);
+        const request = this.requests.get(key);
+        if (!request) {
+            return;
+        }
+        this.requests.delete(key);
+        clearTimeout(request.timer);
+        request.controller.abort(new AbortedError());
+    }
+
+    /**
+     * Abort all currently running requests.
+     */
+    public abortAll(): void {
+        const requests = [...this.requests.values()];
+        this.requests.clear();
+        requests.forEach(({ controller, timer }) => {
+            clearTimeout(timer);
+            controller.abort(new AbortedError());
+        });
+    }
+}
@@ -1,4 +1,6 @@
-import { action, makeObservable, observable } from "mobx";
+import { action, computed, makeObservable, observable } from "mobx";
+
+import { KeyFunction, canonicalKey } from "./canonical-key";
 
 /**
  * The status of some request.
@@ -29,12 +31,50 @@ export const enum RequestStatus {
      * The request was performed, but nothing was found.
      */
     NOT_FOUND = "not found",
+
+    /**
+     * The request was aborted before it finished, for example because it timed out.
+     */
+    ABORTED = "aborted",
+}
+
+/**
+ * When and how often a request was performed. Maintained by [[RequestStates.setStatus]].
+ * All times are timestamps in milliseconds as returned by `Date.now()`.
+ */
+export interface RequestTiming {
+    /**
+     * The time the request was last started, by setting its status to `IN_PROGRESS`.
+     */
+    startedAt?: number;
+
+    /**
+     * The time the request last finished, by setting its status to anything but `IN_PROGRESS` or `NONE`.
+     * Is `undefined` while the request is in progress.
+     */
+    finishedAt?: number;
+
+    /**
+     * How often the request was started or retried, see [[RequestStates.countAttempt]].
+     */
+    attempts: number;
+
+    /**
+     * The time the request last finished with status `DONE` or `NOT_FOUND`.
+     */
+    lastSuccessAt?: number;
+
+    /**
+     * The time in milliseconds between starting and finishing the request the last time.
+     * Is `undefined` while the request is in progress and if it finished without being started.
+     */
+    duration?: number;
 }
 
 /**
  * Information about a specific request.
  */
-interface BaseRequestInfo<TId, TState> {
+interface BaseRequestInfo<TId, TState> extends RequestTiming {
     /**
      * The id of the request. Note that this doesn't necessarily have to be the id of an entity,
      * if the request was about loading a query, it might also be the query.
@@ -66,16 +106,154 @@ export type RequestInfo<TId, TState, TError> =
           error: TError;
       } & BaseRequestInfo<TId, TState>);
 
+/**
+ * The status of a request together with the error, if it failed.
+ * Can be narrowed by switching on `status`.
+ */
+export type RequestStatusInfo<TError = Error> =
+    | {
+          /**
+           * The current status the request is in.
+           */
+          status: Exclude<RequestStatus, RequestStatus.ERROR>;
+      }
+    | {
+          status: RequestStatus.ERROR;
+
+          /**
+           * The error that occurred when the request was performed.
+           */
+          error: TError;
+      };
+
+/**
+ * The statuses every status may change to via [[RequestStates.setStatus]].
+ * Finished requests need to be reset to `NONE` before they can be started again, see [[RequestStates.start]] and
+ * [[RequestStates.settle]].
+ * Setting a status to itself is only allowed where it is listed explicitly.
+ */
+export const requestTransitions: Readonly<Record<RequestStatus, readonly RequestStatus[]>> = {
+    [RequestStatus.NONE]: [RequestStatus.IN_PROGRESS, RequestStatus.DONE, RequestStatus.NOT_FOUND, RequestStatus.ERROR],
+    [RequestStatus.IN_PROGRESS]: [
+        RequestStatus.NONE,
+        RequestStatus.IN_PROGRESS,
+        RequestStatus.DONE,
+        RequestStatus.NOT_FOUND,
+        RequestStatus.ERROR,
+        RequestStatus.ABORTED,
+    ],
+    [RequestStatus.DONE]: [RequestStatus.NONE, RequestStatus.DONE, RequestStatus.NOT_FOUND],
+    [RequestStatus.NOT_FOUND]: [RequestStatus.NONE, RequestStatus.DONE, RequestStatus.NOT_FOUND],
+    [RequestStatus.ERROR]: [RequestStatus.NONE],
+    [RequestStatus.ABORTED]: [RequestStatus.NONE],
+};
+
+/**
+ * Invoked whenever the status of a request is set, see [[RequestStates.onTransition]].
+ *
+ * @param id The id of the request.
+ * @param from The status before the transition.
+ * @param to The status after the transition.
+ * @param info All information about the request after the transition.
+ */
+export type TransitionListener<TId, TState, TError> = (
+    id: TId,
+    from: RequestStatus,
+    to: RequestStatus,
+    info: RequestInfo<TId, TState, TError>,
+) => void;
+
+/**
+ * A request that failed, together with its error.
+ */
+export interface FailedRequest<TId, TError = Error> {
+    /**
+     * The id of the request, such as the id of an entity or a query.
+     */
+    id: TId;
+
+    /**
+     * The error the request failed with.
+     */
+    error: TError;
+}
+
+/**
+ * Checks whether `NODE_ENV` is `"production"`. Bundlers replace `process.env.NODE_ENV` when building for browsers,
+ * but where nothing replaced it, such as in unbundled ES modules, `process` may not exist at all.
+ */
+function isProduction(): boolean {
+    try {
+        return process.env.NODE_ENV === "production";
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Information (such as status, error and state) about a set of requests.
  */
 export class RequestStates<TId = string, TState = undefined, TError = Error> {
+    /**
+     * Whether [[RequestStates.setStatus]] throws on transitions that aren't listed in [[requestTransitions]].
+     * Enabled unless `NODE_ENV` is `"production"`, which bundlers set by replacing `process.env.NODE_ENV`.
+     * Also enabled where `process` doesn't exist.
+     */
+    public static assertTransitions = !isProduction();
+
     @observable public requestStates = new Map<string, RequestInfo<TId, TState, TError>>();
 
-    constructor(private stateFactory: () => TState = () => undefined) {
+    private transitionListeners = new Set<TransitionListener<TId, TState, TError>>();
+
+    /**
+     * @param stateFactory Creates the initial state of a request.
+     * @param keyOf Computes the key requests are stored by. Ids with the same key belong to the same request.
+     *     Defaults to [[canonicalKey]].
+     */
+    constructor(
+        private stateFactory: () => TState = () => undefined,
+        private keyOf: KeyFunction<TId> = canonicalKey,
+    ) {
         makeObservable(this);
     }
 
+    /**
+     * The number of known requests in every status. Requests that are unknown are not counted as `NONE`.
+     * Is observable.
+     */
+    @computed public get counts(): Record<RequestStatus, number> {
+        const counts = {
+            [RequestStatus.IN_PROGRESS]: 0,
+            [RequestStatus.NONE]: 0,
+            [RequestStatus.ERROR]: 0,
+            [RequestStatus.DONE]: 0,
+            [RequestStatus.NOT_FOUND]: 0,
+            [RequestStatus.ABORTED]: 0,
+        };
+        this.requestStates.forEach(({ status }) => ++counts[status]);
+        return counts;
+    }
+
+    /**
+     * Whether any request is in progress. Is observable.
+     */
+    @computed public get hasPending(): boolean {
+        return this.counts[RequestStatus.IN_PROGRESS] > 0;
+    }
+
+    /**
+     * All requests that failed, with their errors. Is observable.
+     */
+    @computed public get errors(): FailedRequest<TId, TError>[] {
+        const errors: FailedRequest<TId, TError>[] = [];
+        this.requestStates.forEach((info) => {
+            if ("error" in info) {
+                errors.push({ id: info.id, error: info.error });
+            }
+        });
+        return errors;
+    }
+
     /**
      * Perform an operation on all instances of [[RequestInfo]] known by this instance.
      *
@@ -85,19 +263,41 @@ export class RequestStates<TId = string, TState = undefined, TError = Error> {
         this.requestStates.forEach(info => callback(info));
     }
 
+    /**
+     * Invoke a listener whenever the status of a request is set via [[RequestStates.setStatus]].
+     *
+     * #### Example
+     * ```
+     * requestStates.onTransition((id, from, to, { duration }) => console.debug(`${id}: ${from} -> ${to}`, duration));
+     * ```
+     *
+     * @param listener The listener to invoke.
+     *
+     * @return A function removing the listener.
+     */
+    public onTransition(listener: TransitionListener<TId, TState, TError>): () => void {
+        this.transitionListeners.add(listener);
+        return () => this.transitionListeners.delete(listener);
+    }
+
     /**
      * Overwrite the state and status for the given request.
+     * Neither checks the transition nor notifies the listeners registered via [[RequestStates.onTransition]].
      *
      * @param info The request status to overwrite.
      */
     @action.bound public update(info: RequestInfo<TId, TState, TError>): void {
-        const key = JSON.stringify(info.id);
+        const key = this.keyOf(info.id);
         this.requestStates.set(key, info);
     }
 
     /**
-     * Update the status for the specified request.
+     * Update the status for the specified request, maintaining its [[RequestTiming]].
      * Can always be safely invoked, even if the request was not known before.
+     * Notifies the listeners registered via [[RequestStates.onTransition]].
+     *
+     * @throws Will throw if [[RequestStates.assertTransitions]] is enabled and the transition isn't listed in
+     *     [[requestTransitions]].
      * 
      * @param id The id of the request to update.
      * @param status The new status.
@@ -112,11 +312,86 @@ export class RequestStates<TId = string, TState = undefined, TError = Error> {
      */
     public setStatus(id: TId, status: RequestStatus.ERROR, error: TError): void;
     @action.bound public setStatus(id: TId, status: RequestStatus, error?: TError): void {
-        const state = this.getState(id);
+        const current = this.get(id);
+        const { state } = current;
+        const to = error ? RequestStatus.ERROR : status;
+        if (RequestStates.assertTransitions && requestTransitions[current.status].indexOf(to) === -1) {
+            throw new Error(`Invalid transition of request ${canonicalKey(id)} from "${current.status}" to "${to}".`);
+        }
         if (error) {
-            this.update({ status: RequestStatus.ERROR, error, state, id });
+            const timing = this.nextTiming(current, RequestStatus.ERROR);
+            this.update({ ...timing, status: RequestStatus.ERROR, error, state, id });
         } else {
-            this.update({ status, state, id });
+            this.update({ ...this.nextTiming(current, status), status, state, id });
+        }
+        const info = this.get(id);
+        this.transitionListeners.forEach((listener) => listener(id, current.status, to, info));
+    }
+
+    /**
+     * Start the specified request by setting its status to `IN_PROGRESS`.
+     * A request that already finished is reset to `NONE` first.
+     *
+     * @param id The id of the request to start.
+     */
+    @action.bound public start(id: TId): void {
+        if (!this.isStatus(id, RequestStatus.NONE, RequestStatus.IN_PROGRESS)) {
+            this.setStatus(id, RequestStatus.NONE);
+        }
+        this.setStatus(id, RequestStatus.IN_PROGRESS);
+    }
+
+    /**
+     * Finish the specified request once its result became known without performing it, for example after saving
+     * an entity. A request that failed or was aborted is reset to `NONE` first.
+     *
+     * @param id The id of the request.
+     * @param status The new status of the request.
+     */
+    @action.bound public settle(id: TId, status: RequestStatus.DONE | RequestStatus.NOT_FOUND): void {
+        if (this.isStatus(id, RequestStatus.ERROR, RequestStatus.ABORTED)) {
+            this.setStatus(id, RequestStatus.NONE);
+        }
+        this.setStatus(id, status);
+    }
+
+    /**
+     * Count another attempt of the specified request, for example when it is retried while in progress.
+     * Neither changes the status nor notifies the listeners registered via [[RequestStates.onTransition]].
+     *
+     * @param id The id of the request.
+     */
+    @action.bound public countAttempt(id: TId): void {
+        const current = this.get(id);
+        this.update({ ...current, attempts: current.attempts + 1 });
+    }
+
+    /**
+     * Compute the timing of a request after its status changed.
+     *
+     * @param current The information about the request before its status changed.
+     * @param status The new status.
+     *
+     * @return The new timing.
+     */
+    private nextTiming(current: RequestInfo<TId, TState, TError>, status: RequestStatus): RequestTiming {
+        const { startedAt, finishedAt, attempts, lastSuccessAt, duration } = current;
+        const now = Date.now();
+        switch (status) {
+            case RequestStatus.IN_PROGRESS:
+                return { startedAt: now, attempts: attempts + 1, lastSuccessAt };
+            case RequestStatus.NONE:
+                return { startedAt, finishedAt, attempts, lastSuccessAt, duration };
+            default: {
+                const isSuccess = status === RequestStatus.DONE || status === RequestStatus.NOT_FOUND;
+                return {
+                    startedAt,
+                    finishedAt: now,
+                    attempts,
+                    lastSuccessAt: isSuccess ? now : lastSuccessAt,
+                    duration: current.status === RequestStatus.IN_PROGRESS ? now - startedAt! : undefined,
+                };
+            }
         }
     }
 
@@ -158,6 +433,21 @@ export class RequestStates<TId = string, TState = undefined, TError = Error> {
         return status.indexOf(this.get(id).status) !== -1;
     }
 
+    /**
+     * Get the status of the specified request, together with the error if it failed.
+     *
+     * @param id The id of the request.
+     *
+     * @return The status of the request.
+     */
+    public getStatusInfo(id: TId): RequestStatusInfo<TError> {
+        const info = this.get(id);
+        if ("error" in info) {
+            return { status: RequestStatus.ERROR, error: info.error };
+        }
+        return { status: info.status as Exclude<RequestStatus, RequestStatus.ERROR> };
+    }
+
     /**
      * Reset all information about all requests.
      */
@@ -172,7 +462,7 @@ export class RequestStates<TId = string, TState = undefined, TError = Error> {
      * @param id The id of the request to delete.
      */
     @action.bound public delete(id: TId): void {
-        this.requestStates.delete(JSON.stringify(id));
+        this.requestStates.delete(this.keyOf(id));
     }
 
     /**
@@ -183,12 +473,13 @@ export class RequestStates<TId = string, TState = undefined, TError = Error> {
      * @return All information about the specified request.
      */
     public get(id: TId): RequestInfo<TId, TState, TError> {
-        const key = JSON.stringify(id);
+        const key = this.keyOf(id);
         if (!this.requestStates.has(key)) {
             return {
                 id,
                 status: RequestStatus.NONE,
                 state: this.stateFactory(),
+                attempts: 0,
             };
         }
         return this.requestStates.get(key);
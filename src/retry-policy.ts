@@ -0,0 +1,132 @@
+/**
+ * Options for configuring a [[RetryPolicy]].
+ */
+export interface RetryOptions {
+    /**
+     * The maximum number of attempts, including the first one. Defaults to `1`, which disables retrying.
+     */
+    maxAttempts?: number;
+
+    /**
+     * The delay in milliseconds before the first retry. Each subsequent retry doubles the delay.
+     * Defaults to `1000`.
+     */
+    baseDelay?: number;
+
+    /**
+     * The upper limit for the delay in milliseconds between two attempts. Defaults to `30000`.
+     */
+    maxDelay?: number;
+
+    /**
+     * A factor between `0` and `1` specifying how much of the delay is randomized. Defaults to `0.5`.
+     * A jitter of `0.5` results in delays between 50% and 100% of the exponential delay.
+     */
+    jitter?: number;
+
+    /**
+     * Decides whether an attempt that failed with the specified error should be retried.
+     * Defaults to retrying all errors.
+     */
+    isRetryable?: (error: Error) => boolean;
+}
+
+/**
+ * Retries failed asynchronous operations with an exponential backoff.
+ *
+ * #### Example
+ * ```
+ * const policy = new RetryPolicy({ maxAttempts: 3, baseDelay: 500 });
+ * // Performs the request up to three times, waiting up to 500ms and up to 1000ms in between.
+ * const response = await policy.run(() => fetch("http://example.com/api/my-entity/1"));
+ * ```
+ */
+export class RetryPolicy {
+    public readonly maxAttempts: number;
+    public readonly baseDelay: number;
+    public readonly maxDelay: number;
+    public readonly jitter: number;
+    public readonly isRetryable: (error: Error) => boolean;
+
+    /**
+     * @param options The options for this policy. All options are optional.
+     */
+    constructor({
+        maxAttempts = 1,
+        baseDelay = 1000,
+        maxDelay = 30000,
+        jitter = 0.5,
+        isRetryable = () => true,
+    }: RetryOptions = {}) {
+        this.maxAttempts = maxAttempts;
+        this.baseDelay = baseDelay;
+        this.maxDelay = maxDelay;
+        this.jitter = jitter;
+        this.isRetryable = isRetryable;
+    }
+
+    /**
+     * Calculate the delay before the next attempt.
+     *
+     * @param attempt The number of the attempt that failed, starting at `1`.
+     *
+     * @return The delay in milliseconds.
+     */
+    public delay(attempt: number): number {
+        const exponential = Math.min(this.maxDelay, this.baseDelay * Math.pow(2, attempt - 1));
+        return exponential * (1 - this.jitter * Math.random());
+    }
+
+    /**
+     * Perform an operation, retrying it as long as it fails with a retryable error and attempts are left.
+     *
+     * @throws Will throw the last error if the operation failed with an error that isn't retryable, if no
+     *     attempts are left or if the signal was aborted.
+     *
+     * @param operation The operation to perform. Will be invoked once for every attempt.
+     * @param signal An optional signal. Once aborted, no further attempts are performed, even while waiting
+     *     for the next attempt.
+     * @param onRetry Invoked before every attempt but the first, with the number of the attempt.
+     *
+     * @return A Promise resolving to the result of the first successful attempt.
+     */
+    public async run<T>(
+        operation: () => Promise<T>,
+        signal?: AbortSignal,
+        onRetry?: (attempt: number) => void,
+    ): Promise<T> {
+        for (let attempt = 1; ; ++attempt) {
+            try {
+                return await operation();
+            } catch (error) {
+                if (attempt >= this.maxAttempts || signal?.aborted || !this.isRetryable(error)) {
+                    throw error;
+                }
+                await this.backoff(attempt, signal).catch(() => Promise.reject(error));
+                onRetry?.(attempt + 1);
+            }
+        }
+    }
+
+    /**
+     * Wait for the delay before the next attempt.
+     *
+     * @param attempt The number of the attempt that failed, starting at `1`.
+     * @param signal An optional signal. Once aborted, waiting is cancelled.
+     *
+     * @return A Promise resolving once the delay passed, or rejecting once the signal was aborted.
+     */
+    private backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const onAbort = (): void => {
+                clearTimeout(timer);
+                reject(signal!.reason);
+            };
+            signal?.addEventListener("abort", onAbort);
+            const timer = setTimeout(() => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            }, this.delay(attempt));
+        });
+    }
+}
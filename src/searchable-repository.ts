@@ -3,7 +3,11 @@ import { bind } from "bind-decorator";
 
 import { IndexableRepository } from "./indexable-repository";
 import { PromiseCallbacks } from "./listeners";
-import { RequestStatus, RequestStates } from "./request-states";
+import { RequestStatus, RequestStates, RequestStatusInfo, FailedRequest } from "./request-states";
+import { ObservationTracker } from "./observation-tracker";
+import { RequestControllers } from "./request-controllers";
+import { canonicalKey } from "./canonical-key";
+import { FetchError, RequestError, ResetError } from "./errors";
 
 /**
  * The request state associated with a request from [[SearchableRepository]].
@@ -27,8 +31,9 @@ export interface FetchByQueryResult<TEntity> {
 
 /**
  * An object that can be queried.
+ * `TError` is the type of errors thrown when fetching queries, which are wrapped in a [[FetchError]].
  */
-export interface Searchable<TQuery, TEntity> {
+export interface Searchable<TQuery, TEntity, TError extends Error = Error> {
     /**
      * Search for entities within the repository.
      * The result will be cached based on the query.
@@ -88,6 +93,38 @@ export interface Searchable<TQuery, TEntity> {
      */
     reloadQuery(query: TQuery): Promise<TEntity[]>;
 
+    /**
+     * Load a query again that previously failed to load.
+     * Loading a query that failed is not attempted again automatically, until this method is invoked.
+     * If the query did not fail to load, this behaves like [[Searchable.byQueryAsync]].
+     *
+     * @param query The query to retry loading.
+     *
+     * @return A Promise resolving to an array of all entities that matched the query.
+     */
+    retryQuery(query: TQuery): Promise<TEntity[]>;
+
+    /**
+     * Get the status of loading a query.
+     * As this method is observable, observers can use it to tell whether a query is still loading or failed
+     * to load while [[Searchable.byQuery]] returns an empty array.
+     *
+     * @param query The query.
+     *
+     * @return The status of the query, with the error if it failed to load.
+     */
+    queryStatus(query: TQuery): RequestStatusInfo<RequestError<TError>>;
+
+    /**
+     * Get the error that occurred when loading a query.
+     * This method is observable, see [[Searchable.queryStatus]].
+     *
+     * @param query The query.
+     *
+     * @return The error if the query failed to load and `undefined` otherwise.
+     */
+    queryError(query: TQuery): RequestError<TError> | undefined;
+
     /**
      * Load a query asynchronously.
      * Has the same call signature as [[Searchable.byQuery]], but returns a Promise.
@@ -136,8 +173,9 @@ export interface Searchable<TQuery, TEntity> {
      * myRepository.byQuery({ search: "my name" });
      * ```
      *
-     * @throws Will throw if loading any part of the query failed, or if an entity contained within this query was
-     *     evicted after being loaded but before this Promise resolved.
+     * @throws Will throw a [[FetchError]] if loading any part of the query failed, an [[EvictedError]] if an entity
+     *     contained within this query was evicted after being loaded but before this Promise resolved, a
+     *     [[ResetError]] if the repository was reset while waiting or an [[AbortedError]] if the request timed out.
      *
      * @param query The query to wait for.
      * @param pagination An optional pagination such as `{ offset: 0, count: 100 }`.
@@ -190,9 +228,17 @@ export interface Searchable<TQuery, TEntity> {
  * }
  * ```
  */
-export abstract class SearchableRepository<TQuery, TEntity, TId = string, TBatchId = string>
-    extends IndexableRepository<TEntity, TId, TBatchId>
-    implements Searchable<TQuery, TEntity> {
+export abstract class SearchableRepository<
+        TQuery,
+        TEntity,
+        TId = string,
+        TBatchId = string,
+        TRaw = TEntity,
+        TError extends Error = Error,
+    >
+    extends IndexableRepository<TEntity, TId, TBatchId, TRaw, TError>
+    implements Searchable<TQuery, TEntity, TError>
+{
     constructor() {
         super();
         makeObservable(this);
@@ -202,25 +248,62 @@ export abstract class SearchableRepository<TQuery, TEntity, TId = string, TBatch
      * The state of all requests performed to load entities by query.
      * This includes the request's states as well as the resulting ids.
      */
-    protected stateByQuery = new RequestStates<TQuery, StateSearchable<TId>>(() => ({
-        resultingIds: new Set(),
-    }));
+    protected stateByQuery = new RequestStates<TQuery, StateSearchable<TId>, RequestError<TError>>(
+        () => ({ resultingIds: new Set() }),
+        (query) => this.keyOf(query),
+    );
 
     /**
      * All listeners attached to this repository in [[SearchableRepository.waitForQuery]].
      */
-    protected listenersByQuery = new Map<string, PromiseCallbacks[]>();
+    protected listenersByQuery = new Map<string, PromiseCallbacks<void, RequestError<TError>>[]>();
+
+    /**
+     * The controllers for aborting all running requests to load entities by query.
+     */
+    protected requestsByQuery = new RequestControllers<TQuery>((query) => this.keyOf(query));
+
+    /**
+     * Tracks which queries are accessed via [[SearchableRepository.byQuery]] from within a reaction.
+     */
+    private observedQueries = new ObservationTracker<TQuery>(
+        () => this.gcGracePeriod,
+        (query) => this.collectUnobservedQuery(query),
+        (query) => this.keyOf(query),
+    );
+
+    /**
+     * Compute the key a query is cached by. Queries with the same key are considered the same query.
+     * Defaults to [[canonicalKey]], which ignores the order of properties. Can be overridden, for example to
+     * ignore properties that don't affect the result.
+     *
+     * #### Example
+     * ```
+     * protected keyOf(query: MyQuery): string {
+     *     return query.search.trim().toLowerCase();
+     * }
+     * ```
+     *
+     * @param query The query to compute the key of.
+     *
+     * @return The key of the query.
+     */
+    protected keyOf(query: TQuery): string {
+        return canonicalKey(query);
+    }
 
     /**
      * Perform the actual loading of all entities matching the given query.
      * It is okay to have this method reject with an error, but a result must be returned otherwise.
      * If no entities could be found, return an empty array.
+     * The provided signal is aborted once the result is no longer needed, for example because the repository
+     * was reset or the request timed out.
      *
      * #### Example
      * ```
-     * protected async fetchByQuery(query: MyQuery): Promise<FetchByQueryResult<MyEntity>> {
+     * protected async fetchByQuery(query: MyQuery, signal: AbortSignal): Promise<FetchByQueryResult<MyEntity>> {
      *     const { search } = query;
-     *     const response = await fetch(`http://example.com/api/my-entity?search=${search}`);
+     *     const response = await fetch(`http://example.com/api/my-entity?search=${search}`, { signal });
      *     if (response.status === 404) {
      *         return { entities: [] };
      *     }
@@ -230,14 +313,16 @@ export abstract class SearchableRepository<TQuery, TEntity, TId = string, TBatch
      * ```
      *
      * @param query The query to execute.
+     * @param signal A signal that is aborted once the request should be cancelled.
      *
      * @return The array of resulting entities, wrapped in [[FetchByQueryResult]].
      */
-    protected abstract fetchByQuery(query: TQuery): Promise<FetchByQueryResult<TEntity>>;
+    protected abstract fetchByQuery(query: TQuery, signal: AbortSignal): Promise<FetchByQueryResult<TRaw>>;
 
     /** @inheritdoc */
     public byQuery(query: TQuery): TEntity[] {
         setTimeout(() => this.loadByQuery(query));
+        this.observedQueries.reportObserved(query);
         return this.resolveEntities(query);
     }
 
@@ -249,7 +334,7 @@ export abstract class SearchableRepository<TQuery, TEntity, TId = string, TBatch
 
     /** @inheritdoc */
     public waitForQuery(query: TQuery): Promise<void> {
-        const key = JSON.stringify(query);
+        const key = this.keyOf(query);
         return new Promise((resolve, reject) => {
             if (!this.listenersByQuery.has(key)) {
                 this.listenersByQuery.set(key, []);
@@ -276,14 +361,35 @@ export abstract class SearchableRepository<TQuery, TEntity, TId = string, TBatch
         });
     }
 
+    /** @inheritdoc */
+    public async retryQuery(query: TQuery): Promise<TEntity[]> {
+        if (this.stateByQuery.isStatus(query, RequestStatus.ERROR)) {
+            this.stateByQuery.setStatus(query, RequestStatus.NONE);
+        }
+        return await this.byQueryAsync(query);
+    }
+
+    /** @inheritdoc */
+    public queryStatus(query: TQuery): RequestStatusInfo<RequestError<TError>> {
+        return this.stateByQuery.getStatusInfo(query);
+    }
+
+    /** @inheritdoc */
+    public queryError(query: TQuery): RequestError<TError> | undefined {
+        const info = this.queryStatus(query);
+        return info.status === RequestStatus.ERROR ? info.error : undefined;
+    }
+
     /** @inheritdoc */
     @override public reset(): void {
         super.reset();
         this.listenersByQuery.forEach((listener) => {
-            listener.forEach(({ reject }) => reject(new Error("Repository was reset while waiting.")));
+            listener.forEach(({ reject }) => reject(new ResetError()));
         });
         this.listenersByQuery.clear();
         this.stateByQuery.reset();
+        this.observedQueries.reset();
+        this.requestsByQuery.abortAll();
     }
 
     public async waitForIdle(): Promise<void> {
@@ -295,13 +401,52 @@ export abstract class SearchableRepository<TQuery, TEntity, TId = string, TBatch
         );
     }
 
+    /** @inheritdoc */
+    public isBusy(): boolean {
+        return super.isBusy() || this.stateByQuery.hasPending;
+    }
+
+    /** @inheritdoc */
+    public pendingCount(): number {
+        return super.pendingCount() + this.stateByQuery.counts[RequestStatus.IN_PROGRESS];
+    }
+
+    /** @inheritdoc */
+    public failedRequests(): FailedRequest<unknown, RequestError<TError>>[] {
+        return [...super.failedRequests(), ...this.stateByQuery.errors];
+    }
+
+    /**
+     * Checks whether an entity is still observed other than via [[IndexableRepository.byId]].
+     * Entities that are part of the result of a query observed via [[SearchableRepository.byQuery]] are observed.
+     *
+     * @param id The id of the entity to check.
+     *
+     * @return `true` if the entity is observed elsewhere and `false` otherwise.
+     */
+    protected isObservedElsewhere(id: TId): boolean {
+        let isObserved = false;
+        this.stateByQuery.forEach(({ id: query, state }) => {
+            if (state.resultingIds.has(id) && this.observedQueries.isObserved(query)) {
+                isObserved = true;
+            }
+        });
+        return isObserved || super.isObservedElsewhere(id);
+    }
+
+    private collectUnobservedQuery(query: TQuery): void {
+        if (!this.stateByQuery.isStatus(query, RequestStatus.IN_PROGRESS)) {
+            this.stateByQuery.delete(query);
+        }
+    }
+
     private resolveEntities(query: TQuery): TEntity[] {
         const { resultingIds } = this.stateByQuery.getState(query);
         return [...resultingIds].map((id) => this.entities.get(id)!);
     }
 
-    private callListenersByQuery(query: TQuery, error?: Error): void {
-        const key = JSON.stringify(query);
+    private callListenersByQuery(query: TQuery, error?: RequestError<TError>): void {
+        const key = this.keyOf(query);
         if (!this.listenersByQuery.has(key)) {
             return;
         }
@@ -319,24 +464,48 @@ export abstract class SearchableRepository<TQuery, TEntity, TId = string, TBatch
         if (this.stateByQuery.isStatus(query, RequestStatus.DONE)) {
             return;
         }
-        if (this.stateByQuery.isStatus(query, RequestStatus.IN_PROGRESS, RequestStatus.ERROR)) {
+        if (this.stateByQuery.isStatus(query, RequestStatus.IN_PROGRESS)) {
             await this.waitForQuery(query);
             return;
         }
-        this.stateByQuery.setStatus(query, RequestStatus.IN_PROGRESS);
+        if (this.stateByQuery.isStatus(query, RequestStatus.ERROR)) {
+            return;
+        }
+        const signal = this.requestsByQuery.start(query, this.requestTimeout);
+        this.stateByQuery.start(query);
         try {
-            const { entities } = await this.fetchByQuery(query);
+            const result = await this.retryPolicy.run(
+                () => this.fetchByQuery(query, signal),
+                signal,
+                () => this.stateByQuery.countAttempt(query),
+            );
+            if (signal.aborted) {
+                this.dropResponse(query, signal);
+            }
+            const entities = result.entities.map(raw => this.deserialize(raw));
             transaction(() => {
-                entities.forEach(entity => this.add(entity));
+                this.addEntities(entities);
                 const resultingIds = new Set(entities.map(entity => this.extractId(entity)));
                 this.stateByQuery.setState(query, { resultingIds });
                 this.stateByQuery.setStatus(query, RequestStatus.DONE);
                 this.callListenersByQuery(query);
             });
         } catch (error) {
-            this.stateByQuery.setStatus(query, RequestStatus.ERROR, error);
-            this.errorListeners.forEach(callback => callback(error));
-            this.callListenersByQuery(query, error);
+            if (!this.requestsByQuery.isCurrent(query, signal)) {
+                // The request was aborted as the repository was reset.
+                return;
+            }
+            if (signal.aborted) {
+                this.stateByQuery.setStatus(query, RequestStatus.ABORTED);
+                this.callListenersByQuery(query, signal.reason);
+                return;
+            }
+            const failure = new FetchError<TError>(error);
+            this.stateByQuery.setStatus(query, RequestStatus.ERROR, failure);
+            this.errorListeners.forEach(callback => callback(failure));
+            this.callListenersByQuery(query, failure);
+        } finally {
+            this.requestsByQuery.finish(query, signal);
         }
     }
 }
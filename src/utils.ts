@@ -0,0 +1,10 @@
+/**
+ * Check whether a value is an object literal, as opposed to arrays, class instances and built-ins like `Date`.
+ *
+ * @param value The value to check.
+ *
+ * @return `true` if the value is a plain object and `false` otherwise.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
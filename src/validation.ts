@@ -0,0 +1,187 @@
+import { action, makeObservable, observable } from "mobx";
+
+/**
+ * A problem found when validating an entity.
+ */
+export interface ValidationError<TEntity> {
+    /**
+     * The property the error belongs to, or `undefined` if it concerns the entity as a whole.
+     */
+    field?: keyof TEntity;
+
+    /**
+     * A message describing the problem.
+     */
+    message: string;
+}
+
+/**
+ * Synchronously checks an entity, for example for required properties.
+ */
+export interface Validator<TEntity> {
+    /**
+     * The property the validator checks. If omitted, the validator checks the entity as a whole.
+     */
+    field?: keyof TEntity;
+
+    /**
+     * Check the entity.
+     *
+     * @param entity The entity to check.
+     *
+     * @return A message describing the problem, or `undefined` if the entity is valid.
+     */
+    validate(entity: TEntity): string | undefined;
+}
+
+/**
+ * Asynchronously checks an entity, for example whether a name is still available in the backend.
+ */
+export interface AsyncValidator<TEntity> {
+    /**
+     * The property the validator checks. If omitted, the validator checks the entity as a whole.
+     */
+    field?: keyof TEntity;
+
+    /**
+     * Check the entity.
+     *
+     * @throws The method may throw an error, whose message is reported as a validation error.
+     *
+     * @param entity A snapshot of the entity to check.
+     * @param signal A signal that is aborted once the result is no longer needed.
+     *
+     * @return A Promise resolving to a message describing the problem, or `undefined` if the entity is valid.
+     */
+    validateAsync(entity: TEntity, signal: AbortSignal): Promise<string | undefined>;
+}
+
+/**
+ * Check whether a validator is asynchronous.
+ *
+ * @param validator The validator to check.
+ *
+ * @return `true` if the validator is an [[AsyncValidator]] and `false` otherwise.
+ */
+export function isAsyncValidator<TEntity>(
+    validator: Validator<TEntity> | AsyncValidator<TEntity>,
+): validator is AsyncValidator<TEntity> {
+    return "validateAsync" in validator;
+}
+
+/**
+ * Check an entity with all provided synchronous validators.
+ *
+ * @param entity The entity to check.
+ * @param validators The validators to invoke.
+ *
+ * @return All problems found.
+ */
+export function runValidators<TEntity>(entity: TEntity, validators: Validator<TEntity>[]): ValidationError<TEntity>[] {
+    const errors: ValidationError<TEntity>[] = [];
+    validators.forEach((validator) => {
+        const message = validator.validate(entity);
+        if (message !== undefined) {
+            errors.push({ field: validator.field, message });
+        }
+    });
+    return errors;
+}
+
+/**
+ * Check an entity with all provided asynchronous validators in parallel.
+ * A validator that rejects or throws reports the message of its error as a problem. Rejections with other values
+ * than errors, such as a string, are reported as that value.
+ *
+ * @param entity The entity to check.
+ * @param validators The validators to invoke.
+ * @param signal Passed on to the validators.
+ *
+ * @return A Promise resolving to all problems found.
+ */
+export async function runAsyncValidators<TEntity>(
+    entity: TEntity,
+    validators: AsyncValidator<TEntity>[],
+    signal: AbortSignal,
+): Promise<ValidationError<TEntity>[]> {
+    const messages = await Promise.all(
+        validators.map(async (validator) => {
+            try {
+                return await validator.validateAsync(entity, signal);
+            } catch (error) {
+                return error instanceof Error ? error.message : String(error);
+            }
+        }),
+    );
+    const errors: ValidationError<TEntity>[] = [];
+    validators.forEach(({ field }, index) => {
+        const message = messages[index];
+        if (message !== undefined) {
+            errors.push({ field, message });
+        }
+    });
+    return errors;
+}
+
+/**
+ * The state of the asynchronous validation of one entity that keeps changing, such as a mutable copy.
+ * Validation only starts once the entity didn't change for a debounce period, and a running validation is
+ * cancelled as soon as the entity changes again.
+ */
+export class AsyncValidation<TEntity> {
+    /**
+     * The problems found by the last completed validation.
+     */
+    @observable.ref public errors: ValidationError<TEntity>[] = [];
+
+    /**
+     * Whether a validation is scheduled or running.
+     */
+    @observable public isPending = false;
+
+    private controller?: AbortController;
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * @param debounce The time in milliseconds to wait after the last change before validating.
+     */
+    constructor(private debounce: number) {
+        makeObservable(this);
+    }
+
+    /**
+     * Validate a new state of the entity once the debounce period passed, cancelling any previous validation.
+     *
+     * @param entity A snapshot of the new state of the entity.
+     * @param validators The validators to invoke.
+     */
+    @action.bound public schedule(entity: TEntity, validators: AsyncValidator<TEntity>[]): void {
+        this.cancel();
+        if (validators.length === 0) {
+            this.complete([]);
+            return;
+        }
+        this.isPending = true;
+        const controller = new AbortController();
+        this.controller = controller;
+        this.timer = setTimeout(async () => {
+            const errors = await runAsyncValidators(entity, validators, controller.signal);
+            if (!controller.signal.aborted) {
+                this.complete(errors);
+            }
+        }, this.debounce);
+    }
+
+    /**
+     * Cancel the scheduled or running validation.
+     */
+    public cancel(): void {
+        this.controller?.abort();
+        clearTimeout(this.timer!);
+    }
+
+    @action.bound private complete(errors: ValidationError<TEntity>[]): void {
+        this.errors = errors;
+        this.isPending = false;
+    }
+}
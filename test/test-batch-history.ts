@@ -0,0 +1,64 @@
+import { BatchHistory } from "../src";
+
+describe("BatchHistory", () => {
+    let history: BatchHistory<number>;
+
+    beforeEach(() => (history = new BatchHistory(0, 2, (a, b) => a === b)));
+
+    it("can't undo initially", () => expect(history.canUndo).toBe(false));
+
+    it("can't redo initially", () => expect(history.canRedo).toBe(false));
+
+    it("returns `undefined` when undoing without steps", () => expect(history.undo()).toBeUndefined());
+
+    it("returns `undefined` when redoing without steps", () => expect(history.redo()).toBeUndefined());
+
+    it("ignores recording the current state", () => {
+        history.record(0);
+        expect(history.canUndo).toBe(false);
+    });
+
+    describe("after recording steps", () => {
+        beforeEach(() => {
+            history.record(1);
+            history.record(2);
+        });
+
+        it("can undo", () => expect(history.canUndo).toBe(true));
+
+        it("returns the previous states when undoing", () => {
+            expect(history.undo()).toBe(1);
+            expect(history.undo()).toBe(0);
+            expect(history.canUndo).toBe(false);
+        });
+
+        describe("after undoing", () => {
+            beforeEach(() => history.undo());
+
+            it("can redo", () => expect(history.canRedo).toBe(true));
+
+            it("returns the undone state when redoing", () => {
+                expect(history.redo()).toBe(2);
+                expect(history.canRedo).toBe(false);
+            });
+
+            describe("after recording another step", () => {
+                beforeEach(() => history.record(3));
+
+                it("can't redo", () => expect(history.canRedo).toBe(false));
+
+                it("undoes to the state before the new step", () => expect(history.undo()).toBe(1));
+            });
+        });
+
+        describe("after exceeding the limit", () => {
+            beforeEach(() => history.record(3));
+
+            it("drops the oldest step", () => {
+                expect(history.undo()).toBe(2);
+                expect(history.undo()).toBe(1);
+                expect(history.canUndo).toBe(false);
+            });
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import { canonicalKey } from "../src";
+
+describe("canonicalKey", () => {
+    it("ignores the order of properties", () =>
+        expect(canonicalKey({ a: 1, b: 2 })).toBe(canonicalKey({ b: 2, a: 1 })));
+
+    it("ignores the order of nested properties", () =>
+        expect(canonicalKey({ a: { c: 3, d: 4 } })).toBe(canonicalKey({ a: { d: 4, c: 3 } })));
+
+    it("keeps properties that are `undefined`", () =>
+        expect(canonicalKey({ a: undefined })).not.toBe(canonicalKey({})));
+
+    it("distinguishes `undefined` and `null`", () => expect(canonicalKey(undefined)).not.toBe(canonicalKey(null)));
+
+    it("distinguishes numbers and strings", () => expect(canonicalKey(1)).not.toBe(canonicalKey("1")));
+
+    it("distinguishes booleans and strings", () => expect(canonicalKey(true)).not.toBe(canonicalKey("true")));
+
+    it("distinguishes numbers and `BigInt`s", () => expect(canonicalKey(1)).not.toBe(canonicalKey(BigInt(1))));
+
+    it("supports `BigInt`s", () => expect(canonicalKey(BigInt(2))).toBe(canonicalKey(BigInt(2))));
+
+    it("distinguishes arrays and objects", () => expect(canonicalKey([1])).not.toBe(canonicalKey({ 0: 1 })));
+
+    it("keeps the order of arrays", () => expect(canonicalKey([1, 2])).not.toBe(canonicalKey([2, 1])));
+
+    it("escapes strings", () => expect(canonicalKey(["a,b"])).not.toBe(canonicalKey(["a", "b"])));
+
+    it("escapes property names", () => expect(canonicalKey({ "a:b": 1 })).not.toBe(canonicalKey({ a: "b:1" })));
+
+    it("supports dates", () => expect(canonicalKey(new Date(1000))).toBe(canonicalKey(new Date(1000))));
+
+    it("distinguishes different dates", () =>
+        expect(canonicalKey(new Date(1000))).not.toBe(canonicalKey(new Date(2000))));
+
+    it("distinguishes dates and numbers", () => expect(canonicalKey(new Date(1000))).not.toBe(canonicalKey(1000)));
+
+    it("ignores the order of `Map` entries", () =>
+        expect(
+            canonicalKey(
+                new Map([
+                    ["a", 1],
+                    ["b", 2],
+                ]),
+            ),
+        ).toBe(
+            canonicalKey(
+                new Map([
+                    ["b", 2],
+                    ["a", 1],
+                ]),
+            ),
+        ));
+
+    it("distinguishes `Map`s with different values", () =>
+        expect(canonicalKey(new Map([["a", 1]]))).not.toBe(canonicalKey(new Map([["a", 2]]))));
+
+    it("distinguishes `Map`s and objects", () =>
+        expect(canonicalKey(new Map([["a", 1]]))).not.toBe(canonicalKey({ a: 1 })));
+
+    it("ignores the order of `Set` entries", () =>
+        expect(canonicalKey(new Set([1, 2]))).toBe(canonicalKey(new Set([2, 1]))));
+
+    it("distinguishes `Set`s and arrays", () => expect(canonicalKey(new Set([1]))).not.toBe(canonicalKey([1])));
+
+    it("refuses functions", () =>
+        expect(() => canonicalKey({ a: (): void => undefined })).toThrowError(
+            'Can\'t compute the key of a value of type "function".',
+        ));
+});
@@ -0,0 +1,43 @@
+import { changedFields, findConflicts } from "../src";
+
+describe("changedFields", () => {
+    interface TestEntity {
+        a?: number;
+        b?: number;
+        nested?: { c: number };
+    }
+
+    it("returns no fields for equal entities", () =>
+        expect(changedFields<TestEntity>({ a: 1, nested: { c: 1 } }, { a: 1, nested: { c: 1 } })).toEqual([]));
+
+    it("returns changed, added and removed fields", () =>
+        expect(changedFields<TestEntity>({ a: 1, nested: { c: 1 } }, { b: 2, nested: { c: 2 } })).toEqual([
+            "b",
+            "nested",
+            "a",
+        ]));
+});
+
+describe("findConflicts", () => {
+    interface TestEntity {
+        a?: number;
+        b?: number;
+        c?: number;
+    }
+
+    it("ignores fields changed on one side only", () =>
+        expect(findConflicts<TestEntity>({ a: 1, b: 1 }, { a: 2, b: 1 }, { a: 1, b: 2 })).toEqual([]));
+
+    it("ignores fields changed to the same value on both sides", () =>
+        expect(findConflicts<TestEntity>({ a: 1 }, { a: 2 }, { a: 2 })).toEqual([]));
+
+    it("reports fields changed to different values on both sides", () =>
+        expect(findConflicts<TestEntity>({ a: 1, c: 1 }, { a: 2 }, { a: 3, c: 1 })).toEqual([
+            { field: "a", base: 1, mine: 2, theirs: 3 },
+        ]));
+
+    it("reports fields removed on one side and changed on the other", () =>
+        expect(findConflicts<TestEntity>({ a: 1 }, {}, { a: 3 })).toEqual([
+            { field: "a", base: 1, mine: undefined, theirs: 3 },
+        ]));
+});
@@ -0,0 +1,144 @@
+import {
+    RollbackError,
+    InvalidEntityError,
+    FetchError,
+    IdMismatchError,
+    EvictedError,
+    ResetError,
+    AbortedError,
+} from "../src";
+
+describe("RollbackError", () => {
+    let error: RollbackError;
+
+    beforeEach(() => (error = new RollbackError("some", new Error("Some error"))));
+
+    it("is an `Error`", () => expect(error).toBeInstanceOf(Error));
+
+    it("is a `RollbackError`", () => expect(error).toBeInstanceOf(RollbackError));
+
+    it("has a name", () => expect(error.name).toBe("RollbackError"));
+
+    it("has a message", () => expect(error.message).toBe("Optimistic update was rolled back: Some error"));
+
+    it("has the id", () => expect(error.id).toBe("some"));
+
+    it("has the cause", () => expect(error.cause).toEqual(new Error("Some error")));
+});
+
+describe("InvalidEntityError", () => {
+    let error: InvalidEntityError<{ name: string }>;
+
+    beforeEach(
+        () =>
+            (error = new InvalidEntityError([
+                { field: "name", message: "Name is required." },
+                { message: "Entity is incomplete." },
+            ])),
+    );
+
+    it("is an `InvalidEntityError`", () => expect(error).toBeInstanceOf(InvalidEntityError));
+
+    it("has a name", () => expect(error.name).toBe("InvalidEntityError"));
+
+    it("has a message", () =>
+        expect(error.message).toBe("Entity is invalid: Name is required., Entity is incomplete."));
+
+    it("has the validation errors", () => expect(error.errors).toHaveLength(2));
+});
+
+describe("FetchError", () => {
+    let error: FetchError;
+
+    beforeEach(() => (error = new FetchError(new Error("Some error"))));
+
+    it("is a `FetchError`", () => expect(error).toBeInstanceOf(FetchError));
+
+    it("has a name", () => expect(error.name).toBe("FetchError"));
+
+    it("has the message of the cause", () => expect(error.message).toBe("Some error"));
+
+    it("has the cause", () => expect(error.cause).toEqual(new Error("Some error")));
+
+    it("supports causes that aren't errors", () => expect(new FetchError(undefined).message).toBe("undefined"));
+});
+
+describe("IdMismatchError", () => {
+    let error: IdMismatchError;
+
+    beforeEach(() => (error = new IdMismatchError("some", "other")));
+
+    it("is an `IdMismatchError`", () => expect(error).toBeInstanceOf(IdMismatchError));
+
+    it("has a name", () => expect(error.name).toBe("IdMismatchError"));
+
+    it("has a message", () => expect(error.message).toBe("Fetched entity has different id than requested."));
+
+    it("has both ids", () => expect(error).toMatchObject({ requestedId: "some", fetchedId: "other" }));
+});
+
+describe("EvictedError", () => {
+    it("is an `EvictedError`", () => expect(new EvictedError()).toBeInstanceOf(EvictedError));
+
+    it("has a name", () => expect(new EvictedError().name).toBe("EvictedError"));
+});
+
+describe("ResetError", () => {
+    it("is a `ResetError`", () => expect(new ResetError()).toBeInstanceOf(ResetError));
+
+    it("has a name", () => expect(new ResetError().name).toBe("ResetError"));
+});
+
+describe("AbortedError", () => {
+    it("is an `AbortedError`", () => expect(new AbortedError()).toBeInstanceOf(AbortedError));
+
+    it("has a name", () => expect(new AbortedError().name).toBe("AbortedError"));
+
+    it("isn't a timeout by default", () => expect(new AbortedError()).toMatchObject({ isTimeout: false }));
+
+    it("has a message for timeouts", () => expect(new AbortedError(true).message).toBe("Request timed out."));
+});
+
+describe("with bases that don't return an instance, just like classes compiled to ES5", () => {
+    afterEach(() => jest.dontMock("../src/base-error"));
+
+    it("initializes the errors on their own", () => {
+        jest.isolateModules(() => {
+            jest.doMock("../src/base-error", () => ({ BaseError: function BaseError() {} })); // eslint-disable-line
+            const errors = require("../src/errors"); // eslint-disable-line
+            expect(
+                [
+                    new errors.RollbackError("some", new Error("Some error")),
+                    new errors.InvalidEntityError([]),
+                    new errors.FetchError(new Error("Some error")),
+                    new errors.IdMismatchError("some", "other"),
+                    new errors.EvictedError(),
+                    new errors.ResetError(),
+                    new errors.AbortedError(),
+                ].map(({ name }) => name),
+            ).toEqual([
+                "RollbackError",
+                "InvalidEntityError",
+                "FetchError",
+                "IdMismatchError",
+                "EvictedError",
+                "ResetError",
+                "AbortedError",
+            ]);
+        });
+    });
+
+    it("restores the prototype of errors initialized on their own", () => {
+        jest.isolateModules(() => {
+            const { Error: OriginalError } = global;
+            global.Error = function Error() {} as unknown as ErrorConstructor; // eslint-disable-line
+            try {
+                const { BaseError } = require("../src/base-error") as typeof import("../src/base-error"); // eslint-disable-line
+                class TestError extends BaseError {}
+                expect(new TestError("Some error")).toBeInstanceOf(TestError);
+            } finally {
+                global.Error = OriginalError;
+            }
+        });
+    });
+});
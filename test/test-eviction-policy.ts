@@ -0,0 +1,55 @@
+import { EvictionPolicy, FifoEvictionPolicy, LfuEvictionPolicy, LruEvictionPolicy } from "../src";
+
+describe.each([
+    ["FifoEvictionPolicy", () => new FifoEvictionPolicy<string>(), ["a", "b", "c"]],
+    ["LruEvictionPolicy", () => new LruEvictionPolicy<string>(), ["c", "a", "b"]],
+    ["LfuEvictionPolicy", () => new LfuEvictionPolicy<string>(), ["c", "b", "a"]],
+])("%s", (_name: string, createPolicy: () => EvictionPolicy<string>, expectedOrder: string[]) => {
+    let policy: EvictionPolicy<string>;
+
+    beforeEach(() => {
+        policy = createPolicy();
+    });
+
+    it("has no candidates initially", () => expect(policy.candidates()).toEqual([]));
+
+    describe("after adding and accessing some ids", () => {
+        beforeEach(() => {
+            policy.added("a");
+            policy.added("b");
+            policy.added("c");
+            policy.accessed("a");
+            policy.accessed("a");
+            policy.accessed("b");
+            policy.accessed("unknown");
+        });
+
+        it("orders the candidates", () => expect(policy.candidates()).toEqual(expectedOrder));
+
+        describe("after removing an id", () => {
+            beforeEach(() => policy.removed("a"));
+
+            it("doesn't include the id", () => expect(policy.candidates()).not.toContain("a"));
+        });
+
+        describe("after resetting", () => {
+            beforeEach(() => policy.reset());
+
+            it("has no candidates", () => expect(policy.candidates()).toEqual([]));
+        });
+    });
+});
+
+describe("LfuEvictionPolicy", () => {
+    let policy: LfuEvictionPolicy<string>;
+
+    beforeEach(() => {
+        policy = new LfuEvictionPolicy();
+        policy.added("a");
+        policy.added("b");
+        policy.accessed("a");
+        policy.added("a");
+    });
+
+    it("keeps the access count when adding an id again", () => expect(policy.candidates()).toEqual(["b", "a"]));
+});
@@ -1,8 +1,30 @@
 (global as any).setTimeout = (callback: () => void) => callback(); // eslint-disable-line
 
-import { autorun } from "mobx";
-
-import { IndexableRepository } from "../src";
+import { autorun, runInAction } from "mobx";
+
+import {
+    IndexableRepository,
+    RetryPolicy,
+    DebugEvent,
+    RequestStatus,
+    MergeStrategy,
+    RollbackError,
+    ConflictResolution,
+    BatchSaveMode,
+    BatchSaveResult,
+    Validator,
+    AsyncValidator,
+    InvalidEntityError,
+    InMemoryMutationQueueStorage,
+    MutationQueueStatus,
+    QueuedMutation,
+    FetchError,
+    IdMismatchError,
+    EvictedError,
+    ResetError,
+    AbortedError,
+    LruEvictionPolicy,
+} from "../src";
 
 describe("IndexableRepository", () => {
     interface TestEntity {
@@ -32,6 +54,16 @@ describe("IndexableRepository", () => {
 
     it("does not report any id as loaded", () => expect(repository.isLoaded("some")).toBe(false));
 
+    it("reports status `NONE` for any id", () => expect(repository.statusOf("some")).toEqual({ status: RequestStatus.NONE }));
+
+    it("reports no error for any id", () => expect(repository.errorOf("some")).toBeUndefined());
+
+    describe("after adding an entity", () => {
+        beforeEach(() => repository.add({ id: "some", value: "value-some" }));
+
+        it("reports status `DONE`", () => expect(repository.statusOf("some")).toEqual({ status: RequestStatus.DONE }));
+    });
+
     describe("with the loading function throwing an error", () => {
         beforeEach(() =>
             spyFetchById.mockImplementation(() => {
@@ -77,6 +109,62 @@ describe("IndexableRepository", () => {
                 });
             });
         });
+
+        describe("after loading failed", () => {
+            beforeEach(async () => await repository.byIdAsync("some"));
+
+            it("reports status `ERROR` with the error", () =>
+                expect(repository.statusOf("some")).toEqual({
+                    status: RequestStatus.ERROR,
+                    error: new Error("Some error"),
+                }));
+
+            it("reports the error", () => expect(repository.errorOf("some")).toEqual(new Error("Some error")));
+
+            it("wraps the error in a `FetchError`", () => {
+                const error = repository.errorOf("some") as FetchError;
+                expect(error).toBeInstanceOf(FetchError);
+                expect(error.cause).toEqual(new Error("Some error"));
+            });
+
+            describe("`byIdAsync`", () => {
+                let returnValue: TestEntity | undefined;
+
+                beforeEach(async () => (returnValue = await repository.byIdAsync("some")));
+
+                it("resolves to `undefined`", () => expect(returnValue).toBeUndefined());
+
+                it("doesn't call `fetchById` again", () => expect(spyFetchById).toBeCalledTimes(1));
+            });
+
+            describe("`retry`", () => {
+                let returnValue: TestEntity | undefined;
+
+                beforeEach(async () => {
+                    spyFetchById.mockImplementation((id: string) => ({ id, value: `value-${id}` }));
+                    returnValue = await repository.retry("some");
+                });
+
+                it("resolves to the entity", () => expect(returnValue).toEqual({ id: "some", value: "value-some" }));
+
+                it("calls `fetchById` again", () => expect(spyFetchById).toBeCalledTimes(2));
+
+                describe("a consecutive call to `retry`", () => {
+                    beforeEach(async () => await repository.retry("some"));
+
+                    it("doesn't call `fetchById` again", () => expect(spyFetchById).toBeCalledTimes(2));
+                });
+            });
+
+            describe("`reloadId`", () => {
+                beforeEach(async () => {
+                    spyFetchById.mockImplementation((id: string) => ({ id, value: `value-${id}` }));
+                    await repository.reloadId("some");
+                });
+
+                it("calls `fetchById` again", () => expect(spyFetchById).toBeCalledTimes(2));
+            });
+        });
     });
 
     describe("with the entity not being present", () => {
@@ -90,11 +178,48 @@ describe("IndexableRepository", () => {
 
                 it("returns `undefined`", () => expect(returnValue).toBeUndefined());
 
+                it("reports status `NOT_FOUND`", () =>
+                    expect(repository.statusOf("some")).toEqual({ status: RequestStatus.NOT_FOUND }));
+
                 it("calls `fetchById` with the id", () => expect(spyFetchById).toBeCalledWith("some"));
 
                 it("calls `fetchById` once", () => expect(spyFetchById).toBeCalledTimes(1));
             });
+
+            describe("concurrent calls", () => {
+                let returnValues: (TestEntity | undefined)[];
+
+                beforeEach(
+                    async () =>
+                        (returnValues = await Promise.all([
+                            repository.byIdAsync("some"),
+                            repository.byIdAsync("some"),
+                        ])),
+                );
+
+                it("all return `undefined`", () => expect(returnValues).toEqual([undefined, undefined]));
+
+                it("calls `fetchById` once", () => expect(spyFetchById).toBeCalledTimes(1));
+            });
+        });
+    });
+
+    describe("with the loading function rejecting with `undefined`", () => {
+        let waitForIdPromise: Promise<void>;
+
+        beforeEach(async () => {
+            spyFetchById.mockImplementation(() => {
+                throw undefined; // eslint-disable-line no-throw-literal
+            });
+            waitForIdPromise = repository.waitForId("some");
+            await repository.byIdAsync("some");
+            await waitForIdPromise.catch(() => undefined);
         });
+
+        it("reports status `ERROR`", () => expect(repository.statusOf("some").status).toBe(RequestStatus.ERROR));
+
+        it("rejects the waiting Promise with a `FetchError`", () =>
+            expect(waitForIdPromise).rejects.toEqual(new FetchError(undefined)));
     });
 
     describe("with the entity having the wrong id", () => {
@@ -115,7 +240,13 @@ describe("IndexableRepository", () => {
 
                 it("returns `undefined`", () => expect(returnValue).toBeUndefined());
 
-                it("calls the error listener", () => expect(spyError).toHaveBeenCalledWith(expect.any(Error)));
+                it("calls the error listener once", () =>
+                    expect(spyError.mock.calls).toEqual([[expect.any(IdMismatchError)]]));
+
+                it("reports an `IdMismatchError`", () => {
+                    expect(repository.errorOf("some")).toBeInstanceOf(IdMismatchError);
+                    expect(repository.errorOf("some")).toMatchObject({ requestedId: "some", fetchedId: "other" });
+                });
             });
         });
     });
@@ -380,6 +511,10 @@ describe("IndexableRepository", () => {
                     value: "value-some",
                 }));
 
+            it("reports status `DONE`", () => expect(repository.statusOf("some")).toEqual({ status: RequestStatus.DONE }));
+
+            it("reports no error", () => expect(repository.errorOf("some")).toBeUndefined());
+
             it("calls `fetchById` with the id", () => expect(spyFetchById).toBeCalledWith("some"));
 
             it("calls `fetchById` once", () => expect(spyFetchById).toBeCalledTimes(1));
@@ -695,3 +830,3566 @@ describe("waitForIdle", () => {
         });
     });
 });
+
+describe("IndexableRepository with `fetchByIds`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchByIds: jest.Mock<TestEntity[] | Promise<TestEntity[]>, [string[]]>;
+    let spyFetchById: jest.Mock<TestEntity, [string]>;
+    let repository: TestRepository;
+    let signals: AbortSignal[];
+    let scheduled: (() => void)[];
+    let originalSetTimeout: typeof setTimeout;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected maxBatchSize = 3;
+
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return spyFetchById(id);
+        }
+
+        protected async fetchByIds(ids: string[], signal: AbortSignal): Promise<TestEntity[]> {
+            signals.push(signal);
+            return spyFetchByIds(ids);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    async function runScheduled(): Promise<void> {
+        while (scheduled.length > 0) {
+            scheduled.shift()!();
+            await new Promise((resolve) => originalSetTimeout(resolve));
+        }
+    }
+
+    beforeEach(() => {
+        originalSetTimeout = global.setTimeout;
+        scheduled = [];
+        signals = [];
+        (global as any).setTimeout = (callback: () => void) => scheduled.push(callback); // eslint-disable-line
+        spyFetchById = jest.fn();
+        spyFetchByIds = jest.fn((ids: string[]) =>
+            ids.filter((id) => id !== "missing").map((id) => ({ id, value: `value-${id}` })),
+        );
+        repository = new TestRepository();
+    });
+
+    afterEach(() => {
+        global.setTimeout = originalSetTimeout;
+    });
+
+    describe("requesting multiple ids within one tick", () => {
+        beforeEach(async () => {
+            repository.byId("a");
+            repository.byId("b");
+            repository.byId("missing");
+            repository.byId("a");
+            repository.byId("c");
+            await runScheduled();
+        });
+
+        it("calls `fetchByIds` in batches of the maximum size", () =>
+            expect(spyFetchByIds.mock.calls).toEqual([[["a", "b", "missing"]], [["c"]]]));
+
+        it("doesn't call `fetchById`", () => expect(spyFetchById).not.toHaveBeenCalled());
+
+        test.each(["a", "b", "c"])("loads %p", (id) =>
+            expect(repository.byId(id)).toEqual({ id, value: `value-${id}` }),
+        );
+
+        it("knows the missing id", () => expect(repository.isKnown("missing")).toBe(true));
+
+        it("doesn't load the missing id", () => expect(repository.isLoaded("missing")).toBe(false));
+    });
+
+    describe("reloading an id within the same tick", () => {
+        let settled: (TestEntity | undefined)[];
+
+        beforeEach(async () => {
+            settled = [];
+            repository.byIdAsync("a").then((entity) => settled.push(entity));
+            repository.reloadId("a").then((entity) => settled.push(entity));
+            await runScheduled();
+        });
+
+        it("calls `fetchByIds` once", () => expect(spyFetchByIds.mock.calls).toEqual([[["a"]]]));
+
+        it("settles both calls", () => expect(settled).toHaveLength(2));
+
+        it("loads the entity", () => expect(repository.byId("a")).toEqual({ id: "a", value: "value-a" }));
+    });
+
+    describe("after evicting ids before the batch was flushed", () => {
+        beforeEach(() => {
+            repository.byIdAsync("a").catch(() => undefined);
+            repository.byIdAsync("b").catch(() => undefined);
+        });
+
+        describe("after evicting some ids", () => {
+            beforeEach(async () => {
+                repository.evict("a");
+                await runScheduled();
+            });
+
+            it("only fetches the other ids", () => expect(spyFetchByIds.mock.calls).toEqual([[["b"]]]));
+
+            it("doesn't load the evicted id", () => expect(repository.isLoaded("a")).toBe(false));
+        });
+
+        describe("after evicting all ids", () => {
+            beforeEach(async () => {
+                repository.evict("a");
+                repository.evict("b");
+                await runScheduled();
+            });
+
+            it("doesn't call `fetchByIds`", () => expect(spyFetchByIds).not.toHaveBeenCalled());
+        });
+    });
+
+    describe("after evicting ids while loading them", () => {
+        beforeEach(async () => {
+            spyFetchByIds.mockImplementation(() => new Promise(() => undefined));
+            repository.byId("a");
+            repository.byId("b");
+            await runScheduled();
+        });
+
+        describe("after evicting some ids", () => {
+            beforeEach(() => repository.evict("a"));
+
+            it("doesn't abort the signal", () => expect(signals[0].aborted).toBe(false));
+        });
+
+        describe("after evicting all ids", () => {
+            beforeEach(() => {
+                repository.evict("a");
+                repository.evict("b");
+            });
+
+            it("aborts the signal", () => expect(signals[0].aborted).toBe(true));
+        });
+    });
+
+    describe("with `fetchByIds` throwing an error", () => {
+        let spyError: jest.Mock<undefined, [Error]>;
+        let waitForIdPromises: Promise<void>[];
+
+        beforeEach(async () => {
+            spyFetchByIds.mockImplementation(() => {
+                throw new Error("Some error");
+            });
+            spyError = jest.fn();
+            repository.addErrorListener(spyError);
+            waitForIdPromises = [repository.waitForId("a"), repository.waitForId("b")];
+            waitForIdPromises.forEach((promise) => promise.catch(() => undefined));
+            repository.byId("a");
+            repository.byId("b");
+            await runScheduled();
+        });
+
+        it("calls `fetchByIds` once", () => expect(spyFetchByIds).toHaveBeenCalledTimes(1));
+
+        it("reports the error for every id", () => expect(spyError).toHaveBeenCalledTimes(2));
+
+        test.each([0, 1])("rejects the waiting Promise %p", (index) =>
+            expect(waitForIdPromises[index]).rejects.toEqual(expect.any(Error)),
+        );
+    });
+});
+
+describe("IndexableRepository with `maxAge`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchById: jest.Mock<TestEntity | undefined, [string]>;
+    let repository: TestRepository;
+    let timers: { callback: () => void; delay?: number }[];
+    let originalSetTimeout: typeof setTimeout;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected maxAge = 1000;
+
+        protected async fetchById(id: string): Promise<TestEntity | undefined> {
+            return spyFetchById(id);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+
+        protected maxAgeOf(entity: TestEntity): number | undefined {
+            return entity.id === "forever" ? undefined : super.maxAgeOf(entity);
+        }
+    }
+
+    async function runTimers(delay?: number): Promise<void> {
+        const due = timers.filter((timer) => timer.delay === delay);
+        timers = timers.filter((timer) => timer.delay !== delay);
+        due.forEach(({ callback }) => callback());
+        await new Promise((resolve) => originalSetTimeout(resolve));
+    }
+
+    beforeEach(async () => {
+        originalSetTimeout = global.setTimeout;
+        timers = [];
+        (global as any).setTimeout = (callback: () => void, delay?: number) => timers.push({ callback, delay }); // eslint-disable-line
+        let calls = 0;
+        spyFetchById = jest.fn((id: string) => ({ id, value: `value-${id}-${calls++}` }));
+        repository = new TestRepository();
+        await repository.byIdAsync("some");
+        await repository.byIdAsync("forever");
+    });
+
+    afterEach(() => {
+        global.setTimeout = originalSetTimeout;
+    });
+
+    test.each(["some", "forever"])("doesn't consider %p stale", (id) => expect(repository.isStale(id)).toBe(false));
+
+    it("schedules one timer", () => expect(timers).toEqual([{ callback: expect.any(Function), delay: 1000 }]));
+
+    describe("after the maximum age expired", () => {
+        beforeEach(() => runTimers(1000));
+
+        it("considers the entity stale", () => expect(repository.isStale("some")).toBe(true));
+
+        it("doesn't consider the entity without maximum age stale", () =>
+            expect(repository.isStale("forever")).toBe(false));
+
+        describe("`byId`", () => {
+            let returnValue: TestEntity | undefined;
+
+            beforeEach(() => (returnValue = repository.byId("some")));
+
+            it("returns the stale entity", () => expect(returnValue).toEqual({ id: "some", value: "value-some-0" }));
+
+            describe("after the background reload", () => {
+                beforeEach(() => runTimers());
+
+                it("calls `fetchById` again", () => expect(spyFetchById).toHaveBeenCalledTimes(3));
+
+                it("doesn't consider the entity stale anymore", () => expect(repository.isStale("some")).toBe(false));
+
+                it("returns the fresh entity", () =>
+                    expect(repository.byId("some")).toEqual({ id: "some", value: "value-some-2" }));
+            });
+
+            describe("after the entity was deleted in the meantime", () => {
+                beforeEach(async () => {
+                    spyFetchById.mockReturnValue(undefined);
+                    await runTimers();
+                    repository.byId("some");
+                    repository.byId("some");
+                    await runTimers();
+                });
+
+                it("doesn't call `fetchById` again", () => expect(spyFetchById).toHaveBeenCalledTimes(3));
+
+                it("evicts the entity", () => expect(repository.isLoaded("some")).toBe(false));
+
+                it("doesn't consider the entity stale", () => expect(repository.isStale("some")).toBe(false));
+
+                it("reports status `NOT_FOUND`", () =>
+                    expect(repository.statusOf("some")).toEqual({ status: RequestStatus.NOT_FOUND }));
+            });
+        });
+
+        describe("after evicting the entity", () => {
+            beforeEach(() => repository.evict("some"));
+
+            it("doesn't consider the entity stale", () => expect(repository.isStale("some")).toBe(false));
+        });
+
+        describe("after resetting the repository", () => {
+            beforeEach(() => repository.reset());
+
+            it("doesn't consider the entity stale", () => expect(repository.isStale("some")).toBe(false));
+        });
+    });
+
+    describe("after evicting the entity before the maximum age expired", () => {
+        beforeEach(async () => {
+            repository.evict("some");
+            await runTimers(1000);
+        });
+
+        it("doesn't consider the entity stale", () => expect(repository.isStale("some")).toBe(false));
+    });
+});
+
+describe("IndexableRepository with `maxEntries`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchById: jest.Mock<TestEntity, [string]>;
+    let repository: TestRepository;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected maxEntries = 2;
+
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return spyFetchById(id);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        spyFetchById = jest.fn((id: string) => ({ id, value: `value-${id}` }));
+        repository = new TestRepository();
+        await repository.byIdAsync("a");
+        await repository.byIdAsync("b");
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it("doesn't determine eviction candidates while within `maxEntries`", () => {
+        const spyCandidates = jest.spyOn(LruEvictionPolicy.prototype, "candidates");
+        repository.add({ id: "a", value: "changed" });
+        expect(spyCandidates).not.toHaveBeenCalled();
+    });
+
+    describe("after accessing the first entity and adding a third one", () => {
+        beforeEach(async () => {
+            repository.byId("a");
+            await repository.byIdAsync("c");
+        });
+
+        it("evicts the least recently used entity", () => expect([...repository.entities.keys()]).toEqual(["a", "c"]));
+
+        it("forgets about the evicted entity", () => expect(repository.isKnown("b")).toBe(false));
+    });
+
+    describe("with a mutable copy of the first entity", () => {
+        beforeEach(async () => {
+            repository.mutableCopyById("batch", "a");
+            await repository.byIdAsync("c");
+        });
+
+        it("doesn't evict the protected entity", () => expect([...repository.entities.keys()]).toEqual(["a", "c"]));
+    });
+
+    describe("while waiting for the first entity", () => {
+        beforeEach(async () => {
+            repository.waitForId("a");
+            await repository.byIdAsync("c");
+        });
+
+        it("doesn't evict the protected entity", () => expect([...repository.entities.keys()]).toEqual(["a", "c"]));
+    });
+
+    describe("with all other entities being protected", () => {
+        beforeEach(async () => {
+            repository.mutableCopyById("batch", "a");
+            repository.mutableCopyById("batch", "b");
+            await repository.byIdAsync("c");
+        });
+
+        it("exceeds the maximum size", () => expect([...repository.entities.keys()]).toEqual(["a", "b", "c"]));
+    });
+
+    describe("after resetting the repository and adding three entities", () => {
+        beforeEach(async () => {
+            repository.reset();
+            await repository.byIdAsync("c");
+            await repository.byIdAsync("d");
+            await repository.byIdAsync("e");
+        });
+
+        it("evicts the first entity", () => expect([...repository.entities.keys()]).toEqual(["d", "e"]));
+    });
+});
+
+describe("IndexableRepository with `gcGracePeriod`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchById: jest.Mock<Promise<TestEntity>, [string]>;
+    let repository: TestRepository;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected gcGracePeriod = 0;
+
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return spyFetchById(id);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        spyFetchById = jest.fn(async (id: string) => ({ id, value: `value-${id}` }));
+        repository = new TestRepository();
+        await repository.byIdAsync("some");
+    });
+
+    describe("after an observer stopped observing the entity", () => {
+        beforeEach(() => autorun(() => repository.byId("some"))());
+
+        it("evicts the entity", () => expect(repository.isKnown("some")).toBe(false));
+    });
+
+    describe("with a mutable copy of the entity", () => {
+        beforeEach(() => {
+            repository.mutableCopyById("batch", "some");
+            autorun(() => repository.byId("some"))();
+        });
+
+        it("doesn't evict the entity", () => expect(repository.isLoaded("some")).toBe(true));
+    });
+
+    describe("after an observer stopped observing a loading entity", () => {
+        beforeEach(() => {
+            spyFetchById.mockImplementation(() => new Promise(() => undefined));
+            autorun(() => repository.byId("other"))();
+        });
+
+        it("doesn't forget about the entity", () => expect(repository.isKnown("other")).toBe(true));
+    });
+});
+
+describe("IndexableRepository with a `retryPolicy`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchById: jest.Mock<TestEntity, [string]>;
+    let repository: TestRepository;
+    let returnValue: TestEntity | undefined;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected retryPolicy = new RetryPolicy({ maxAttempts: 3 });
+
+        public attemptsOf(id: string): number {
+            return this.stateById.get(id).attempts;
+        }
+
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return spyFetchById(id);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        spyFetchById = jest
+            .fn()
+            .mockImplementationOnce(() => {
+                throw new Error("Some error");
+            })
+            .mockImplementationOnce((id: string) => ({ id, value: `value-${id}` }));
+        repository = new TestRepository();
+        returnValue = await repository.byIdAsync("some");
+    });
+
+    it("resolves to the entity", () => expect(returnValue).toEqual({ id: "some", value: "value-some" }));
+
+    it("calls `fetchById` twice", () => expect(spyFetchById).toBeCalledTimes(2));
+
+    it("counts both attempts", () => expect(repository.attemptsOf("some")).toBe(2));
+
+    describe("with `fetchById` failing twice", () => {
+        beforeEach(async () => {
+            spyFetchById.mockClear().mockImplementation(() => {
+                throw new Error("Some error");
+            });
+            await repository.byIdAsync("other").catch(() => undefined);
+        });
+
+        it("counts all attempts", () => expect(repository.attemptsOf("other")).toBe(3));
+    });
+
+    describe("after evicting an entity while waiting for the next attempt", () => {
+        let originalSetTimeout: typeof setTimeout;
+
+        beforeEach(async () => {
+            const timers: (() => void)[] = [];
+            originalSetTimeout = global.setTimeout;
+            (global as any).setTimeout = (callback: () => void) => timers.push(callback); // eslint-disable-line
+            spyFetchById.mockClear().mockImplementation(() => {
+                throw new Error("Some error");
+            });
+            const loading = repository.byIdAsync("other");
+            await new Promise((resolve) => process.nextTick(resolve));
+            repository.evict("other");
+            timers.forEach((callback) => callback());
+            await loading;
+        });
+
+        afterEach(() => {
+            global.setTimeout = originalSetTimeout;
+        });
+
+        it("doesn't call `fetchById` again", () => expect(spyFetchById).toBeCalledTimes(1));
+    });
+});
+
+describe("IndexableRepository with `AbortSignal`s", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let requests: { id: string; signal: AbortSignal; resolve: (entity: TestEntity) => void }[];
+    let repository: TestRepository;
+    let spyError: jest.Mock<undefined, [Error]>;
+    let spyDebug: jest.Mock<undefined, [DebugEvent]>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected async fetchById(id: string, signal: AbortSignal): Promise<TestEntity> {
+            return new Promise((resolve) => requests.push({ id, signal, resolve }));
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    async function resolveRequest(index: number, value: string): Promise<void> {
+        const { id, resolve } = requests[index];
+        resolve({ id, value });
+        await new Promise((done) => setTimeout(done));
+    }
+
+    beforeEach(() => {
+        requests = [];
+        repository = new TestRepository();
+        spyError = jest.fn();
+        repository.addErrorListener(spyError);
+        spyDebug = jest.fn();
+        repository.addDebugListener(spyDebug);
+        repository.byId("some");
+    });
+
+    it("passes a signal to `fetchById`", () => expect(requests[0].signal.aborted).toBe(false));
+
+    it("reports status `IN_PROGRESS`", () =>
+        expect(repository.statusOf("some")).toEqual({ status: RequestStatus.IN_PROGRESS }));
+
+    describe("after evicting the loading entity", () => {
+        beforeEach(async () => {
+            repository.evict("some");
+            await resolveRequest(0, "late");
+        });
+
+        it("aborts the signal", () => expect(requests[0].signal.aborted).toBe(true));
+
+        it("doesn't add the late result", () => expect(repository.isLoaded("some")).toBe(false));
+
+        it("doesn't call the error listener", () => expect(spyError).not.toHaveBeenCalled());
+
+        it("reports the dropped response", () =>
+            expect(spyDebug).toHaveBeenCalledWith({
+                type: "dropped-response",
+                key: "some",
+                reason: new Error("Request was aborted."),
+            }));
+
+        it("aborts with an `AbortedError`", () => expect(requests[0].signal.reason).toBeInstanceOf(AbortedError));
+    });
+
+    describe("while waiting for the loading entity", () => {
+        let waitForIdPromise: Promise<void>;
+
+        beforeEach(() => {
+            waitForIdPromise = repository.waitForId("some");
+        });
+
+        it("rejects with an `EvictedError` after evicting the entity", () => {
+            repository.evict("some");
+            return expect(waitForIdPromise).rejects.toBeInstanceOf(EvictedError);
+        });
+
+        it("rejects with a `ResetError` after resetting the repository", () => {
+            repository.reset();
+            return expect(waitForIdPromise).rejects.toBeInstanceOf(ResetError);
+        });
+    });
+
+    describe("after removing the debug listener and evicting the loading entity", () => {
+        beforeEach(async () => {
+            repository.removeDebugListener(spyDebug);
+            repository.evict("some");
+            await resolveRequest(0, "late");
+        });
+
+        it("doesn't call the debug listener", () => expect(spyDebug).not.toHaveBeenCalled());
+    });
+
+    describe("after resetting the repository", () => {
+        beforeEach(async () => {
+            repository.reset();
+            await resolveRequest(0, "late");
+        });
+
+        it("aborts the signal", () => expect(requests[0].signal.aborted).toBe(true));
+
+        it("doesn't add the late result", () => expect(repository.isLoaded("some")).toBe(false));
+    });
+
+    describe("after reloading the loading entity", () => {
+        let reloadPromise: Promise<TestEntity>;
+
+        beforeEach(async () => {
+            reloadPromise = repository.reloadId("some");
+            await resolveRequest(1, "reloaded");
+            await resolveRequest(0, "late");
+        });
+
+        it("aborts the first signal", () => expect(requests[0].signal.aborted).toBe(true));
+
+        it("doesn't abort the second signal", () => expect(requests[1].signal.aborted).toBe(false));
+
+        it("resolves to the reloaded entity", () =>
+            expect(reloadPromise).resolves.toEqual({ id: "some", value: "reloaded" }));
+
+        it("keeps the reloaded entity", () => expect(repository.byId("some")).toEqual({ id: "some", value: "reloaded" }));
+
+        it("reports the dropped response once", () => expect(spyDebug).toHaveBeenCalledTimes(1));
+    });
+});
+
+describe("IndexableRepository with a `requestTimeout`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchById: jest.Mock<Promise<TestEntity>, [string, AbortSignal]>;
+    let repository: TestRepository;
+    let spyError: jest.Mock<undefined, [Error]>;
+    let timers: { callback: () => void; delay?: number }[];
+    let originalSetTimeout: typeof setTimeout;
+    let waitForIdPromise: Promise<void>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected requestTimeout = 1000;
+
+        protected async fetchById(id: string, signal: AbortSignal): Promise<TestEntity> {
+            return spyFetchById(id, signal);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        originalSetTimeout = global.setTimeout;
+        timers = [];
+        (global as any).setTimeout = (callback: () => void, delay?: number) => timers.push({ callback, delay }); // eslint-disable-line
+        spyFetchById = jest.fn(
+            (_id: string, signal: AbortSignal) =>
+                new Promise<TestEntity>((_resolve, reject) =>
+                    signal.addEventListener("abort", () => reject(signal.reason)),
+                ),
+        );
+        repository = new TestRepository();
+        spyError = jest.fn();
+        repository.addErrorListener(spyError);
+        waitForIdPromise = repository.waitForId("some");
+        repository.byIdAsync("some");
+        timers.filter(({ delay }) => delay === 1000).forEach(({ callback }) => callback());
+        await waitForIdPromise.catch(() => undefined);
+    });
+
+    afterEach(() => {
+        global.setTimeout = originalSetTimeout;
+    });
+
+    it("rejects the waiting Promise", () => expect(waitForIdPromise).rejects.toEqual(new Error("Request timed out.")));
+
+    it("rejects with an `AbortedError`", () =>
+        expect(waitForIdPromise).rejects.toMatchObject({ name: "AbortedError", isTimeout: true }));
+
+    it("doesn't call the error listener", () => expect(spyError).not.toHaveBeenCalled());
+
+    it("doesn't know the entity", () => expect(repository.isKnown("some")).toBe(false));
+
+    describe("`byIdAsync`", () => {
+        beforeEach(() => {
+            spyFetchById.mockImplementation(async (id: string) => ({ id, value: `value-${id}` }));
+        });
+
+        it("loads the entity again", async () => {
+            await expect(repository.byIdAsync("some")).resolves.toEqual({ id: "some", value: "value-some" });
+            expect(spyFetchById).toHaveBeenCalledTimes(2);
+        });
+    });
+});
+
+describe("IndexableRepository with a `mergeStrategy`", () => {
+    interface TestEntity {
+        id: string;
+        name?: string;
+        details?: { description?: string; stars?: number };
+    }
+
+    let repository: IndexableRepository<TestEntity>;
+    let existing: TestEntity;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        constructor(protected mergeStrategy: MergeStrategy) {
+            super();
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    function addEntities(): void {
+        repository.add({ id: "some", name: "Some", details: { description: "Some entity" } });
+        existing = repository.entities.get("some")!;
+        repository.add({ id: "some", details: { stars: 3 } });
+    }
+
+    describe("by default", () => {
+        beforeEach(() => {
+            repository = new (class extends IndexableRepository<TestEntity> {
+                protected async fetchById(): Promise<TestEntity> {
+                    throw new Error("Should not be reached.");
+                }
+
+                protected extractId(entity: TestEntity): string {
+                    return entity.id;
+                }
+            })();
+            addEntities();
+        });
+
+        it("replaces the entity", () =>
+            expect(repository.entities.get("some")).toEqual({ id: "some", details: { stars: 3 } }));
+
+        it("doesn't keep the instance", () => expect(repository.entities.get("some")).not.toBe(existing));
+    });
+
+    describe("`REPLACE`", () => {
+        beforeEach(() => {
+            repository = new TestRepository(MergeStrategy.REPLACE);
+            addEntities();
+        });
+
+        it("replaces the entity", () => expect(repository.entities.get("some")).not.toBe(existing));
+    });
+
+    describe("`SHALLOW_MERGE`", () => {
+        beforeEach(() => {
+            repository = new TestRepository(MergeStrategy.SHALLOW_MERGE);
+            addEntities();
+        });
+
+        it("keeps the instance", () => expect(repository.entities.get("some")).toBe(existing));
+
+        it("merges the top-level properties", () =>
+            expect(existing).toEqual({ id: "some", name: "Some", details: { stars: 3 } }));
+    });
+
+    describe("`DEEP_MERGE`", () => {
+        let calls: (string | undefined)[];
+
+        beforeEach(() => {
+            repository = new TestRepository(MergeStrategy.DEEP_MERGE);
+            repository.add({ id: "some", name: "Some", details: { description: "Some entity" } });
+            existing = repository.entities.get("some")!;
+            calls = [];
+            autorun(() => calls.push(existing.name));
+            repository.add({ id: "some", name: "Other", details: { stars: 3 } });
+        });
+
+        it("keeps the instance", () => expect(repository.entities.get("some")).toBe(existing));
+
+        it("merges nested properties", () =>
+            expect(existing).toEqual({ id: "some", name: "Other", details: { description: "Some entity", stars: 3 } }));
+
+        it("notifies observers of the instance", () => expect(calls).toEqual(["Some", "Other"]));
+    });
+
+    describe("with a custom `mergeEntity`", () => {
+        beforeEach(() => {
+            repository = new (class extends TestRepository {
+                protected mergeEntity(existing: TestEntity, incoming: TestEntity): TestEntity {
+                    existing.name = `${existing.name} & ${incoming.details!.stars}`;
+                    return existing;
+                }
+            })(MergeStrategy.REPLACE);
+            addEntities();
+        });
+
+        it("merges as specified", () =>
+            expect(repository.entities.get("some")).toEqual({
+                id: "some",
+                name: "Some & 3",
+                details: { description: "Some entity" },
+            }));
+    });
+});
+
+describe("IndexableRepository with `deserialize`", () => {
+    interface TestEntityJson {
+        id: string;
+        value: string;
+    }
+
+    class TestEntity {
+        public id: string;
+        public value: string;
+
+        constructor({ id, value }: TestEntityJson) {
+            this.id = id;
+            this.value = value;
+        }
+    }
+
+    let repository: TestRepository;
+
+    class TestRepository extends IndexableRepository<TestEntity, string, string, TestEntityJson> {
+        protected async fetchById(id: string): Promise<TestEntityJson> {
+            return { id, value: `value-${id}` };
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+
+        protected deserialize(raw: TestEntityJson): TestEntity {
+            return new TestEntity(raw);
+        }
+
+        protected serialize({ id, value }: TestEntity): TestEntityJson {
+            return { id, value };
+        }
+
+        public toJson(id: string): TestEntityJson {
+            return this.serialize(this.entities.get(id)!);
+        }
+    }
+
+    class BatchedTestRepository extends TestRepository {
+        protected maxBatchSize = 1;
+
+        protected async fetchByIds(ids: string[]): Promise<TestEntityJson[]> {
+            return ids.map((id) => ({ id, value: `batched-${id}` }));
+        }
+    }
+
+    beforeEach(() => {
+        repository = new TestRepository();
+    });
+
+    describe("`byIdAsync`", () => {
+        let returnValue: TestEntity | undefined;
+
+        beforeEach(async () => (returnValue = await repository.byIdAsync("some")));
+
+        it("resolves to the deserialized entity", () => expect(returnValue).toBeInstanceOf(TestEntity));
+
+        it("resolves to the entity's values", () => expect(returnValue).toEqual({ id: "some", value: "value-some" }));
+
+        it("serializes the entity", () => expect(repository.toJson("some")).toEqual({ id: "some", value: "value-some" }));
+    });
+
+    describe("`add`", () => {
+        beforeEach(() => repository.add({ id: "some", value: "added" }));
+
+        it("adds the deserialized entity", () => expect(repository.byId("some")).toBeInstanceOf(TestEntity));
+    });
+
+    describe("with `fetchByIds`", () => {
+        let returnValue: TestEntity | undefined;
+
+        beforeEach(async () => {
+            repository = new BatchedTestRepository();
+            returnValue = await repository.byIdAsync("some");
+        });
+
+        it("resolves to the deserialized entity", () => expect(returnValue).toBeInstanceOf(TestEntity));
+
+        it("resolves to the entity's values", () => expect(returnValue).toEqual({ id: "some", value: "batched-some" }));
+    });
+
+    describe("by default", () => {
+        class DefaultTestRepository extends IndexableRepository<TestEntityJson> {
+            protected async fetchById(id: string): Promise<TestEntityJson> {
+                return { id, value: `value-${id}` };
+            }
+
+            protected extractId(entity: TestEntityJson): string {
+                return entity.id;
+            }
+
+            public toJson(id: string): TestEntityJson {
+                return this.serialize(this.entities.get(id)!);
+            }
+        }
+
+        let defaultRepository: DefaultTestRepository;
+
+        beforeEach(async () => {
+            defaultRepository = new DefaultTestRepository();
+            await defaultRepository.byIdAsync("some");
+        });
+
+        it("uses the payload as entity", () => expect(defaultRepository.byId("some")).not.toBeInstanceOf(TestEntity));
+
+        it("uses the entity as payload", () =>
+            expect(defaultRepository.toJson("some")).toBe(defaultRepository.byId("some")));
+    });
+});
+
+describe("IndexableRepository saving entities", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyPersistEntity: jest.Mock<TestEntity | undefined | Promise<TestEntity>, [TestEntity]>;
+    let spyCreateEntity: jest.Mock<TestEntity | undefined, [TestEntity]>;
+    let spyDeleteEntity: jest.Mock<undefined, [string]>;
+    let spyError: jest.Mock<undefined, [Error]>;
+    let repository: IndexableRepository<TestEntity>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, value: `value-${id}` };
+        }
+
+        protected async persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return spyPersistEntity(raw);
+        }
+
+        protected async createEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return spyCreateEntity(raw);
+        }
+
+        protected async deleteEntity(id: string): Promise<void> {
+            return spyDeleteEntity(id);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    class ReadOnlyTestRepository extends IndexableRepository<TestEntity> {
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, value: `value-${id}` };
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(() => {
+        spyPersistEntity = jest.fn((raw: TestEntity) => ({ ...raw, value: `${raw.value} (saved)` }));
+        spyCreateEntity = jest.fn((raw: TestEntity) => ({ ...raw, id: "created" }));
+        spyDeleteEntity = jest.fn();
+        spyError = jest.fn();
+        repository = new TestRepository();
+        repository.addErrorListener(spyError);
+    });
+
+    it("reports save status `NONE` for any id", () =>
+        expect(repository.saveStatusOf("some")).toEqual({ status: RequestStatus.NONE }));
+
+    it("refuses to save entities without a mutable copy", () =>
+        expect(repository.save("batch", "some")).rejects.toEqual(
+            new Error("No mutable copy of the entity exists in the batch."),
+        ));
+
+    describe("with a modified mutable copy of a cached entity", () => {
+        let copy: TestEntity;
+
+        beforeEach(async () => {
+            copy = (await repository.mutableCopyByIdAsync("batch", "some"))!;
+            copy.value = "changed";
+        });
+
+        describe("after evicting the cached entity", () => {
+            beforeEach(() => repository.evict("some"));
+
+            describe("`save`", () => {
+                beforeEach(() => repository.save("batch", "some"));
+
+                it("calls `persistEntity` with the copy", () =>
+                    expect(spyPersistEntity).toHaveBeenCalledWith({ id: "some", value: "changed" }));
+
+                it("doesn't call `createEntity`", () => expect(spyCreateEntity).not.toHaveBeenCalled());
+            });
+
+            describe("`saveBatch`", () => {
+                beforeEach(() => repository.saveBatch("batch"));
+
+                it("calls `persistEntity` with the copy", () =>
+                    expect(spyPersistEntity).toHaveBeenCalledWith({ id: "some", value: "changed" }));
+
+                it("doesn't call `createEntity`", () => expect(spyCreateEntity).not.toHaveBeenCalled());
+            });
+        });
+
+        describe("`save`", () => {
+            let returnValue: TestEntity;
+
+            beforeEach(async () => (returnValue = await repository.save("batch", "some")));
+
+            it("calls `persistEntity` with the copy", () =>
+                expect(spyPersistEntity).toHaveBeenCalledWith({ id: "some", value: "changed" }));
+
+            it("doesn't call `createEntity`", () => expect(spyCreateEntity).not.toHaveBeenCalled());
+
+            it("resolves to the saved entity", () => expect(returnValue).toEqual({ id: "some", value: "changed (saved)" }));
+
+            it("updates the cached entity", () =>
+                expect(repository.byId("some")).toEqual({ id: "some", value: "changed (saved)" }));
+
+            it("replaces the mutable copy", () => {
+                const newCopy = repository.mutableCopyById("batch", "some");
+                expect(newCopy).toEqual({ id: "some", value: "changed (saved)" });
+                expect(newCopy).not.toBe(repository.byId("some"));
+            });
+
+            it("reports save status `DONE`", () =>
+                expect(repository.saveStatusOf("some")).toEqual({ status: RequestStatus.DONE }));
+
+            describe("after resetting the repository", () => {
+                beforeEach(() => repository.reset());
+
+                it("reports save status `NONE`", () =>
+                    expect(repository.saveStatusOf("some")).toEqual({ status: RequestStatus.NONE }));
+            });
+        });
+
+        describe("while saving", () => {
+            let resolvePersist: (entity: TestEntity) => void;
+
+            beforeEach(() => {
+                spyPersistEntity.mockImplementation(() => new Promise((resolve) => (resolvePersist = resolve)));
+                repository.save("batch", "some");
+            });
+
+            afterEach(() => resolvePersist({ id: "some", value: "changed" }));
+
+            it("reports save status `IN_PROGRESS`", () =>
+                expect(repository.saveStatusOf("some")).toEqual({ status: RequestStatus.IN_PROGRESS }));
+        });
+
+        describe("with `persistEntity` not returning the entity", () => {
+            beforeEach(async () => {
+                spyPersistEntity.mockImplementation(() => undefined);
+                await repository.save("batch", "some");
+            });
+
+            it("updates the cached entity with the copy", () =>
+                expect(repository.byId("some")).toEqual({ id: "some", value: "changed" }));
+        });
+
+        describe("with `persistEntity` failing", () => {
+            let savePromise: Promise<TestEntity>;
+
+            beforeEach(async () => {
+                spyPersistEntity.mockImplementation(() => {
+                    throw new Error("Some error");
+                });
+                savePromise = repository.save("batch", "some");
+                await savePromise.catch(() => undefined);
+            });
+
+            it("rejects", () => expect(savePromise).rejects.toEqual(new Error("Some error")));
+
+            it("calls the error listener", () => expect(spyError).toHaveBeenCalledWith(new Error("Some error")));
+
+            it("reports save status `ERROR`", () =>
+                expect(repository.saveStatusOf("some")).toEqual({
+                    status: RequestStatus.ERROR,
+                    error: new Error("Some error"),
+                }));
+
+            it("keeps the cached entity", () =>
+                expect(repository.byId("some")).toEqual({ id: "some", value: "value-some" }));
+
+            it("keeps the mutable copy", () => expect(repository.mutableCopyById("batch", "some")).toBe(copy));
+        });
+
+        describe("without `persistEntity`", () => {
+            beforeEach(async () => {
+                repository = new ReadOnlyTestRepository();
+                await repository.mutableCopyByIdAsync("batch", "some");
+            });
+
+            it("refuses to save", () =>
+                expect(repository.save("batch", "some")).rejects.toEqual(
+                    new Error("Can't save entity as `persistEntity` is not implemented."),
+                ));
+        });
+    });
+
+    describe("with a mutable copy of a new entity", () => {
+        beforeEach(() => repository.setMutableCopy("batch", { id: "new", value: "new value" }));
+
+        describe("`save`", () => {
+            beforeEach(async () => await repository.save("batch", "new"));
+
+            it("calls `createEntity` with the copy", () =>
+                expect(spyCreateEntity).toHaveBeenCalledWith({ id: "new", value: "new value" }));
+
+            it("doesn't call `persistEntity`", () => expect(spyPersistEntity).not.toHaveBeenCalled());
+
+            it("adds the created entity", () =>
+                expect(repository.byId("created")).toEqual({ id: "created", value: "new value" }));
+
+            it("reports the created entity as done", () =>
+                expect(repository.statusOf("created")).toEqual({ status: RequestStatus.DONE }));
+
+            it("moves the mutable copy to the new id", () => {
+                expect(repository.mutableCopyBatches.get("batch")!.has("new")).toBe(false);
+                expect(repository.mutableCopyById("batch", "created")).toEqual({ id: "created", value: "new value" });
+            });
+        });
+
+        describe("without `createEntity`", () => {
+            beforeEach(() => {
+                repository = new ReadOnlyTestRepository();
+                repository.setMutableCopy("batch", { id: "new", value: "new value" });
+            });
+
+            it("refuses to save", () =>
+                expect(repository.save("batch", "new")).rejects.toEqual(
+                    new Error("Can't save entity as `createEntity` is not implemented."),
+                ));
+        });
+    });
+
+    describe("`deleteById`", () => {
+        beforeEach(async () => {
+            await repository.mutableCopyByIdAsync("batch", "some");
+            await repository.deleteById("some");
+        });
+
+        it("calls `deleteEntity` with the id", () => expect(spyDeleteEntity).toHaveBeenCalledWith("some"));
+
+        it("evicts the entity", () => expect(repository.isLoaded("some")).toBe(false));
+
+        it("removes the mutable copy", () => expect(repository.mutableCopyBatches.get("batch")!.has("some")).toBe(false));
+
+        it("reports status `NOT_FOUND`", () =>
+            expect(repository.statusOf("some")).toEqual({ status: RequestStatus.NOT_FOUND }));
+
+        it("reports save status `DONE`", () =>
+            expect(repository.saveStatusOf("some")).toEqual({ status: RequestStatus.DONE }));
+    });
+
+    describe("`deleteById` with `deleteEntity` failing", () => {
+        let deletePromise: Promise<void>;
+
+        beforeEach(async () => {
+            await repository.byIdAsync("some");
+            spyDeleteEntity.mockImplementation(() => {
+                throw new Error("Some error");
+            });
+            deletePromise = repository.deleteById("some");
+            await deletePromise.catch(() => undefined);
+        });
+
+        it("rejects", () => expect(deletePromise).rejects.toEqual(new Error("Some error")));
+
+        it("calls the error listener", () => expect(spyError).toHaveBeenCalledWith(new Error("Some error")));
+
+        it("reports save status `ERROR`", () =>
+            expect(repository.saveStatusOf("some")).toEqual({
+                status: RequestStatus.ERROR,
+                error: new Error("Some error"),
+            }));
+
+        it("keeps the entity", () => expect(repository.isLoaded("some")).toBe(true));
+    });
+
+    describe("`deleteById` without `deleteEntity`", () => {
+        beforeEach(() => (repository = new ReadOnlyTestRepository()));
+
+        it("refuses to delete", () =>
+            expect(repository.deleteById("some")).rejects.toEqual(
+                new Error("Can't delete entity as `deleteEntity` is not implemented."),
+            ));
+    });
+});
+
+describe("IndexableRepository saving while loading", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let requests: { resolve: (entity: TestEntity) => void; reject: (error: Error) => void }[];
+    let spyError: jest.Mock<undefined, [Error]>;
+    let repository: TestRepository;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected fetchById(): Promise<TestEntity> {
+            return new Promise((resolve, reject) => requests.push({ resolve, reject }));
+        }
+
+        protected async persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return { ...raw, value: `${raw.value} (saved)` };
+        }
+
+        protected async createEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return { ...raw, value: `${raw.value} (created)` };
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    class StaleTestRepository extends TestRepository {
+        protected maxAge = 1000;
+    }
+
+    async function settle(): Promise<void> {
+        await new Promise((resolve) => setTimeout(resolve));
+    }
+
+    async function loadAndEdit(): Promise<void> {
+        const loaded = repository.byIdAsync("some");
+        requests[0].resolve({ id: "some", value: "loaded" });
+        await loaded;
+        repository.mutableCopyById("batch", "some")!.value = "changed";
+    }
+
+    beforeEach(() => {
+        requests = [];
+        spyError = jest.fn();
+        repository = new TestRepository();
+        repository.addErrorListener(spyError);
+    });
+
+    describe("after saving while reloading and the reload failing", () => {
+        let reloaded: TestEntity;
+
+        beforeEach(async () => {
+            await loadAndEdit();
+            const reloadPromise = repository.reloadId("some");
+            await repository.save("batch", "some");
+            requests[1].reject(new Error("Some error"));
+            reloaded = await reloadPromise;
+        });
+
+        it("resolves the reload to the saved entity", () =>
+            expect(reloaded).toEqual({ id: "some", value: "changed (saved)" }));
+
+        it("reports status `DONE`", () => expect(repository.statusOf("some")).toEqual({ status: RequestStatus.DONE }));
+
+        it("doesn't call the error listener", () => expect(spyError).not.toHaveBeenCalled());
+    });
+
+    describe("after saving while refetching a stale entity and the refetch failing", () => {
+        beforeEach(async () => {
+            repository = new StaleTestRepository();
+            repository.addErrorListener(spyError);
+            await loadAndEdit();
+            repository.byId("some");
+            await repository.save("batch", "some");
+            requests[1].reject(new Error("Some error"));
+            await settle();
+        });
+
+        it("keeps the saved entity", () =>
+            expect(repository.entities.get("some")).toEqual({ id: "some", value: "changed (saved)" }));
+
+        it("reports status `DONE`", () => expect(repository.statusOf("some")).toEqual({ status: RequestStatus.DONE }));
+
+        it("doesn't call the error listener", () => expect(spyError).not.toHaveBeenCalled());
+    });
+
+    describe("after creating an entity that failed to load", () => {
+        let created: TestEntity;
+
+        beforeEach(async () => {
+            const loaded = repository.byIdAsync("some");
+            requests[0].reject(new Error("Some error"));
+            await loaded;
+            repository.setMutableCopy("batch", { id: "some", value: "new" });
+            created = await repository.save("batch", "some");
+        });
+
+        it("resolves to the created entity", () => expect(created).toEqual({ id: "some", value: "new (created)" }));
+
+        it("reports status `DONE`", () => expect(repository.statusOf("some")).toEqual({ status: RequestStatus.DONE }));
+    });
+});
+
+describe("IndexableRepository with optimistic updates", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+        count: number;
+    }
+
+    let requests: { raw: TestEntity; resolve: (raw?: TestEntity) => void; reject: (error: Error) => void }[];
+    let spyError: jest.Mock<undefined, [Error]>;
+    let repository: IndexableRepository<TestEntity>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected maxEntries = 1;
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return new Promise((resolve, reject) => requests.push({ raw: { ...raw }, resolve, reject }));
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    function setValue(value: string): (entity: TestEntity) => void {
+        return (entity) => (entity.value = value);
+    }
+
+    function increment(entity: TestEntity): void {
+        entity.count++;
+    }
+
+    beforeEach(() => {
+        requests = [];
+        spyError = jest.fn();
+        repository = new TestRepository();
+        repository.addErrorListener(spyError);
+        repository.add({ id: "some", value: "a", count: 0 });
+    });
+
+    it("refuses to update entities that aren't cached", () =>
+        expect(repository.updateOptimistic("other", increment)).rejects.toEqual(
+            new Error("Can't update an entity that isn't cached."),
+        ));
+
+    it("refuses to update without `persistEntity`", () => {
+        repository = new (class extends IndexableRepository<TestEntity> {
+            protected async fetchById(): Promise<TestEntity> {
+                throw new Error("Should not be reached.");
+            }
+
+            protected extractId(entity: TestEntity): string {
+                return entity.id;
+            }
+        })();
+        repository.add({ id: "some", value: "a", count: 0 });
+        return expect(repository.updateOptimistic("some", increment)).rejects.toEqual(
+            new Error("Can't update entity as `persistEntity` is not implemented."),
+        );
+    });
+
+    describe("with a custom `persist` function", () => {
+        let spyPersist: jest.Mock<Promise<undefined>, [TestEntity]>;
+
+        beforeEach(async () => {
+            spyPersist = jest.fn(async (_raw: TestEntity) => undefined);
+            await repository.updateOptimistic("some", increment, spyPersist);
+        });
+
+        it("calls the function with the updated entity", () =>
+            expect(spyPersist).toHaveBeenCalledWith({ id: "some", value: "a", count: 1 }));
+
+        it("doesn't call `persistEntity`", () => expect(requests).toHaveLength(0));
+    });
+
+    describe("with `SHALLOW_MERGE` after persisting failed", () => {
+        let entity: TestEntity;
+
+        beforeEach(async () => {
+            repository = new (class extends TestRepository {
+                protected mergeStrategy = MergeStrategy.SHALLOW_MERGE;
+            })();
+            repository.add({ id: "some", value: "a", count: 0 });
+            entity = repository.byId("some")!;
+            const updatePromise = repository.updateOptimistic("some", setValue("b"));
+            requests[0].reject(new Error("Some error"));
+            await updatePromise.catch(() => undefined);
+        });
+
+        it("keeps the cached instance", () => expect(repository.byId("some")).toBe(entity));
+
+        it("rolls back the change in place", () => expect(entity).toEqual({ id: "some", value: "a", count: 0 }));
+    });
+
+    describe("after reloading the entity while an update is pending", () => {
+        let updatePromise: Promise<TestEntity>;
+
+        beforeEach(async () => {
+            repository = new (class extends TestRepository {
+                protected async fetchById(): Promise<TestEntity> {
+                    return { id: "some", value: "changed on server", count: 3 };
+                }
+            })();
+            repository.add({ id: "some", value: "a", count: 0 });
+            updatePromise = repository.updateOptimistic("some", increment);
+            await repository.reloadId("some");
+        });
+
+        it("keeps the change", () =>
+            expect(repository.byId("some")).toEqual({ id: "some", value: "changed on server", count: 4 }));
+
+        describe("after persisting failed", () => {
+            beforeEach(async () => {
+                requests[0].reject(new Error("Some error"));
+                await updatePromise.catch(() => undefined);
+            });
+
+            it("rolls back to the reloaded entity", () =>
+                expect(repository.byId("some")).toEqual({ id: "some", value: "changed on server", count: 3 }));
+        });
+    });
+
+    describe("while an update is pending", () => {
+        let updatePromise: Promise<TestEntity>;
+
+        beforeEach(() => {
+            updatePromise = repository.updateOptimistic("some", setValue("b"));
+        });
+
+        it("applies the change at once", () => expect(repository.byId("some")).toEqual({ id: "some", value: "b", count: 0 }));
+
+        it("persists the updated entity", () => expect(requests[0].raw).toEqual({ id: "some", value: "b", count: 0 }));
+
+        it("protects the entity from being evicted", () => {
+            repository.add({ id: "other", value: "a", count: 0 });
+            expect(repository.isLoaded("some")).toBe(true);
+        });
+
+        describe("after persisting succeeded", () => {
+            beforeEach(async () => {
+                requests[0].resolve();
+                await updatePromise;
+            });
+
+            it("keeps the change", () => expect(repository.byId("some")).toEqual({ id: "some", value: "b", count: 0 }));
+
+            it("resolves to the entity", () => expect(updatePromise).resolves.toEqual({ id: "some", value: "b", count: 0 }));
+        });
+
+        describe("after persisting succeeded with a response", () => {
+            beforeEach(async () => {
+                requests[0].resolve({ id: "some", value: "from server", count: 5 });
+                await updatePromise;
+            });
+
+            it("uses the response", () =>
+                expect(repository.byId("some")).toEqual({ id: "some", value: "from server", count: 5 }));
+        });
+
+        describe("after persisting failed", () => {
+            beforeEach(async () => {
+                requests[0].reject(new Error("Some error"));
+                await updatePromise.catch(() => undefined);
+            });
+
+            it("rolls back the change", () => expect(repository.byId("some")).toEqual({ id: "some", value: "a", count: 0 }));
+
+            it("rejects with a `RollbackError`", () =>
+                expect(updatePromise).rejects.toEqual(new RollbackError("some", new Error("Some error"))));
+
+            it("reports the failing id to the error listener", () => {
+                expect(spyError).toHaveBeenCalledWith(expect.any(RollbackError));
+                expect((spyError.mock.calls[0][0] as RollbackError).id).toBe("some");
+            });
+        });
+
+        describe("after evicting the entity", () => {
+            beforeEach(() => repository.evict("some"));
+
+            it("doesn't restore the entity if persisting succeeded", async () => {
+                requests[0].resolve({ id: "some", value: "from server", count: 5 });
+                await updatePromise.catch(() => undefined);
+                expect(repository.isLoaded("some")).toBe(false);
+            });
+
+            it("doesn't restore the entity if persisting failed", async () => {
+                requests[0].reject(new Error("Some error"));
+                await updatePromise.catch(() => undefined);
+                expect(repository.isLoaded("some")).toBe(false);
+            });
+        });
+
+        describe("with a second update pending", () => {
+            let secondPromise: Promise<TestEntity>;
+
+            beforeEach(() => {
+                secondPromise = repository.updateOptimistic("some", increment);
+            });
+
+            it("applies both changes", () => expect(repository.byId("some")).toEqual({ id: "some", value: "b", count: 1 }));
+
+            describe("after the first update failed", () => {
+                beforeEach(async () => {
+                    requests[0].reject(new Error("Some error"));
+                    await updatePromise.catch(() => undefined);
+                });
+
+                it("keeps the second change", () =>
+                    expect(repository.byId("some")).toEqual({ id: "some", value: "a", count: 1 }));
+
+                describe("after the second update failed", () => {
+                    beforeEach(async () => {
+                        requests[1].reject(new Error("Some error"));
+                        await secondPromise.catch(() => undefined);
+                    });
+
+                    it("rolls back both changes", () =>
+                        expect(repository.byId("some")).toEqual({ id: "some", value: "a", count: 0 }));
+                });
+            });
+
+            describe("after the first update succeeded", () => {
+                beforeEach(async () => {
+                    requests[0].resolve();
+                    await updatePromise;
+                });
+
+                describe("after the second update failed", () => {
+                    beforeEach(async () => {
+                        requests[1].reject(new Error("Some error"));
+                        await secondPromise.catch(() => undefined);
+                    });
+
+                    it("keeps the first change", () =>
+                        expect(repository.byId("some")).toEqual({ id: "some", value: "b", count: 0 }));
+                });
+            });
+
+            describe("after the first update succeeded with a response", () => {
+                beforeEach(async () => {
+                    requests[0].resolve({ id: "some", value: "from server", count: 5 });
+                    await updatePromise;
+                });
+
+                it("applies the second change on top of the response", () =>
+                    expect(repository.byId("some")).toEqual({ id: "some", value: "from server", count: 6 }));
+            });
+        });
+    });
+
+    describe("after resetting the repository while an update is pending", () => {
+        beforeEach(async () => {
+            const updatePromise = repository.updateOptimistic("some", increment);
+            repository.reset();
+            requests[0].resolve();
+            await updatePromise;
+        });
+
+        it("doesn't restore the entity", () => expect(repository.isLoaded("some")).toBe(false));
+    });
+});
+
+describe("IndexableRepository dirty tracking", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+        nested: { count: number };
+        extra?: string;
+    }
+
+    let repository: IndexableRepository<TestEntity>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, value: `value-${id}`, nested: { count: 1 } };
+        }
+
+        protected async persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return raw;
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(() => (repository = new TestRepository()));
+
+    it("reports unknown copies as clean", () => expect(repository.isDirty("batch", "some")).toBe(false));
+
+    it("reports no dirty fields of unknown copies", () => expect(repository.dirtyFields("batch", "some")).toEqual([]));
+
+    it("reports no dirty ids of unknown batches", () => expect(repository.dirtyIds("batch")).toEqual([]));
+
+    it("reports unknown batches as clean", () => expect(repository.isBatchDirty("batch")).toBe(false));
+
+    it("doesn't create a batch when checking it", () => {
+        repository.isDirty("batch", "some");
+        expect(repository.mutableCopyBatches.has("batch")).toBe(false);
+    });
+
+    describe("with unmodified mutable copies", () => {
+        let copy1: TestEntity;
+
+        beforeEach(async () => {
+            copy1 = (await repository.mutableCopyByIdAsync("batch", "entity1"))!;
+            await repository.mutableCopyByIdAsync("batch", "entity2");
+        });
+
+        it("reports the copy as clean", () => expect(repository.isDirty("batch", "entity1")).toBe(false));
+
+        it("reports no dirty fields", () => expect(repository.dirtyFields("batch", "entity1")).toEqual([]));
+
+        it("reports no dirty ids", () => expect(repository.dirtyIds("batch")).toEqual([]));
+
+        it("reports the batch as clean", () => expect(repository.isBatchDirty("batch")).toBe(false));
+
+        describe("after modifying a nested property", () => {
+            beforeEach(() => (copy1.nested.count = 2));
+
+            it("reports the copy as dirty", () => expect(repository.isDirty("batch", "entity1")).toBe(true));
+
+            it("reports the nested property as dirty field", () =>
+                expect(repository.dirtyFields("batch", "entity1")).toEqual(["nested"]));
+
+            it("reports only the modified id as dirty", () => expect(repository.dirtyIds("batch")).toEqual(["entity1"]));
+
+            it("reports the batch as dirty", () => expect(repository.isBatchDirty("batch")).toBe(true));
+
+            it("reports other batches as clean", () => expect(repository.isBatchDirty("other")).toBe(false));
+
+            describe("after reverting the change", () => {
+                beforeEach(() => (copy1.nested.count = 1));
+
+                it("reports the copy as clean", () => expect(repository.isDirty("batch", "entity1")).toBe(false));
+            });
+
+            describe("after discarding the copy", () => {
+                beforeEach(() => repository.discardMutableCopy("batch", "entity1"));
+
+                it("reports the batch as clean", () => expect(repository.isBatchDirty("batch")).toBe(false));
+            });
+
+            describe("after saving the copy", () => {
+                beforeEach(() => repository.save("batch", "entity1"));
+
+                it("reports the copy as clean", () => expect(repository.isDirty("batch", "entity1")).toBe(false));
+            });
+        });
+
+        describe("after adding and removing properties", () => {
+            beforeEach(() => {
+                copy1.extra = "added";
+                repository.setMutableCopy("batch", { id: "entity2", value: "value-entity2" } as TestEntity);
+            });
+
+            it("reports an added property as dirty field", () =>
+                expect(repository.dirtyFields("batch", "entity1")).toEqual(["extra"]));
+
+            it("reports a removed property as dirty field", () =>
+                expect(repository.dirtyFields("batch", "entity2")).toEqual(["nested"]));
+
+            it("reports both ids as dirty", () => expect(repository.dirtyIds("batch")).toEqual(["entity1", "entity2"]));
+        });
+
+        it("is observable", () => {
+            const values: boolean[] = [];
+            const dispose = autorun(() => values.push(repository.isBatchDirty("batch")));
+            runInAction(() => (copy1.value = "changed"));
+            runInAction(() => (copy1.value = "value-entity1"));
+            dispose();
+            expect(values).toEqual([false, true, false]);
+        });
+    });
+
+    describe("with a copy of an entity that isn't cached", () => {
+        beforeEach(() => repository.setMutableCopy("batch", { id: "new", value: "new", nested: { count: 0 } }));
+
+        it("reports the copy as dirty", () => expect(repository.isDirty("batch", "new")).toBe(true));
+
+        it("reports all fields as dirty", () =>
+            expect(repository.dirtyFields("batch", "new")).toEqual(["id", "value", "nested"]));
+    });
+});
+
+describe("IndexableRepository with JSON Patches", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+        nested: { count: number };
+        tags: string[];
+    }
+
+    let requests: { raw: TestEntity; resolve: (raw?: TestEntity) => void }[];
+    let repository: IndexableRepository<TestEntity>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, value: `value-${id}`, nested: { count: 1 }, tags: ["a"] };
+        }
+
+        protected persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return new Promise((resolve) => requests.push({ raw, resolve }));
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(() => {
+        requests = [];
+        repository = new TestRepository();
+    });
+
+    it("doesn't diff unknown copies", () => expect(repository.diffMutableCopy("batch", "some")).toBeUndefined());
+
+    it("refuses to patch entities that aren't cached", () =>
+        expect(() => repository.applyPatch("some", [])).toThrowError(
+            new Error("Can't patch an entity that isn't cached."),
+        ));
+
+    describe("with a modified mutable copy", () => {
+        let copy: TestEntity;
+
+        beforeEach(async () => {
+            copy = (await repository.mutableCopyByIdAsync("batch", "some"))!;
+            runInAction(() => {
+                copy.value = "changed";
+                copy.nested.count = 2;
+                copy.tags.push("b");
+            });
+        });
+
+        it("returns the JSON Patch and the changed fields", () =>
+            expect(repository.diffMutableCopy("batch", "some")).toEqual({
+                patch: [
+                    { op: "replace", path: "/value", value: "changed" },
+                    { op: "replace", path: "/nested/count", value: 2 },
+                    { op: "replace", path: "/tags", value: ["a", "b"] },
+                ],
+                changes: { value: "changed", nested: { count: 2 }, tags: ["a", "b"] },
+            }));
+
+        it("returns values that don't change along with the copy", () => {
+            const diff = repository.diffMutableCopy("batch", "some")!;
+            runInAction(() => copy.tags.push("c"));
+            expect(diff.changes.tags).toEqual(["a", "b"]);
+        });
+
+        it("returns a patch turning the cached entity into the copy", () => {
+            repository.applyPatch("some", repository.diffMutableCopy("batch", "some")!.patch);
+            expect(repository.isDirty("batch", "some")).toBe(false);
+        });
+    });
+
+    describe("with a copy of an entity that isn't cached", () => {
+        beforeEach(() => repository.setMutableCopy("batch", { id: "new", value: "new", nested: { count: 0 }, tags: [] }));
+
+        it("adds all fields", () =>
+            expect(repository.diffMutableCopy("batch", "new")).toEqual({
+                patch: [
+                    { op: "add", path: "/id", value: "new" },
+                    { op: "add", path: "/value", value: "new" },
+                    { op: "add", path: "/nested", value: { count: 0 } },
+                    { op: "add", path: "/tags", value: [] },
+                ],
+                changes: { id: "new", value: "new", nested: { count: 0 }, tags: [] },
+            }));
+    });
+
+    describe("after patching a cached entity", () => {
+        beforeEach(async () => {
+            await repository.byIdAsync("some");
+            repository.applyPatch("some", [
+                { op: "replace", path: "/value", value: "patched" },
+                { op: "add", path: "/tags/-", value: "b" },
+            ]);
+        });
+
+        it("updates the cached entity", () =>
+            expect(repository.byId("some")).toEqual({
+                id: "some",
+                value: "patched",
+                nested: { count: 1 },
+                tags: ["a", "b"],
+            }));
+
+        it("leaves the entity untouched if an operation fails", () => {
+            expect(() =>
+                repository.applyPatch("some", [
+                    { op: "replace", path: "/value", value: "other" },
+                    { op: "test", path: "/value", value: "wrong" },
+                ]),
+            ).toThrowError(new Error('Test operation failed for path "/value".'));
+            expect(repository.byId("some")!.value).toBe("patched");
+        });
+    });
+
+    describe("after patching a cached entity with `SHALLOW_MERGE`", () => {
+        let entity: TestEntity;
+
+        beforeEach(async () => {
+            repository = new (class extends TestRepository {
+                protected mergeStrategy = MergeStrategy.SHALLOW_MERGE;
+            })();
+            entity = (await repository.byIdAsync("some"))!;
+            repository.applyPatch("some", [{ op: "replace", path: "/value", value: "patched" }]);
+        });
+
+        it("keeps the cached instance", () => expect(repository.byId("some")).toBe(entity));
+
+        it("updates the cached instance in place", () => expect(entity.value).toBe("patched"));
+    });
+
+    describe("with a pending optimistic update", () => {
+        let promise: Promise<TestEntity>;
+
+        beforeEach(async () => {
+            await repository.byIdAsync("some");
+            promise = repository.updateOptimistic("some", (entity) => (entity.value = "optimistic"));
+            repository.applyPatch("some", [
+                { op: "replace", path: "/value", value: "patched" },
+                { op: "replace", path: "/nested/count", value: 5 },
+            ]);
+        });
+
+        it("keeps the optimistic update applied", () =>
+            expect(repository.byId("some")).toEqual({
+                id: "some",
+                value: "optimistic",
+                nested: { count: 5 },
+                tags: ["a"],
+            }));
+
+        describe("after the update is confirmed", () => {
+            beforeEach(async () => {
+                requests[0].resolve();
+                await promise;
+            });
+
+            it("keeps the patch applied", () =>
+                expect(repository.byId("some")).toEqual({
+                    id: "some",
+                    value: "optimistic",
+                    nested: { count: 5 },
+                    tags: ["a"],
+                }));
+        });
+    });
+});
+
+describe("IndexableRepository with undo and redo", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+        nested: { count: number };
+    }
+
+    let repository: IndexableRepository<TestEntity>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected historyLimit?: number = 2;
+
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, value: `value-${id}`, nested: { count: 1 } };
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    class UnrecordedTestRepository extends TestRepository {
+        protected historyLimit?: number = undefined;
+    }
+
+    class PersistingTestRepository extends TestRepository {
+        protected async persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return raw;
+        }
+    }
+
+    beforeEach(() => (repository = new TestRepository()));
+
+    it("can't undo unknown batches", () => expect(repository.canUndo("batch")).toBe(false));
+
+    it("can't redo unknown batches", () => expect(repository.canRedo("batch")).toBe(false));
+
+    it("ignores undoing unknown batches", () => expect(() => repository.undo("batch")).not.toThrow());
+
+    it("ignores redoing unknown batches", () => expect(() => repository.redo("batch")).not.toThrow());
+
+    describe("with a mutable copy", () => {
+        let copy: TestEntity;
+
+        beforeEach(async () => {
+            copy = (await repository.mutableCopyByIdAsync("batch", "some"))!;
+        });
+
+        it("can undo adding the copy", () => expect(repository.canUndo("batch")).toBe(true));
+
+        it("ignores redoing without undoing", () => {
+            repository.redo("batch");
+            expect(repository.mutableCopyById("batch", "some")).toBe(copy);
+        });
+
+        describe("after changing the copy within one action", () => {
+            beforeEach(() =>
+                runInAction(() => {
+                    copy.value = "changed";
+                    copy.nested.count = 2;
+                }),
+            );
+
+            it("can undo", () => expect(repository.canUndo("batch")).toBe(true));
+
+            it("can't redo", () => expect(repository.canRedo("batch")).toBe(false));
+
+            describe("after undoing", () => {
+                beforeEach(() => repository.undo("batch"));
+
+                it("reverts all changes of the action in place", () => {
+                    expect(repository.mutableCopyById("batch", "some")).toBe(copy);
+                    expect(copy).toEqual({ id: "some", value: "value-some", nested: { count: 1 } });
+                });
+
+                it("can redo", () => expect(repository.canRedo("batch")).toBe(true));
+
+                describe("after redoing", () => {
+                    beforeEach(() => repository.redo("batch"));
+
+                    it("applies the changes again", () =>
+                        expect(copy).toEqual({ id: "some", value: "changed", nested: { count: 2 } }));
+
+                    it("can't redo", () => expect(repository.canRedo("batch")).toBe(false));
+                });
+
+                describe("after another change", () => {
+                    beforeEach(() => runInAction(() => (copy.value = "other")));
+
+                    it("can't redo", () => expect(repository.canRedo("batch")).toBe(false));
+                });
+
+                describe("after undoing again", () => {
+                    beforeEach(() => repository.undo("batch"));
+
+                    it("removes the copy", () => expect(repository.mutableCopyBatches.get("batch")!.has("some")).toBe(false));
+
+                    it("can't undo", () => expect(repository.canUndo("batch")).toBe(false));
+
+                    describe("after redoing", () => {
+                        beforeEach(() => repository.redo("batch"));
+
+                        it("adds a new copy", () =>
+                            expect(repository.mutableCopyById("batch", "some")).toEqual({
+                                id: "some",
+                                value: "value-some",
+                                nested: { count: 1 },
+                            }));
+                    });
+                });
+            });
+        });
+
+        describe("after exceeding the history limit", () => {
+            beforeEach(() => {
+                runInAction(() => (copy.value = "first"));
+                runInAction(() => (copy.value = "second"));
+                repository.undo("batch");
+                repository.undo("batch");
+            });
+
+            it("drops the oldest steps", () => {
+                expect(copy.value).toBe("value-some");
+                expect(repository.canUndo("batch")).toBe(false);
+            });
+        });
+
+        it("doesn't record changes that don't modify the copy", () => {
+            runInAction(() => {
+                copy.value = "changed";
+                copy.value = "value-some";
+            });
+            repository.undo("batch");
+            expect(repository.mutableCopyBatches.get("batch")!.has("some")).toBe(false);
+        });
+
+        it("is observable", () => {
+            const values: boolean[] = [];
+            const dispose = autorun(() => values.push(repository.canRedo("batch")));
+            repository.undo("batch");
+            repository.redo("batch");
+            dispose();
+            expect(values).toEqual([false, true, false]);
+        });
+
+        describe("after resetting the repository", () => {
+            beforeEach(() => repository.reset());
+
+            it("can't undo", () => expect(repository.canUndo("batch")).toBe(false));
+        });
+    });
+
+    describe("after undoing discarding one of two copies", () => {
+        beforeEach(async () => {
+            repository = new PersistingTestRepository();
+            await repository.mutableCopyByIdAsync("batch", "some");
+            await repository.mutableCopyByIdAsync("batch", "other");
+            repository.discardMutableCopy("batch", "some");
+            repository.undo("batch");
+        });
+
+        it("restores the copy", () => expect(repository.mutableCopyBatches.get("batch")!.has("some")).toBe(true));
+
+        it("saves the copy as an existing entity", () =>
+            expect(repository.save("batch", "some")).resolves.toEqual({
+                id: "some",
+                value: "value-some",
+                nested: { count: 1 },
+            }));
+    });
+
+    describe("without a `historyLimit`", () => {
+        beforeEach(async () => {
+            repository = new UnrecordedTestRepository();
+            const copy = (await repository.mutableCopyByIdAsync("batch", "some"))!;
+            runInAction(() => (copy.value = "changed"));
+        });
+
+        it("can't undo", () => expect(repository.canUndo("batch")).toBe(false));
+    });
+});
+
+describe("IndexableRepository detecting conflicts", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+        other: string;
+        extra?: string;
+        nested: { count: number };
+    }
+
+    let repository: IndexableRepository<TestEntity>;
+    let copy: TestEntity;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, value: "base", other: "base", extra: "base", nested: { count: 1 } };
+        }
+
+        protected async persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return raw;
+        }
+
+        protected async deleteEntity(): Promise<void> {
+            return;
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        repository = new TestRepository();
+        copy = (await repository.mutableCopyByIdAsync("batch", "some"))!;
+    });
+
+    it("reports no conflicts for unknown copies", () => expect(repository.conflictsOf("batch", "other")).toEqual([]));
+
+    it("reports no conflicts for unchanged entities", () => expect(repository.conflictsOf("batch", "some")).toEqual([]));
+
+    it("ignores resolving conflicts of unknown copies", () =>
+        expect(() => repository.resolveConflicts("batch", "other")).not.toThrow());
+
+    it("ignores resolving conflicts in unknown batches", () =>
+        expect(() => repository.resolveConflicts("other", "some")).not.toThrow());
+
+    describe("with a copy that isn't based on a cached entity", () => {
+        beforeEach(() =>
+            repository.setMutableCopy("batch", { id: "new", value: "new", other: "new", nested: { count: 0 } }),
+        );
+
+        it("reports no conflicts", () => expect(repository.conflictsOf("batch", "new")).toEqual([]));
+
+        it("ignores resolving conflicts", () => {
+            repository.resolveConflicts("batch", "new", ConflictResolution.TAKE_THEIRS);
+            expect(repository.mutableCopyById("batch", "new")!.value).toBe("new");
+        });
+    });
+
+    describe("with changes on both sides", () => {
+        beforeEach(() => {
+            runInAction(() => {
+                copy.value = "mine";
+                copy.nested.count = 2;
+                delete copy.extra;
+            });
+            repository.applyPatch("some", [
+                { op: "replace", path: "/value", value: "theirs" },
+                { op: "replace", path: "/other", value: "theirs" },
+                { op: "replace", path: "/extra", value: "theirs" },
+                { op: "add", path: "/added", value: "theirs" },
+            ]);
+        });
+
+        it("reports the conflicting fields", () =>
+            expect(repository.conflictsOf("batch", "some")).toEqual([
+                { field: "value", base: "base", mine: "mine", theirs: "theirs" },
+                { field: "extra", base: "base", mine: undefined, theirs: "theirs" },
+            ]));
+
+        it("is observable", () => {
+            const values: number[] = [];
+            const dispose = autorun(() => values.push(repository.conflictsOf("batch", "some").length));
+            runInAction(() => (copy.value = "theirs"));
+            dispose();
+            expect(values).toEqual([2, 1]);
+        });
+
+        describe("after taking mine", () => {
+            beforeEach(() => repository.resolveConflicts("batch", "some", ConflictResolution.TAKE_MINE));
+
+            it("keeps the copy", () =>
+                expect(copy).toEqual({ id: "some", value: "mine", other: "base", nested: { count: 2 } }));
+
+            it("reports no conflicts", () => expect(repository.conflictsOf("batch", "some")).toEqual([]));
+        });
+
+        describe("after taking theirs", () => {
+            beforeEach(() => repository.resolveConflicts("batch", "some", ConflictResolution.TAKE_THEIRS));
+
+            it("replaces the copy in place", () => {
+                expect(repository.mutableCopyById("batch", "some")).toBe(copy);
+                expect(copy).toEqual(repository.byId("some"));
+            });
+
+            it("reports no conflicts", () => expect(repository.conflictsOf("batch", "some")).toEqual([]));
+
+            it("isn't dirty", () => expect(repository.isDirty("batch", "some")).toBe(false));
+        });
+
+        describe("after auto-merging", () => {
+            beforeEach(() => repository.resolveConflicts("batch", "some"));
+
+            it("applies their non-conflicting changes and keeps mine", () =>
+                expect(copy).toEqual({
+                    id: "some",
+                    value: "mine",
+                    other: "theirs",
+                    added: "theirs",
+                    nested: { count: 2 },
+                }));
+
+            it("still reports the conflicting fields", () =>
+                expect(repository.conflictsOf("batch", "some")).toEqual([
+                    { field: "value", base: "base", mine: "mine", theirs: "theirs" },
+                    { field: "extra", base: "base", mine: undefined, theirs: "theirs" },
+                ]));
+        });
+    });
+
+    describe("with fields removed on their side", () => {
+        beforeEach(() => {
+            runInAction(() => (copy.extra = "mine"));
+            repository.applyPatch("some", [
+                { op: "remove", path: "/other" },
+                { op: "remove", path: "/extra" },
+            ]);
+            repository.resolveConflicts("batch", "some");
+        });
+
+        it("removes their removed fields from the copy", () =>
+            expect(copy).toEqual({ id: "some", value: "base", extra: "mine", nested: { count: 1 } }));
+
+        it("still reports the conflicting field", () =>
+            expect(repository.conflictsOf("batch", "some")).toEqual([
+                { field: "extra", base: "base", mine: "mine", theirs: undefined },
+            ]));
+    });
+
+    describe("with a field added on both sides", () => {
+        beforeEach(() => {
+            runInAction(() => ((copy as TestEntity & { added?: string }).added = "mine"));
+            repository.applyPatch("some", [{ op: "add", path: "/added", value: "theirs" }]);
+            repository.resolveConflicts("batch", "some");
+        });
+
+        it("still reports the conflicting field", () =>
+            expect(repository.conflictsOf("batch", "some")).toEqual([
+                { field: "added", base: undefined, mine: "mine", theirs: "theirs" },
+            ]));
+    });
+
+    describe("after saving the copy", () => {
+        beforeEach(async () => {
+            runInAction(() => (copy.value = "mine"));
+            await repository.save("batch", "some");
+            repository.applyPatch("some", [{ op: "replace", path: "/value", value: "theirs" }]);
+        });
+
+        it("is based on the saved entity", () => expect(repository.conflictsOf("batch", "some")).toEqual([]));
+    });
+
+    describe("after discarding and replacing the copy", () => {
+        beforeEach(() => {
+            repository.discardMutableCopy("batch", "some");
+            repository.setMutableCopy("batch", { id: "some", value: "mine", other: "base", nested: { count: 1 } });
+            repository.applyPatch("some", [{ op: "replace", path: "/value", value: "theirs" }]);
+        });
+
+        it("is based on the entity cached when the copy was set", () =>
+            expect(repository.conflictsOf("batch", "some")).toEqual([
+                { field: "value", base: "base", mine: "mine", theirs: "theirs" },
+            ]));
+    });
+
+    describe("after evicting the entity", () => {
+        beforeEach(() => {
+            runInAction(() => (copy.value = "mine"));
+            repository.evict("some");
+        });
+
+        it("reports no conflicts", () => expect(repository.conflictsOf("batch", "some")).toEqual([]));
+
+        it("ignores resolving conflicts", () => {
+            repository.resolveConflicts("batch", "some", ConflictResolution.TAKE_THEIRS);
+            expect(copy.value).toBe("mine");
+        });
+    });
+
+    describe("after deleting the entity", () => {
+        beforeEach(() => repository.deleteById("some"));
+
+        it("reports no conflicts", () => expect(repository.conflictsOf("batch", "some")).toEqual([]));
+    });
+
+    describe("after resetting the repository", () => {
+        beforeEach(() => repository.reset());
+
+        it("reports no conflicts", () => expect(repository.conflictsOf("batch", "some")).toEqual([]));
+    });
+});
+
+describe("IndexableRepository saving batches", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyPersistEntity: jest.Mock<Promise<TestEntity | undefined>, [TestEntity]>;
+    let spyCreateEntity: jest.Mock<Promise<TestEntity | undefined>, [TestEntity]>;
+    let spyPersistEntities: jest.Mock<Promise<(TestEntity | undefined)[]>, [TestEntity[]]>;
+    let spyError: jest.Mock<undefined, [Error]>;
+    let repository: IndexableRepository<TestEntity>;
+    let result: BatchSaveResult<TestEntity, string>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, value: `value-${id}` };
+        }
+
+        protected persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return spyPersistEntity(raw);
+        }
+
+        protected createEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return spyCreateEntity(raw);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    class PartialTestRepository extends TestRepository {
+        protected batchSaveMode = BatchSaveMode.PARTIAL;
+    }
+
+    class BulkTestRepository extends TestRepository {
+        protected persistEntities(raws: TestEntity[]): Promise<(TestEntity | undefined)[]> {
+            return spyPersistEntities(raws);
+        }
+    }
+
+    class ReadOnlyTestRepository extends IndexableRepository<TestEntity> {
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, value: `value-${id}` };
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    async function editBatch(): Promise<void> {
+        const copy1 = (await repository.mutableCopyByIdAsync("batch", "entity1"))!;
+        const copy2 = (await repository.mutableCopyByIdAsync("batch", "entity2"))!;
+        await repository.mutableCopyByIdAsync("batch", "unchanged");
+        runInAction(() => {
+            copy1.value = "changed1";
+            copy2.value = "changed2";
+        });
+    }
+
+    beforeEach(() => {
+        spyPersistEntity = jest.fn(async (raw: TestEntity) => ({ ...raw, value: `${raw.value} (saved)` }));
+        spyCreateEntity = jest.fn(async (raw: TestEntity) => ({ ...raw, id: "created" }));
+        spyPersistEntities = jest.fn(async (raws: TestEntity[]) => [{ ...raws[0], value: "bulk" }, undefined]);
+        spyError = jest.fn();
+    });
+
+    function createRepository(Repository: new () => IndexableRepository<TestEntity>): void {
+        repository = new Repository();
+        repository.addErrorListener(spyError);
+    }
+
+    describe("with an empty batch", () => {
+        beforeEach(async () => {
+            createRepository(TestRepository);
+            result = await repository.saveBatch("batch");
+        });
+
+        it("saves nothing", () => expect(result).toEqual({ saved: [], failed: [] }));
+    });
+
+    describe("with dirty copies", () => {
+        beforeEach(async () => {
+            createRepository(TestRepository);
+            await editBatch();
+            repository.setMutableCopy("batch", { id: "new", value: "new" });
+        });
+
+        describe("`saveBatch`", () => {
+            beforeEach(async () => (result = await repository.saveBatch("batch")));
+
+            it("persists the dirty copies", () => {
+                expect(spyPersistEntity).toHaveBeenCalledTimes(2);
+                expect(spyPersistEntity).toHaveBeenCalledWith({ id: "entity1", value: "changed1" });
+                expect(spyPersistEntity).toHaveBeenCalledWith({ id: "entity2", value: "changed2" });
+            });
+
+            it("creates the new entity", () => expect(spyCreateEntity).toHaveBeenCalledWith({ id: "new", value: "new" }));
+
+            it("resolves to the saved entities", () =>
+                expect(result).toEqual({
+                    saved: [
+                        { id: "entity1", value: "changed1 (saved)" },
+                        { id: "entity2", value: "changed2 (saved)" },
+                        { id: "created", value: "new" },
+                    ],
+                    failed: [],
+                }));
+
+            it("updates the cached entities", () =>
+                expect(repository.byId("entity2")).toEqual({ id: "entity2", value: "changed2 (saved)" }));
+
+            it("leaves no dirty copies", () => expect(repository.isBatchDirty("batch")).toBe(false));
+
+            it("reports save status `DONE`", () =>
+                expect(repository.saveStatusOf("entity1")).toEqual({ status: RequestStatus.DONE }));
+        });
+
+        it("commits all entities in one transaction", async () => {
+            const values: string[][] = [];
+            const dispose = autorun(() =>
+                values.push([repository.byId("entity1")!.value, repository.byId("entity2")!.value]),
+            );
+            await repository.saveBatch("batch");
+            dispose();
+            expect(values).toEqual([
+                ["value-entity1", "value-entity2"],
+                ["changed1 (saved)", "changed2 (saved)"],
+            ]);
+        });
+
+        it("reports save status `IN_PROGRESS` while saving", () => {
+            const promise = repository.saveBatch("batch");
+            expect(repository.saveStatusOf("entity1")).toEqual({ status: RequestStatus.IN_PROGRESS });
+            return promise;
+        });
+
+        describe("with an entity failing to save", () => {
+            beforeEach(async () => {
+                spyPersistEntity.mockImplementation(async (raw) => {
+                    if (raw.id === "entity2") {
+                        throw new Error("Some error");
+                    }
+                    return raw;
+                });
+                result = await repository.saveBatch("batch");
+            });
+
+            it("reports all entities as failed", () =>
+                expect(result).toEqual({
+                    saved: [],
+                    failed: [
+                        {
+                            id: "entity1",
+                            error: new Error("Entity was not saved as other entities of the batch failed to save."),
+                        },
+                        { id: "entity2", error: new Error("Some error") },
+                        {
+                            id: "new",
+                            error: new Error("Entity was not saved as other entities of the batch failed to save."),
+                        },
+                    ],
+                }));
+
+            it("doesn't update the cached entities", () =>
+                expect(repository.byId("entity1")).toEqual({ id: "entity1", value: "value-entity1" }));
+
+            it("keeps the dirty copies", () =>
+                expect(repository.dirtyIds("batch")).toEqual(["entity1", "entity2", "new"]));
+
+            it("reports save status `ERROR`", () =>
+                expect(repository.saveStatusOf("entity2")).toEqual({
+                    status: RequestStatus.ERROR,
+                    error: new Error("Some error"),
+                }));
+
+            it("calls the error listener once", () => expect(spyError).toHaveBeenCalledWith(new Error("Some error")));
+        });
+    });
+
+    describe("with `BatchSaveMode.PARTIAL` and an entity failing to save", () => {
+        beforeEach(async () => {
+            createRepository(PartialTestRepository);
+            await editBatch();
+            spyPersistEntity.mockImplementation(async (raw) => {
+                if (raw.id === "entity2") {
+                    throw new Error("Some error");
+                }
+                return raw;
+            });
+            result = await repository.saveBatch("batch");
+        });
+
+        it("reports the saved and the failed entity", () =>
+            expect(result).toEqual({
+                saved: [{ id: "entity1", value: "changed1" }],
+                failed: [{ id: "entity2", error: new Error("Some error") }],
+            }));
+
+        it("updates the saved entity", () =>
+            expect(repository.byId("entity1")).toEqual({ id: "entity1", value: "changed1" }));
+
+        it("keeps the failed copy", () => expect(repository.dirtyIds("batch")).toEqual(["entity2"]));
+    });
+
+    describe("with `persistEntities`", () => {
+        beforeEach(async () => {
+            createRepository(BulkTestRepository);
+            await editBatch();
+        });
+
+        describe("`saveBatch`", () => {
+            beforeEach(async () => (result = await repository.saveBatch("batch")));
+
+            it("persists all dirty copies at once", () =>
+                expect(spyPersistEntities).toHaveBeenCalledWith([
+                    { id: "entity1", value: "changed1" },
+                    { id: "entity2", value: "changed2" },
+                ]));
+
+            it("doesn't call `persistEntity`", () => expect(spyPersistEntity).not.toHaveBeenCalled());
+
+            it("uses the responses and falls back to the sent payload", () =>
+                expect(result.saved).toEqual([
+                    { id: "entity1", value: "bulk" },
+                    { id: "entity2", value: "changed2" },
+                ]));
+        });
+
+        describe("with `persistEntities` failing", () => {
+            beforeEach(async () => {
+                spyPersistEntities.mockImplementation(() => Promise.reject(new Error("Some error")));
+                result = await repository.saveBatch("batch");
+            });
+
+            it("reports every entity as failed", () =>
+                expect(result.failed).toEqual([
+                    { id: "entity1", error: new Error("Some error") },
+                    { id: "entity2", error: new Error("Some error") },
+                ]));
+        });
+    });
+
+    describe("without `persistEntity`", () => {
+        beforeEach(async () => {
+            createRepository(ReadOnlyTestRepository);
+            await editBatch();
+            result = await repository.saveBatch("batch");
+        });
+
+        it("reports the entities as failed", () =>
+            expect(result.failed).toContainEqual({
+                id: "entity2",
+                error: new Error("Can't save entity as `persistEntity` is not implemented."),
+            }));
+    });
+});
+
+describe("IndexableRepository managing batches", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let repository: IndexableRepository<TestEntity>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected historyLimit = 10;
+
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, value: `value-${id}` };
+        }
+
+        protected async deleteEntity(): Promise<void> {
+            return;
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    class AutoDisposingTestRepository extends TestRepository {
+        protected batchGracePeriod = 0;
+    }
+
+    beforeEach(async () => {
+        repository = new TestRepository();
+        await repository.mutableCopyByIdAsync("batch1", "entity1");
+        await repository.mutableCopyByIdAsync("batch1", "entity2");
+        await repository.mutableCopyByIdAsync("batch2", "entity1");
+    });
+
+    it("lists all batches", () => expect(repository.batchIds()).toEqual(["batch1", "batch2"]));
+
+    it("knows existing batches", () => expect(repository.hasBatch("batch1")).toBe(true));
+
+    it("doesn't know other batches", () => expect(repository.hasBatch("other")).toBe(false));
+
+    test.each([
+        ["entity1", ["batch1", "batch2"]],
+        ["entity2", ["batch1"]],
+        ["other", []],
+    ])("lists the batches containing %p", (id, batchIds) =>
+        expect(repository.batchesContaining(id)).toEqual(batchIds),
+    );
+
+    it("ignores discarding unknown batches", () => {
+        repository.discardBatch("other");
+        expect(repository.batchIds()).toEqual(["batch1", "batch2"]);
+    });
+
+    it("is observable", () => {
+        const values: string[][] = [];
+        const dispose = autorun(() => values.push(repository.batchesContaining("entity2")));
+        repository.discardBatch("batch1");
+        dispose();
+        expect(values).toEqual([["batch1"], []]);
+    });
+
+    describe("after discarding a batch", () => {
+        beforeEach(() => {
+            runInAction(() => (repository.mutableCopyById("batch1", "entity1")!.value = "changed"));
+            repository.discardBatch("batch1");
+        });
+
+        it("removes the batch", () => expect(repository.batchIds()).toEqual(["batch2"]));
+
+        it("removes the undo history", () => expect(repository.canUndo("batch1")).toBe(false));
+
+        it("keeps the other batches", () => expect(repository.batchesContaining("entity1")).toEqual(["batch2"]));
+
+        describe("accessing a mutable copy in the batch again", () => {
+            beforeEach(() => repository.mutableCopyById("batch1", "entity1"));
+
+            it("creates a fresh copy", () =>
+                expect(repository.mutableCopyById("batch1", "entity1")).toEqual({ id: "entity1", value: "value-entity1" }));
+        });
+    });
+
+    describe("after discarding the last copy of a batch", () => {
+        beforeEach(() => repository.discardMutableCopy("batch2", "entity1"));
+
+        it("keeps the batch", () => expect(repository.hasBatch("batch2")).toBe(true));
+    });
+
+    describe("with `batchGracePeriod`", () => {
+        beforeEach(async () => {
+            repository = new AutoDisposingTestRepository();
+            await repository.mutableCopyByIdAsync("batch1", "entity1");
+            await repository.mutableCopyByIdAsync("batch1", "entity2");
+        });
+
+        it("keeps batches that were never observed", () => expect(repository.hasBatch("batch1")).toBe(true));
+
+        describe("after an observer stopped observing the batch", () => {
+            beforeEach(() => autorun(() => repository.mutableCopyById("batch1", "entity1"))());
+
+            it("discards the batch", () => expect(repository.hasBatch("batch1")).toBe(false));
+        });
+
+        describe("after discarding one of the copies", () => {
+            beforeEach(() => repository.discardMutableCopy("batch1", "entity1"));
+
+            it("keeps the batch", () => expect(repository.hasBatch("batch1")).toBe(true));
+
+            describe("after discarding the last copy", () => {
+                beforeEach(() => repository.discardMutableCopy("batch1", "entity2"));
+
+                it("discards the batch", () => expect(repository.hasBatch("batch1")).toBe(false));
+            });
+        });
+
+        describe("after deleting the entities", () => {
+            beforeEach(async () => {
+                await repository.mutableCopyByIdAsync("batch2", "entity1");
+                await repository.deleteById("entity1");
+            });
+
+            it("discards the emptied batch", () => expect(repository.batchIds()).toEqual(["batch1"]));
+
+            describe("after deleting the last entity", () => {
+                beforeEach(() => repository.deleteById("entity2"));
+
+                it("discards all batches", () => expect(repository.batchIds()).toEqual([]));
+            });
+        });
+    });
+});
+
+describe("IndexableRepository with validators", () => {
+    interface TestEntity {
+        id: string;
+        name: string;
+    }
+
+    let requests: { entity: TestEntity; signal: AbortSignal; resolve: (message?: string) => void }[];
+    let spyPersistEntity: jest.Mock<Promise<TestEntity | undefined>, [TestEntity]>;
+    let repository: IndexableRepository<TestEntity>;
+    let copy: TestEntity;
+
+    const nameRequired: Validator<TestEntity> = {
+        field: "name",
+        validate: (entity) => (entity.name ? undefined : "Name is required."),
+    };
+
+    const nameAvailable: AsyncValidator<TestEntity> = {
+        field: "name",
+        validateAsync: (entity, signal) => new Promise((resolve) => requests.push({ entity, signal, resolve })),
+    };
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return { id, name: `name-${id}` };
+        }
+
+        protected persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return spyPersistEntity(raw);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    async function respond(index: number, message?: string): Promise<void> {
+        requests[index].resolve(message);
+        await new Promise((resolve) => process.nextTick(resolve));
+    }
+
+    beforeEach(async () => {
+        requests = [];
+        spyPersistEntity = jest.fn(async (raw: TestEntity) => raw);
+        repository = new TestRepository();
+        repository.addErrorListener(() => undefined);
+        copy = (await repository.mutableCopyByIdAsync("batch", "some"))!;
+    });
+
+    it("reports no errors for unknown copies", () => expect(repository.validationErrors("batch", "other")).toEqual([]));
+
+    it("reports no errors for unknown batches", () => expect(repository.validationErrors("other", "some")).toEqual([]));
+
+    it("doesn't validate copies of unknown batches", () =>
+        expect(repository.isValidating("other", "some")).toBe(false));
+
+    it("doesn't validate unknown copies", () => expect(repository.isValidating("batch", "other")).toBe(false));
+
+    it("considers copies without validators valid", () => expect(repository.isValid("batch", "some")).toBe(true));
+
+    it("ignores removing unknown validators", () => {
+        repository.removeValidator(nameRequired);
+        expect(repository.isValid("batch", "some")).toBe(true);
+    });
+
+    describe("with a synchronous validator", () => {
+        beforeEach(() => repository.addValidator(nameRequired));
+
+        it("considers valid copies valid", () => expect(repository.isValid("batch", "some")).toBe(true));
+
+        describe("with an invalid copy", () => {
+            beforeEach(() => runInAction(() => (copy.name = "")));
+
+            it("reports the error", () =>
+                expect(repository.validationErrors("batch", "some")).toEqual([
+                    { field: "name", message: "Name is required." },
+                ]));
+
+            it("considers the copy invalid", () => expect(repository.isValid("batch", "some")).toBe(false));
+
+            it("refuses to save the copy", async () => {
+                await expect(repository.save("batch", "some")).rejects.toEqual(
+                    new InvalidEntityError([{ field: "name", message: "Name is required." }]),
+                );
+                expect(spyPersistEntity).not.toHaveBeenCalled();
+            });
+
+            it("reports save status `ERROR`", async () => {
+                await repository.save("batch", "some").catch(() => undefined);
+                expect(repository.saveStatusOf("some").status).toBe(RequestStatus.ERROR);
+            });
+
+            it("refuses to save the copy as part of a batch", async () => {
+                expect(await repository.saveBatch("batch")).toEqual({
+                    saved: [],
+                    failed: [{ id: "some", error: expect.any(InvalidEntityError) }],
+                });
+                expect(spyPersistEntity).not.toHaveBeenCalled();
+            });
+
+            it("is observable", () => {
+                const values: boolean[] = [];
+                const dispose = autorun(() => values.push(repository.isValid("batch", "some")));
+                runInAction(() => (copy.name = "fixed"));
+                dispose();
+                expect(values).toEqual([false, true]);
+            });
+
+            describe("after removing the validator", () => {
+                beforeEach(() => repository.removeValidator(nameRequired));
+
+                it("considers the copy valid", () => expect(repository.isValid("batch", "some")).toBe(true));
+            });
+        });
+    });
+
+    describe("with an asynchronous validator", () => {
+        beforeEach(() => repository.addValidator(nameAvailable));
+
+        it("validates the copy once its errors are accessed", () => {
+            expect(requests).toHaveLength(0);
+            repository.validationErrors("batch", "some");
+            expect(requests[0].entity).toEqual({ id: "some", name: "name-some" });
+        });
+
+        describe("while validating", () => {
+            beforeEach(() => repository.validationErrors("batch", "some"));
+
+            it("is validating", () => expect(repository.isValidating("batch", "some")).toBe(true));
+
+            it("doesn't consider the copy valid", () => expect(repository.isValid("batch", "some")).toBe(false));
+
+            describe("after the validator resolved", () => {
+                beforeEach(() => respond(0, "Name is taken."));
+
+                it("reports the error", () =>
+                    expect(repository.validationErrors("batch", "some")).toEqual([
+                        { field: "name", message: "Name is taken." },
+                    ]));
+
+                it("isn't validating", () => expect(repository.isValidating("batch", "some")).toBe(false));
+            });
+
+            describe("after editing the copy", () => {
+                beforeEach(() => runInAction(() => (copy.name = "changed")));
+
+                it("aborts the running validation", () => expect(requests[0].signal.aborted).toBe(true));
+
+                it("validates the changed copy", () =>
+                    expect(requests[1].entity).toEqual({ id: "some", name: "changed" }));
+
+                describe("after both validators resolved", () => {
+                    beforeEach(async () => {
+                        await respond(1);
+                        await respond(0, "Name is taken.");
+                    });
+
+                    it("reports only the result of the last validation", () =>
+                        expect(repository.isValid("batch", "some")).toBe(true));
+                });
+            });
+
+            describe("after discarding the copy", () => {
+                beforeEach(() => repository.discardMutableCopy("batch", "some"));
+
+                it("aborts the validation", () => expect(requests[0].signal.aborted).toBe(true));
+
+                it("isn't validating", () => expect(repository.isValidating("batch", "some")).toBe(false));
+
+                it("forgets the validation", () => expect(repository["asyncValidations"].size).toBe(0));
+            });
+
+            describe("after discarding the batch", () => {
+                beforeEach(() => repository.discardBatch("batch"));
+
+                it("aborts the validation", () => expect(requests[0].signal.aborted).toBe(true));
+
+                it("forgets the validation", () => expect(repository["asyncValidations"].size).toBe(0));
+
+                describe("after validating a new copy in the batch", () => {
+                    beforeEach(async () => {
+                        await repository.mutableCopyByIdAsync("batch", "some");
+                        repository.validationErrors("batch", "some");
+                    });
+
+                    it("validates the new copy", () => expect(requests).toHaveLength(2));
+                });
+            });
+
+            describe("after resetting", () => {
+                beforeEach(() => repository.reset());
+
+                it("aborts the validation", () => expect(requests[0].signal.aborted).toBe(true));
+
+                it("forgets the validation", () => expect(repository["asyncValidations"].size).toBe(0));
+            });
+
+            describe("after removing the validator", () => {
+                beforeEach(() => repository.removeValidator(nameAvailable));
+
+                it("isn't validating", () => expect(repository.isValidating("batch", "some")).toBe(false));
+            });
+        });
+
+        describe("saving a copy the validator rejects", () => {
+            let promise: Promise<TestEntity>;
+
+            beforeEach(() => {
+                promise = repository.save("batch", "some");
+                promise.catch(() => undefined);
+            });
+
+            it("validates the copy immediately", async () => {
+                await respond(0, "Name is taken.");
+                await expect(promise).rejects.toEqual(
+                    new InvalidEntityError([{ field: "name", message: "Name is taken." }]),
+                );
+                expect(spyPersistEntity).not.toHaveBeenCalled();
+            });
+        });
+
+        describe("saving a copy the validator accepts", () => {
+            it("saves the copy", async () => {
+                const promise = repository.save("batch", "some");
+                await respond(0);
+                await promise;
+                expect(spyPersistEntity).toHaveBeenCalled();
+            });
+        });
+    });
+});
+
+describe("IndexableRepository with an offline mutation queue", () => {
+    interface TestEntity {
+        id: string;
+        name: string;
+    }
+
+    let isOffline: boolean;
+    let storage: InMemoryMutationQueueStorage<QueuedMutation<string, TestEntity>>;
+    let spyFetchById: jest.Mock<TestEntity, [string]>;
+    let spyPersistEntity: jest.Mock<TestEntity | undefined, [TestEntity]>;
+    let spyCreateEntity: jest.Mock<TestEntity | undefined, [TestEntity]>;
+    let spyDeleteEntity: jest.Mock<undefined, [string]>;
+    let spyError: jest.Mock<undefined, [Error]>;
+    let repository: TestRepository;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected mutationQueueStorage = storage;
+
+        protected async fetchById(id: string): Promise<TestEntity> {
+            return spyFetchById(id);
+        }
+
+        protected async persistEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return online(() => spyPersistEntity(raw));
+        }
+
+        protected async createEntity(raw: TestEntity): Promise<TestEntity | undefined> {
+            return online(() => spyCreateEntity(raw));
+        }
+
+        protected async deleteEntity(id: string): Promise<void> {
+            return online(() => spyDeleteEntity(id));
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+
+        protected isOfflineError(error: Error): boolean {
+            return error.message === "Offline.";
+        }
+    }
+
+    function online<T>(request: () => T): T {
+        if (isOffline) {
+            throw new Error("Offline.");
+        }
+        return request();
+    }
+
+    async function edit(id: string, name: string): Promise<void> {
+        const copy = await repository.mutableCopyByIdAsync("batch", id);
+        runInAction(() => (copy!.name = name));
+    }
+
+    beforeEach(() => {
+        isOffline = false;
+        storage = new InMemoryMutationQueueStorage();
+        spyFetchById = jest.fn((id: string) => ({ id, name: `name-${id}` }));
+        spyPersistEntity = jest.fn((raw: TestEntity) => ({ ...raw, name: `${raw.name} (saved)` }));
+        spyCreateEntity = jest.fn((raw: TestEntity) => raw);
+        spyDeleteEntity = jest.fn();
+        spyError = jest.fn();
+        repository = new TestRepository();
+        repository.addErrorListener(spyError);
+    });
+
+    it("has an empty queue", () => expect(repository.mutationQueueLength()).toBe(0));
+
+    it("is idle", () => expect(repository.mutationQueueStatus()).toBe(MutationQueueStatus.IDLE));
+
+    describe("saving while online", () => {
+        beforeEach(async () => {
+            await edit("some", "changed");
+            await repository.save("batch", "some");
+        });
+
+        it("sends the entity", () => expect(spyPersistEntity).toHaveBeenCalledWith({ id: "some", name: "changed" }));
+
+        it("doesn't queue the mutation", () => expect(repository.mutationQueueLength()).toBe(0));
+    });
+
+    describe("saving while offline", () => {
+        let saved: TestEntity;
+
+        beforeEach(async () => {
+            await edit("some", "changed");
+            isOffline = true;
+            saved = await repository.save("batch", "some");
+        });
+
+        it("resolves to the changed entity", () => expect(saved).toEqual({ id: "some", name: "changed" }));
+
+        it("applies the change to the cache", () =>
+            expect(repository.byId("some")).toEqual({ id: "some", name: "changed" }));
+
+        it("queues the mutation", () => expect(repository.mutationQueueLength()).toBe(1));
+
+        it("reports the queue as queued", () =>
+            expect(repository.mutationQueueStatus()).toBe(MutationQueueStatus.QUEUED));
+
+        it("is still saving the entity", () =>
+            expect(repository.saveStatusOf("some").status).toBe(RequestStatus.IN_PROGRESS));
+
+        it("stores the queue", () =>
+            expect(storage.load()).resolves.toEqual([
+                { type: "save", id: "some", raw: { id: "some", name: "changed" }, isNew: false },
+            ]));
+
+        it("doesn't report an error", () => expect(spyError).not.toHaveBeenCalled());
+
+        it("keeps the change when the entity is reloaded", async () => {
+            await repository.reloadId("some");
+            expect(repository.byId("some")).toEqual({ id: "some", name: "changed" });
+        });
+
+        describe("saving again after the backend is reachable again", () => {
+            beforeEach(async () => {
+                isOffline = false;
+                await edit("some", "changed again");
+                await repository.save("batch", "some");
+            });
+
+            it("queues the mutation behind the other one", () => expect(repository.mutationQueueLength()).toBe(2));
+
+            it("doesn't send the entity", () => expect(spyPersistEntity).not.toHaveBeenCalled());
+
+            describe("after replaying the queue", () => {
+                beforeEach(() => repository.replayMutations());
+
+                it("sends the mutations in order", () =>
+                    expect(spyPersistEntity.mock.calls).toEqual([
+                        [{ id: "some", name: "changed" }],
+                        [{ id: "some", name: "changed again" }],
+                    ]));
+
+                it("applies the last response", () =>
+                    expect(repository.byId("some")).toEqual({ id: "some", name: "changed again (saved)" }));
+
+                it("empties the queue", () => expect(repository.mutationQueueLength()).toBe(0));
+            });
+
+            describe("with the first mutation failing", () => {
+                beforeEach(async () => {
+                    spyPersistEntity.mockImplementationOnce(() => {
+                        throw new Error("Conflict.");
+                    });
+                    await repository.replayMutations();
+                });
+
+                it("reports the error", () => expect(spyError).toHaveBeenCalledWith(new Error("Conflict.")));
+
+                it("keeps the entity with the second mutation", () =>
+                    expect(repository.byId("some")).toEqual({ id: "some", name: "changed again (saved)" }));
+            });
+        });
+
+        describe("saving the batch after the backend is reachable again", () => {
+            let result: BatchSaveResult<TestEntity, string>;
+
+            beforeEach(async () => {
+                isOffline = false;
+                await edit("some", "changed again");
+                result = await repository.saveBatch("batch");
+            });
+
+            it("resolves to the changed entity", () =>
+                expect(result).toEqual({ saved: [{ id: "some", name: "changed again" }], failed: [] }));
+
+            it("queues the mutation behind the other one", () => expect(repository.mutationQueueLength()).toBe(2));
+
+            it("doesn't send the entity", () => expect(spyPersistEntity).not.toHaveBeenCalled());
+
+            describe("after replaying the queue", () => {
+                beforeEach(() => repository.replayMutations());
+
+                it("applies the last response", () =>
+                    expect(repository.byId("some")).toEqual({ id: "some", name: "changed again (saved)" }));
+            });
+        });
+
+        describe("updating optimistically after the backend is reachable again", () => {
+            beforeEach(async () => {
+                isOffline = false;
+                await repository.updateOptimistic("some", (entity) => (entity.name = "updated"));
+            });
+
+            it("queues the mutation behind the other one", () => expect(repository.mutationQueueLength()).toBe(2));
+
+            it("doesn't send the entity", () => expect(spyPersistEntity).not.toHaveBeenCalled());
+
+            describe("after replaying the queue", () => {
+                beforeEach(() => repository.replayMutations());
+
+                it("applies the last response", () =>
+                    expect(repository.byId("some")).toEqual({ id: "some", name: "updated (saved)" }));
+            });
+        });
+
+        describe("replaying while still offline", () => {
+            beforeEach(() => repository.replayMutations());
+
+            it("keeps the mutation", () => expect(repository.mutationQueueLength()).toBe(1));
+
+            it("reports the queue as queued", () =>
+                expect(repository.mutationQueueStatus()).toBe(MutationQueueStatus.QUEUED));
+        });
+
+        describe("replaying after the backend is reachable again", () => {
+            beforeEach(() => (isOffline = false));
+
+            it("reports the queue as replaying", async () => {
+                const replay = repository.replayMutations();
+                expect(repository.mutationQueueStatus()).toBe(MutationQueueStatus.REPLAYING);
+                await replay;
+            });
+
+            it("doesn't replay twice if invoked while replaying", async () => {
+                await Promise.all([repository.replayMutations(), repository.replayMutations()]);
+                expect(spyPersistEntity).toHaveBeenCalledTimes(1);
+            });
+
+            describe("after the replay", () => {
+                beforeEach(() => repository.replayMutations());
+
+                it("sends the entity", () =>
+                    expect(spyPersistEntity).toHaveBeenCalledWith({ id: "some", name: "changed" }));
+
+                it("applies the response", () =>
+                    expect(repository.byId("some")).toEqual({ id: "some", name: "changed (saved)" }));
+
+                it("empties the queue", () => expect(repository.mutationQueueLength()).toBe(0));
+
+                it("is idle", () => expect(repository.mutationQueueStatus()).toBe(MutationQueueStatus.IDLE));
+
+                it("is done saving the entity", () =>
+                    expect(repository.saveStatusOf("some").status).toBe(RequestStatus.DONE));
+
+                it("stores the empty queue", () => expect(storage.load()).resolves.toEqual([]));
+            });
+        });
+
+        describe("replaying with the backend rejecting the mutation", () => {
+            beforeEach(async () => {
+                isOffline = false;
+                spyPersistEntity.mockImplementation(() => {
+                    throw new Error("Conflict.");
+                });
+                await repository.replayMutations();
+            });
+
+            it("drops the mutation", () => expect(repository.mutationQueueLength()).toBe(0));
+
+            it("reports the error", () => expect(spyError).toHaveBeenCalledWith(new Error("Conflict.")));
+
+            it("reports the save status as failed", () =>
+                expect(repository.saveStatusOf("some")).toEqual({
+                    status: RequestStatus.ERROR,
+                    error: new Error("Conflict."),
+                }));
+
+            it("evicts the entity", () => expect(repository.isLoaded("some")).toBe(false));
+
+            it("reloads the entity from the backend", async () =>
+                expect(await repository.byIdAsync("some")).toEqual({ id: "some", name: "name-some" }));
+        });
+    });
+
+    describe("replaying with applying a response failing", () => {
+        let replay: Promise<void>;
+
+        class FailingTestRepository extends TestRepository {
+            protected deserialize(raw: TestEntity): TestEntity {
+                if (raw.name === "broken (saved)") {
+                    throw new Error("Malformed response.");
+                }
+                return raw;
+            }
+        }
+
+        beforeEach(async () => {
+            repository = new FailingTestRepository();
+            repository.addErrorListener(spyError);
+            await edit("some", "broken");
+            await edit("other", "changed");
+            isOffline = true;
+            await repository.save("batch", "some");
+            await repository.save("batch", "other");
+            isOffline = false;
+            replay = repository.replayMutations();
+            await replay.catch(() => undefined);
+        });
+
+        it("rejects", () => expect(replay).rejects.toEqual(new Error("Malformed response.")));
+
+        it("keeps the other mutation", () => expect(repository.mutationQueueLength()).toBe(1));
+
+        it("doesn't report an error", () => expect(spyError).not.toHaveBeenCalled());
+
+        it("keeps the other entity", () => expect(repository.byId("other")).toEqual({ id: "other", name: "changed" }));
+
+        describe("after replaying again", () => {
+            beforeEach(() => repository.replayMutations());
+
+            it("sends the other mutation", () =>
+                expect(spyPersistEntity).toHaveBeenLastCalledWith({ id: "other", name: "changed" }));
+
+            it("empties the queue", () => expect(repository.mutationQueueLength()).toBe(0));
+        });
+    });
+
+    describe("creating while offline", () => {
+        beforeEach(async () => {
+            repository.setMutableCopy("batch", { id: "new", name: "new entity" });
+            isOffline = true;
+            await repository.save("batch", "new");
+        });
+
+        it("adds the entity to the cache", () =>
+            expect(repository.byId("new")).toEqual({ id: "new", name: "new entity" }));
+
+        it("queues the creation", () =>
+            expect(storage.load()).resolves.toEqual([
+                { type: "save", id: "new", raw: { id: "new", name: "new entity" }, isNew: true },
+            ]));
+
+        describe("after replaying the queue", () => {
+            beforeEach(async () => {
+                isOffline = false;
+                await repository.replayMutations();
+            });
+
+            it("creates the entity", () =>
+                expect(spyCreateEntity).toHaveBeenCalledWith({ id: "new", name: "new entity" }));
+
+            it("doesn't persist the entity", () => expect(spyPersistEntity).not.toHaveBeenCalled());
+        });
+    });
+
+    describe("deleting while offline", () => {
+        beforeEach(async () => {
+            await repository.byIdAsync("some");
+            isOffline = true;
+            await repository.deleteById("some");
+        });
+
+        it("removes the entity from the cache", () => expect(repository.isLoaded("some")).toBe(false));
+
+        it("is still deleting the entity", () =>
+            expect(repository.saveStatusOf("some").status).toBe(RequestStatus.IN_PROGRESS));
+
+        it("queues the deletion", () => expect(storage.load()).resolves.toEqual([{ type: "delete", id: "some" }]));
+
+        describe("after replaying the queue", () => {
+            beforeEach(async () => {
+                isOffline = false;
+                await repository.replayMutations();
+            });
+
+            it("deletes the entity", () => expect(spyDeleteEntity).toHaveBeenCalledWith("some"));
+
+            it("is done deleting the entity", () =>
+                expect(repository.saveStatusOf("some").status).toBe(RequestStatus.DONE));
+        });
+    });
+
+    describe("saving a batch while offline", () => {
+        let result: BatchSaveResult<TestEntity, string>;
+
+        beforeEach(async () => {
+            await edit("some", "changed");
+            await edit("other", "changed");
+            isOffline = true;
+            result = await repository.saveBatch("batch");
+        });
+
+        it("resolves to the changed entities", () =>
+            expect(result).toEqual({
+                saved: [
+                    { id: "some", name: "changed" },
+                    { id: "other", name: "changed" },
+                ],
+                failed: [],
+            }));
+
+        it("queues the mutations", () =>
+            expect(storage.load()).resolves.toEqual([
+                { type: "save", id: "some", raw: { id: "some", name: "changed" }, isNew: false },
+                { type: "save", id: "other", raw: { id: "other", name: "changed" }, isNew: false },
+            ]));
+
+        it("is still saving the entities", () =>
+            expect(repository.saveStatusOf("other").status).toBe(RequestStatus.IN_PROGRESS));
+
+        it("doesn't report an error", () => expect(spyError).not.toHaveBeenCalled());
+    });
+
+    describe("saving a batch with the backend becoming unreachable and another entity failing", () => {
+        let result: BatchSaveResult<TestEntity, string>;
+
+        beforeEach(async () => {
+            await edit("some", "changed");
+            repository.setMutableCopy("batch", { id: "new", name: "new entity" });
+            spyPersistEntity.mockImplementationOnce(() => {
+                throw new Error("Offline.");
+            });
+            spyCreateEntity.mockImplementationOnce(() => {
+                throw new Error("Conflict.");
+            });
+            result = await repository.saveBatch("batch");
+        });
+
+        it("fails to save both entities", () =>
+            expect(result.failed.map(({ id }) => id).sort()).toEqual(["new", "some"]));
+
+        it("removes the queued mutation", () => expect(repository.mutationQueueLength()).toBe(0));
+
+        it("stores the empty queue", () => expect(storage.load()).resolves.toEqual([]));
+
+        it("doesn't commit the entity", () =>
+            expect(repository.byId("some")).toEqual({ id: "some", name: "name-some" }));
+    });
+
+    describe("updating optimistically while offline", () => {
+        let updated: TestEntity;
+
+        beforeEach(async () => {
+            await repository.byIdAsync("some");
+            isOffline = true;
+            updated = await repository.updateOptimistic("some", (entity) => (entity.name = "updated"));
+        });
+
+        it("resolves to the updated entity", () => expect(updated).toEqual({ id: "some", name: "updated" }));
+
+        it("keeps the update", () => expect(repository.byId("some")).toEqual({ id: "some", name: "updated" }));
+
+        it("queues the mutation", () =>
+            expect(storage.load()).resolves.toEqual([
+                { type: "save", id: "some", raw: { id: "some", name: "updated" }, isNew: false },
+            ]));
+
+        it("is still saving the entity", () =>
+            expect(repository.saveStatusOf("some").status).toBe(RequestStatus.IN_PROGRESS));
+
+        it("doesn't report an error", () => expect(spyError).not.toHaveBeenCalled());
+
+        describe("after replaying the queue", () => {
+            beforeEach(async () => {
+                isOffline = false;
+                await repository.replayMutations();
+            });
+
+            it("applies the response", () =>
+                expect(repository.byId("some")).toEqual({ id: "some", name: "updated (saved)" }));
+
+            it("is done saving the entity", () =>
+                expect(repository.saveStatusOf("some").status).toBe(RequestStatus.DONE));
+        });
+    });
+
+    describe("with `maxEntries`", () => {
+        class LimitedTestRepository extends TestRepository {
+            protected maxEntries = 1;
+        }
+
+        beforeEach(async () => {
+            repository = new LimitedTestRepository();
+            await edit("some", "changed");
+            isOffline = true;
+            await repository.save("batch", "some");
+            repository.discardMutableCopy("batch", "some");
+            await repository.byIdAsync("other");
+        });
+
+        it("doesn't evict entities with queued mutations", () => expect(repository.isLoaded("some")).toBe(true));
+    });
+
+    describe("with `resolveMutationConflict`", () => {
+        let spyResolveMutationConflict: jest.Mock<
+            QueuedMutation<string, TestEntity> | undefined,
+            [QueuedMutation<string, TestEntity>, Error]
+        >;
+
+        class ResolvingTestRepository extends TestRepository {
+            protected async resolveMutationConflict(
+                mutation: QueuedMutation<string, TestEntity>,
+                error: Error,
+            ): Promise<QueuedMutation<string, TestEntity> | undefined> {
+                return spyResolveMutationConflict(mutation, error);
+            }
+        }
+
+        beforeEach(async () => {
+            spyResolveMutationConflict = jest.fn<
+                QueuedMutation<string, TestEntity> | undefined,
+                [QueuedMutation<string, TestEntity>, Error]
+            >(() => ({
+                type: "save",
+                id: "some",
+                raw: { id: "some", name: "merged" },
+                isNew: false,
+            }));
+            repository = new ResolvingTestRepository();
+            await edit("some", "changed");
+            isOffline = true;
+            await repository.save("batch", "some");
+            isOffline = false;
+            spyPersistEntity.mockImplementationOnce(() => {
+                throw new Error("Conflict.");
+            });
+            await repository.replayMutations();
+        });
+
+        it("invokes the hook with the mutation and the error", () =>
+            expect(spyResolveMutationConflict).toHaveBeenCalledWith(
+                { type: "save", id: "some", raw: { id: "some", name: "changed" }, isNew: false },
+                new Error("Conflict."),
+            ));
+
+        it("sends the replacement", () =>
+            expect(spyPersistEntity).toHaveBeenLastCalledWith({ id: "some", name: "merged" }));
+
+        it("applies the response", () =>
+            expect(repository.byId("some")).toEqual({ id: "some", name: "merged (saved)" }));
+
+        it("doesn't report an error", () => expect(spyError).not.toHaveBeenCalled());
+    });
+
+    describe("restoring the queue", () => {
+        beforeEach(async () => {
+            await storage.store([
+                { type: "save", id: "some", raw: { id: "some", name: "changed" }, isNew: false },
+                { type: "delete", id: "other" },
+            ]);
+            await repository.restoreMutations();
+        });
+
+        it("restores the queue", () => expect(repository.mutationQueueLength()).toBe(2));
+
+        it("applies saved entities to the cache", () =>
+            expect(repository.byId("some")).toEqual({ id: "some", name: "changed" }));
+
+        it("applies deletions to the cache", () =>
+            expect(repository.statusOf("other").status).toBe(RequestStatus.NOT_FOUND));
+
+        it("is still saving the entities", () =>
+            expect(repository.saveStatusOf("other").status).toBe(RequestStatus.IN_PROGRESS));
+
+        describe("after replaying the queue", () => {
+            beforeEach(() => repository.replayMutations());
+
+            it("saves the entity", () => expect(spyPersistEntity).toHaveBeenCalledWith({ id: "some", name: "changed" }));
+
+            it("deletes the entity", () => expect(spyDeleteEntity).toHaveBeenCalledWith("other"));
+        });
+    });
+
+    describe("restoring a deletion of an entity that failed to delete", () => {
+        beforeEach(async () => {
+            spyDeleteEntity.mockImplementation(() => {
+                throw new Error("Some error");
+            });
+            await repository.byIdAsync("other");
+            await repository.deleteById("other").catch(() => undefined);
+            await storage.store([{ type: "delete", id: "other" }]);
+            await repository.restoreMutations();
+        });
+
+        it("applies the deletion to the cache", () =>
+            expect(repository.statusOf("other").status).toBe(RequestStatus.NOT_FOUND));
+
+        it("is deleting the entity again", () =>
+            expect(repository.saveStatusOf("other").status).toBe(RequestStatus.IN_PROGRESS));
+    });
+
+    describe("replaying after saving an invalid copy of an entity with a queued mutation", () => {
+        beforeEach(async () => {
+            await edit("some", "changed");
+            await edit("other", "changed");
+            isOffline = true;
+            await repository.save("batch", "some");
+            await repository.save("batch", "other");
+            isOffline = false;
+            repository.addValidator({ validate: (entity) => (entity.name ? undefined : "Name is required.") });
+            await edit("some", "");
+            await repository.save("batch", "some").catch(() => undefined);
+        });
+
+        describe("with the backend accepting the mutations", () => {
+            beforeEach(() => repository.replayMutations());
+
+            it("sends both mutations", () => expect(spyPersistEntity).toHaveBeenCalledTimes(2));
+
+            it("is done saving the entity", () =>
+                expect(repository.saveStatusOf("some").status).toBe(RequestStatus.DONE));
+
+            it("only reports the invalid copy", () =>
+                expect(spyError.mock.calls).toEqual([[expect.any(InvalidEntityError)]]));
+        });
+
+        describe("with the backend rejecting the mutation", () => {
+            beforeEach(async () => {
+                spyPersistEntity.mockImplementationOnce(() => {
+                    throw new Error("Conflict.");
+                });
+                await repository.replayMutations();
+            });
+
+            it("reports the save status as failed", () =>
+                expect(repository.saveStatusOf("some")).toEqual({
+                    status: RequestStatus.ERROR,
+                    error: new Error("Conflict."),
+                }));
+
+            it("sends the other mutation", () =>
+                expect(spyPersistEntity).toHaveBeenLastCalledWith({ id: "other", name: "changed" }));
+        });
+    });
+});
+
+describe("IndexableRepository aggregating requests", () => {
+    interface TestEntity {
+        id: string;
+    }
+
+    let resolvers: Map<string, (entity: TestEntity) => void>;
+    let repository: IndexableRepository<TestEntity>;
+
+    class TestRepository extends IndexableRepository<TestEntity> {
+        protected fetchById(id: string): Promise<TestEntity> {
+            if (id === "broken") {
+                return Promise.reject(new Error("Some error"));
+            }
+            return new Promise((resolve) => resolvers.set(id, resolve));
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(() => {
+        resolvers = new Map();
+        repository = new TestRepository();
+        repository.addErrorListener(() => undefined);
+    });
+
+    it("isn't busy initially", () => expect(repository.isBusy()).toBe(false));
+
+    it("has no pending requests initially", () => expect(repository.pendingCount()).toBe(0));
+
+    it("has no failed requests initially", () => expect(repository.failedRequests()).toEqual([]));
+
+    describe("while loading entities", () => {
+        beforeEach(() => {
+            repository.byIdAsync("a");
+            repository.byIdAsync("b");
+        });
+
+        it("is busy", () => expect(repository.isBusy()).toBe(true));
+
+        it("counts the pending requests", () => expect(repository.pendingCount()).toBe(2));
+
+        describe("after the entities loaded", () => {
+            beforeEach(async () => {
+                resolvers.forEach((resolve, id) => resolve({ id }));
+                await repository.waitForIdle();
+            });
+
+            it("isn't busy", () => expect(repository.isBusy()).toBe(false));
+        });
+    });
+
+    describe("after an entity failed to load", () => {
+        beforeEach(() => repository.byIdAsync("broken"));
+
+        it("lists the failed request", () =>
+            expect(repository.failedRequests()).toEqual([{ id: "broken", error: new Error("Some error") }]));
+    });
+});
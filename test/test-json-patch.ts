@@ -0,0 +1,228 @@
+import { createPatch, applyPatch, JsonPatchOperation } from "../src";
+
+describe("createPatch", () => {
+    class TestEntity {
+        constructor(public values: Record<string, unknown>) {
+            Object.assign(this, values);
+        }
+    }
+
+    it("returns no operations for equal documents", () =>
+        expect(createPatch({ a: 1, list: [1, 2], nested: { b: 2 } }, { a: 1, list: [1, 2], nested: { b: 2 } })).toEqual(
+            [],
+        ));
+
+    it("creates `remove`, `add` and `replace` operations", () =>
+        expect(createPatch<Record<string, unknown>>({ a: 1, b: 2 }, { b: 3, c: 4 })).toEqual([
+            { op: "remove", path: "/a" },
+            { op: "replace", path: "/b", value: 3 },
+            { op: "add", path: "/c", value: 4 },
+        ]));
+
+    it("compares nested plain objects recursively", () =>
+        expect(createPatch({ nested: { a: 1, b: 2 } }, { nested: { a: 1, b: 3 } })).toEqual([
+            { op: "replace", path: "/nested/b", value: 3 },
+        ]));
+
+    it("replaces arrays as a whole", () =>
+        expect(createPatch({ list: [1, 2] }, { list: [1, 3] })).toEqual([
+            { op: "replace", path: "/list", value: [1, 3] },
+        ]));
+
+    it("replaces values that aren't plain objects", () =>
+        expect(createPatch<{ value: unknown }>({ value: { a: 1 } }, { value: new Date(0) })).toEqual([
+            { op: "replace", path: "/value", value: new Date(0) },
+        ]));
+
+    it("escapes keys", () =>
+        expect(createPatch<Record<string, unknown>>({}, { "a/b~c": 1 })).toEqual([
+            { op: "add", path: "/a~1b~0c", value: 1 },
+        ]));
+
+    it("compares the properties of class instances", () =>
+        expect(createPatch(new TestEntity({ a: 1 }), new TestEntity({ a: 2 }))).toContainEqual({
+            op: "replace",
+            path: "/a",
+            value: 2,
+        }));
+});
+
+describe("applyPatch", () => {
+    interface TestDocument {
+        a?: unknown;
+        b?: unknown;
+        list?: number[];
+        nested?: { c?: number; d?: number } | null;
+        [key: string]: unknown;
+    }
+
+    let document: TestDocument;
+
+    beforeEach(() => (document = { a: 1, list: [1, 2, 3], nested: { c: 3 } }));
+
+    function apply(...patch: JsonPatchOperation[]): TestDocument {
+        return applyPatch(document, patch);
+    }
+
+    it("modifies the document in place", () => {
+        expect(apply({ op: "add", path: "/b", value: 2 })).toBe(document);
+        expect(document.b).toBe(2);
+    });
+
+    it("returns the document unchanged for an empty patch", () =>
+        expect(apply()).toEqual({ a: 1, list: [1, 2, 3], nested: { c: 3 } }));
+
+    describe("`add`", () => {
+        it("adds nested properties", () =>
+            expect(apply({ op: "add", path: "/nested/d", value: 4 }).nested).toEqual({ c: 3, d: 4 }));
+
+        it("inserts into arrays", () =>
+            expect(apply({ op: "add", path: "/list/1", value: 9 }).list).toEqual([1, 9, 2, 3]));
+
+        it("appends to arrays at the end", () =>
+            expect(apply({ op: "add", path: "/list/3", value: 9 }).list).toEqual([1, 2, 3, 9]));
+
+        it("appends to arrays with `-`", () =>
+            expect(apply({ op: "add", path: "/list/-", value: 9 }).list).toEqual([1, 2, 3, 9]));
+
+        it("replaces the whole document", () =>
+            expect(apply({ op: "add", path: "", value: { b: 2 } })).toEqual({ b: 2 }));
+
+        it("unescapes keys", () => expect(apply({ op: "add", path: "/a~1b~0c", value: 2 })["a/b~c"]).toBe(2));
+
+        it("refuses array indices beyond the end", () =>
+            expect(() => apply({ op: "add", path: "/list/4", value: 9 })).toThrowError(
+                new Error('Invalid array index "4".'),
+            ));
+
+        it("refuses array indices with leading zeros", () =>
+            expect(() => apply({ op: "add", path: "/list/01", value: 9 })).toThrowError(
+                new Error('Invalid array index "01".'),
+            ));
+
+        it("refuses missing parents", () =>
+            expect(() => apply({ op: "add", path: "/missing/d", value: 9 })).toThrowError(
+                new Error('Path "/missing/d" does not exist.'),
+            ));
+
+        it("refuses parents that aren't objects", () =>
+            expect(() => apply({ op: "add", path: "/a/d", value: 9 })).toThrowError(
+                new Error('Path "/a/d" does not exist.'),
+            ));
+
+        it("refuses `null` parents", () => {
+            document.nested = null;
+            expect(() => apply({ op: "add", path: "/nested/d", value: 9 })).toThrowError(
+                new Error('Path "/nested/d" does not exist.'),
+            );
+        });
+
+        it("refuses paths through primitives", () =>
+            expect(() => apply({ op: "add", path: "/a/b/c", value: 9 })).toThrowError(
+                new Error('Path "/a/b/c" does not exist.'),
+            ));
+
+        it("refuses paths through `null`", () => {
+            document.nested = null;
+            expect(() => apply({ op: "add", path: "/nested/c/d", value: 9 })).toThrowError(
+                new Error('Path "/nested/c/d" does not exist.'),
+            );
+        });
+
+        it("refuses invalid pointers", () =>
+            expect(() => apply({ op: "add", path: "a", value: 9 })).toThrowError(
+                new Error('Invalid JSON Pointer "a".'),
+            ));
+
+        test.each(["/__proto__", "/constructor/prototype", "/nested/__proto__/polluted"])(
+            "refuses to modify prototypes via %p",
+            (path) => {
+                expect(() => apply({ op: "add", path, value: { polluted: true } })).toThrowError(
+                    new Error(`Invalid JSON Pointer "${path}".`),
+                );
+                expect(Object.getPrototypeOf(document)).toBe(Object.prototype);
+                expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+            },
+        );
+    });
+
+    describe("`remove`", () => {
+        it("removes properties", () => expect(apply({ op: "remove", path: "/a" })).not.toHaveProperty("a"));
+
+        it("removes array elements", () => expect(apply({ op: "remove", path: "/list/0" }).list).toEqual([2, 3]));
+
+        it("refuses missing properties", () =>
+            expect(() => apply({ op: "remove", path: "/b" })).toThrowError(new Error('Path "/b" does not exist.')));
+
+        it("refuses `-` as array index", () =>
+            expect(() => apply({ op: "remove", path: "/list/-" })).toThrowError(new Error('Invalid array index "-".')));
+
+        it("refuses to remove the whole document", () =>
+            expect(() => apply({ op: "remove", path: "" })).toThrowError(new Error("Can't remove the whole document.")));
+    });
+
+    describe("`replace`", () => {
+        it("replaces properties", () => expect(apply({ op: "replace", path: "/a", value: 2 }).a).toBe(2));
+
+        it("replaces array elements", () =>
+            expect(apply({ op: "replace", path: "/list/1", value: 9 }).list).toEqual([1, 9, 3]));
+
+        it("replaces the whole document", () =>
+            expect(apply({ op: "replace", path: "", value: { b: 2 } })).toEqual({ b: 2 }));
+
+        it("refuses missing properties", () =>
+            expect(() => apply({ op: "replace", path: "/b", value: 2 })).toThrowError(
+                new Error('Path "/b" does not exist.'),
+            ));
+
+        it("refuses missing array elements", () =>
+            expect(() => apply({ op: "replace", path: "/list/3", value: 2 })).toThrowError(
+                new Error('Invalid array index "3".'),
+            ));
+
+        it("refuses to replace prototypes", () =>
+            expect(() => apply({ op: "replace", path: "/__proto__", value: {} })).toThrowError(
+                new Error('Invalid JSON Pointer "/__proto__".'),
+            ));
+    });
+
+    describe("`move`", () => {
+        it("moves values", () =>
+            expect(apply({ op: "move", from: "/nested/c", path: "/b" })).toEqual({
+                a: 1,
+                b: 3,
+                list: [1, 2, 3],
+                nested: {},
+            }));
+
+        it("moves array elements", () =>
+            expect(apply({ op: "move", from: "/list/0", path: "/list/-" }).list).toEqual([2, 3, 1]));
+    });
+
+    describe("`copy`", () => {
+        it("copies values deeply", () => {
+            apply({ op: "copy", from: "/nested", path: "/b" });
+            expect(document.b).toEqual({ c: 3 });
+            expect(document.b).not.toBe(document.nested);
+        });
+    });
+
+    describe("`test`", () => {
+        it("passes for equal values", () => expect(apply({ op: "test", path: "/list", value: [1, 2, 3] })).toBe(document));
+
+        it("throws for different values", () =>
+            expect(() => apply({ op: "test", path: "/a", value: 2 })).toThrowError(
+                new Error('Test operation failed for path "/a".'),
+            ));
+
+        it("keeps previous operations applied", () => {
+            expect(() => apply({ op: "replace", path: "/a", value: 2 }, { op: "test", path: "/a", value: 1 })).toThrow();
+            expect(document.a).toBe(2);
+        });
+    });
+
+    it("refuses unknown operations", () =>
+        expect(() => apply({ op: "unknown", path: "/a" } as unknown as JsonPatchOperation)).toThrowError(
+            new Error('Unknown JSON Patch operation "unknown".'),
+        ));
+});
@@ -0,0 +1,47 @@
+import { shallowMerge, deepMerge } from "../src";
+
+describe("shallowMerge", () => {
+    let existing: { a?: number; b?: number; nested: { c?: number; d?: number } };
+    let returnValue: typeof existing;
+
+    beforeEach(() => {
+        existing = { a: 1, nested: { c: 1 } };
+        returnValue = shallowMerge(existing, { b: 2, nested: { d: 2 } });
+    });
+
+    it("returns the existing object", () => expect(returnValue).toBe(existing));
+
+    it("assigns the top-level properties", () => expect(existing).toEqual({ a: 1, b: 2, nested: { d: 2 } }));
+});
+
+describe("deepMerge", () => {
+    interface TestEntity {
+        a?: number;
+        b?: number;
+        list?: number[];
+        date?: Date;
+        nested?: { c?: number; d?: number };
+    }
+
+    let existing: TestEntity;
+    let nested: TestEntity["nested"];
+    let returnValue: TestEntity;
+
+    beforeEach(() => {
+        nested = { c: 1 };
+        existing = { a: 1, list: [1, 2], date: new Date(1), nested };
+        returnValue = deepMerge(existing, { b: 2, list: [3], date: new Date(2), nested: { d: 2 } });
+    });
+
+    it("returns the existing object", () => expect(returnValue).toBe(existing));
+
+    it("merges nested plain objects", () =>
+        expect(existing).toEqual({ a: 1, b: 2, list: [3], date: new Date(2), nested: { c: 1, d: 2 } }));
+
+    it("keeps the identity of nested plain objects", () => expect(existing.nested).toBe(nested));
+
+    it("replaces nested plain objects with other values", () => {
+        deepMerge(existing, { nested: undefined });
+        expect(existing.nested).toBeUndefined();
+    });
+});
@@ -0,0 +1,37 @@
+import { InMemoryMutationQueueStorage, QueuedMutation } from "../src";
+
+describe("InMemoryMutationQueueStorage", () => {
+    let storage: InMemoryMutationQueueStorage<QueuedMutation<string, string>>;
+
+    beforeEach(() => (storage = new InMemoryMutationQueueStorage()));
+
+    it("is empty initially", () => expect(storage.load()).resolves.toEqual([]));
+
+    describe("after storing mutations", () => {
+        let mutations: QueuedMutation<string, string>[];
+
+        beforeEach(async () => {
+            mutations = [
+                { type: "save", id: "a", raw: "a", isNew: false },
+                { type: "delete", id: "b" },
+            ];
+            await storage.store(mutations);
+        });
+
+        it("loads the mutations", () =>
+            expect(storage.load()).resolves.toEqual([
+                { type: "save", id: "a", raw: "a", isNew: false },
+                { type: "delete", id: "b" },
+            ]));
+
+        it("isn't affected by changing the stored array", async () => {
+            mutations.pop();
+            expect(await storage.load()).toHaveLength(2);
+        });
+
+        it("isn't affected by changing the loaded array", async () => {
+            (await storage.load()).pop();
+            expect(await storage.load()).toHaveLength(2);
+        });
+    });
+});
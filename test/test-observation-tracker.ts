@@ -0,0 +1,111 @@
+import { autorun, IReactionDisposer } from "mobx";
+
+import { ObservationTracker } from "../src";
+
+describe("ObservationTracker", () => {
+    let timers: { callback: () => void; delay?: number }[];
+    let originalSetTimeout: typeof setTimeout;
+    let originalClearTimeout: typeof clearTimeout;
+    let gracePeriod: number | undefined;
+    let spyUnobserved: jest.Mock<undefined, [string]>;
+    let tracker: ObservationTracker<string>;
+
+    beforeEach(() => {
+        originalSetTimeout = global.setTimeout;
+        originalClearTimeout = global.clearTimeout;
+        timers = [];
+        global.setTimeout = ((callback: () => void, delay?: number) => {
+            const timer = { callback, delay };
+            timers.push(timer);
+            return timer;
+        }) as unknown as typeof setTimeout;
+        global.clearTimeout = ((timer: unknown) => {
+            timers = timers.filter((other) => other !== timer);
+        }) as typeof clearTimeout;
+        gracePeriod = 100;
+        spyUnobserved = jest.fn();
+        tracker = new ObservationTracker(() => gracePeriod, spyUnobserved);
+    });
+
+    afterEach(() => {
+        global.setTimeout = originalSetTimeout;
+        global.clearTimeout = originalClearTimeout;
+    });
+
+    describe("when reporting a key outside of a reaction", () => {
+        beforeEach(() => tracker.reportObserved("some"));
+
+        it("doesn't schedule a timer", () => expect(timers).toEqual([]));
+    });
+
+    describe("with a reaction observing a key", () => {
+        let disposer: IReactionDisposer;
+
+        beforeEach(() => {
+            disposer = autorun(() => tracker.reportObserved("some"));
+            tracker.reportObserved("some");
+        });
+
+        it("doesn't schedule a timer", () => expect(timers).toEqual([]));
+
+        it("considers the key observed", () => expect(tracker.isObserved("some")).toBe(true));
+
+        it("doesn't consider other keys observed", () => expect(tracker.isObserved("other")).toBe(false));
+
+        describe("after disposing the reaction", () => {
+            beforeEach(() => disposer());
+
+            it("doesn't consider the key observed", () => expect(tracker.isObserved("some")).toBe(false));
+
+            it("schedules a timer with the grace period", () =>
+                expect(timers).toEqual([{ callback: expect.any(Function), delay: 100 }]));
+
+            describe("after the grace period", () => {
+                beforeEach(() => timers.forEach(({ callback }) => callback()));
+
+                it("calls the callback with the key", () => expect(spyUnobserved).toHaveBeenCalledWith("some"));
+            });
+
+            describe("after observing the key again before the grace period ended", () => {
+                beforeEach(() => {
+                    disposer = autorun(() => tracker.reportObserved("some"));
+                });
+
+                afterEach(() => disposer());
+
+                it("cancels the timer", () => expect(timers).toEqual([]));
+            });
+
+            describe("after resetting", () => {
+                beforeEach(() => tracker.reset());
+
+                it("cancels the timer", () => expect(timers).toEqual([]));
+            });
+        });
+    });
+
+    describe("without a grace period", () => {
+        beforeEach(() => {
+            gracePeriod = undefined;
+            autorun(() => tracker.reportObserved("some"))();
+        });
+
+        it("doesn't schedule a timer", () => expect(timers).toEqual([]));
+    });
+
+    describe("with a custom hash function", () => {
+        beforeEach(() => {
+            tracker = new ObservationTracker(
+                () => gracePeriod,
+                spyUnobserved,
+                (key) => key.toLowerCase(),
+            );
+            const disposer = autorun(() => tracker.reportObserved("some"));
+            autorun(() => tracker.reportObserved("SOME"))();
+            disposer();
+        });
+
+        it("tracks keys with the same hash as the same key", () =>
+            expect(timers).toEqual([{ callback: expect.any(Function), delay: 100 }]));
+    });
+});
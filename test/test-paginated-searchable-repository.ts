@@ -2,7 +2,18 @@
 
 import { autorun } from "mobx";
 
-import { Pagination, PaginatedSearchableRepository, FetchByQueryResult, Segment } from "../src";
+import {
+    Pagination,
+    PaginatedSearchableRepository,
+    FetchByQueryResult,
+    Segment,
+    RetryPolicy,
+    DebugEvent,
+    RequestStatus,
+    FetchError,
+    ResetError,
+    EvictedError,
+} from "../src";
 
 describe("PaginatedSearchableRepository", () => {
     interface TestEntity {
@@ -186,6 +197,16 @@ describe("PaginatedSearchableRepository", () => {
             it("calls `fetchByQuery` with the query", () =>
                 expect(spyFetchByQuery).toBeCalledWith(query, new Segment(pagination)));
 
+            it("reports status `DONE`", () => expect(repository.queryStatus(query)).toEqual({ status: RequestStatus.DONE }));
+
+            it("reports status `DONE` within the pagination", () =>
+                expect(repository.queryStatus(query, pagination)).toEqual({ status: RequestStatus.DONE }));
+
+            it("reports status `NONE` outside of the pagination", () =>
+                expect(repository.queryStatus(query, { offset: 3, count: 2 })).toEqual({ status: RequestStatus.NONE }));
+
+            it("reports no error", () => expect(repository.queryError(query)).toBeUndefined());
+
             it("calls `fetchByQuery` once", () => expect(spyFetchByQuery).toBeCalledTimes(1));
 
             describe("consecutive calls to `byQuery` with same pagination", () => {
@@ -407,6 +428,9 @@ describe("PaginatedSearchableRepository", () => {
                         expect(spyResolve2).not.toHaveBeenCalled();
                         expect(spyReject2).toHaveBeenCalled();
                     });
+
+                    it("was rejected with a `ResetError`", () =>
+                        expect(spyReject1.mock.calls[0][0]).toBeInstanceOf(ResetError));
                 });
 
                 describe("after evicting a contained id", () => {
@@ -418,6 +442,9 @@ describe("PaginatedSearchableRepository", () => {
                         expect(spyResolve2).not.toHaveBeenCalled();
                         expect(spyReject2).toHaveBeenCalled();
                     });
+
+                    it("was rejected with an `EvictedError`", () =>
+                        expect(spyReject1.mock.calls[0][0]).toBeInstanceOf(EvictedError));
                 });
 
                 describe("after loading the missing subrange", () => {
@@ -528,6 +555,50 @@ describe("PaginatedSearchableRepository", () => {
                 it("makes the Promise reject", () => expect(waitForQueryPromise).rejects.toEqual(expect.any(Error)));
             });
         });
+
+        describe("after loading failed", () => {
+            beforeEach(async () => await repository.byQueryAsync(query));
+
+            it("reports status `ERROR` with the error", () =>
+                expect(repository.queryStatus(query, pagination)).toEqual({
+                    status: RequestStatus.ERROR,
+                    error: new Error("Some error"),
+                }));
+
+            it("reports the error", () => expect(repository.queryError(query)).toEqual(new Error("Some error")));
+
+            it("wraps the error in a `FetchError`", () =>
+                expect(repository.queryError(query)).toBeInstanceOf(FetchError));
+
+            describe("`byQueryAsync`", () => {
+                let returnValue: TestEntity[];
+
+                beforeEach(async () => (returnValue = await repository.byQueryAsync(query)));
+
+                it("resolves to an empty array", () => expect(returnValue).toEqual([]));
+
+                it("doesn't call `fetchByQuery` again", () => expect(spyFetchByQuery).toBeCalledTimes(1));
+            });
+
+            describe("`retryQuery`", () => {
+                let returnValue: TestEntity[];
+
+                beforeEach(async () => {
+                    spyFetchByQuery.mockImplementation(() => [{ id: "id-0", value: "value-some-0" }]);
+                    returnValue = await repository.retryQuery(query);
+                });
+
+                it("resolves to the entities", () => expect(returnValue).toEqual([{ id: "id-0", value: "value-some-0" }]));
+
+                it("calls `fetchByQuery` again", () => expect(spyFetchByQuery).toBeCalledTimes(2));
+
+                describe("a consecutive call to `retryQuery`", () => {
+                    beforeEach(async () => await repository.retryQuery(query));
+
+                    it("doesn't call `fetchByQuery` again", () => expect(spyFetchByQuery).toBeCalledTimes(2));
+                });
+            });
+        });
     });
 
     describe("waitForIdle", () => {
@@ -617,3 +688,533 @@ describe("PaginatedSearchableRepository", () => {
         });
     });
 });
+
+describe("PaginatedSearchableRepository with `gcGracePeriod`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchByQuery: jest.Mock<Promise<TestEntity[]>, [string]>;
+    let repository: TestRepository;
+
+    class TestRepository extends PaginatedSearchableRepository<string, TestEntity> {
+        protected gcGracePeriod = 0;
+
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: await spyFetchByQuery(query) };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        spyFetchByQuery = jest.fn(async (query: string) => [{ id: query, value: `value-${query}` }]);
+        repository = new TestRepository();
+        await repository.byQueryAsync("some");
+    });
+
+    describe("after an observer stopped observing the query", () => {
+        beforeEach(async () => {
+            autorun(() => repository.byQuery("some"))();
+            await repository.byQueryAsync("some");
+        });
+
+        it("loads the query again", () => expect(spyFetchByQuery).toHaveBeenCalledTimes(2));
+    });
+
+    describe("after an observer stopped observing a loading query", () => {
+        beforeEach(() => {
+            spyFetchByQuery.mockImplementation(() => new Promise(() => undefined));
+            autorun(() => repository.byQuery("other"))();
+            repository.byQuery("other");
+        });
+
+        it("doesn't load the query again", () => expect(spyFetchByQuery).toHaveBeenCalledTimes(2));
+    });
+
+    describe("after an observer stopped observing an entity of an observed query", () => {
+        let disposer: () => void;
+
+        beforeEach(async () => {
+            disposer = autorun(() => repository.byQuery("some"));
+            autorun(() => repository.byId("some"))();
+            await repository.byQueryAsync("some");
+        });
+
+        afterEach(() => disposer());
+
+        it("keeps the entity", () => expect(repository.isLoaded("some")).toBe(true));
+
+        it("doesn't load the query again", () => expect(spyFetchByQuery).toHaveBeenCalledTimes(1));
+    });
+
+    describe("after an observer stopped observing an entity of an unobserved query", () => {
+        beforeEach(() => autorun(() => repository.byId("some"))());
+
+        it("evicts the entity", () => expect(repository.isLoaded("some")).toBe(false));
+    });
+});
+
+describe("PaginatedSearchableRepository with `maxEntries`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let repository: TestRepository;
+
+    class TestRepository extends PaginatedSearchableRepository<string, TestEntity> {
+        protected maxEntries = 2;
+
+        protected async fetchByQuery(query: string, segment: Segment): Promise<FetchByQueryResult<TestEntity>> {
+            const entities: TestEntity[] = [];
+            for (let i = segment.offset; i < segment.offset + segment.count; ++i) {
+                entities.push({ id: `${query}-${i}`, value: `value-${i}` });
+            }
+            return { entities };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(() => (repository = new TestRepository()));
+
+    describe("loading a query with more results than fit", () => {
+        let returnValue: TestEntity[];
+
+        beforeEach(async () => (returnValue = await repository.byQueryAsync("some", { offset: 0, count: 3 })));
+
+        it("resolves to all results", () =>
+            expect(returnValue).toEqual([
+                { id: "some-0", value: "value-0" },
+                { id: "some-1", value: "value-1" },
+                { id: "some-2", value: "value-2" },
+            ]));
+
+        describe("after loading another segment", () => {
+            beforeEach(async () => (returnValue = await repository.byQueryAsync("some", { offset: 0, count: 5 })));
+
+            it("resolves to the results of all segments", () =>
+                expect(returnValue.map(({ id }) => id)).toEqual(["some-0", "some-1", "some-2", "some-3", "some-4"]));
+        });
+
+        describe("after loading another query", () => {
+            beforeEach(() => repository.byQueryAsync("other", { offset: 0, count: 1 }));
+
+            it("evicts the results of the finished query", () =>
+                expect([...repository.entities.keys()]).toEqual(["some-2", "other-0"]));
+
+            it("forgets about the finished query", () =>
+                expect(repository.byQuery("some", { offset: 0, count: 3 })).toEqual([]));
+        });
+    });
+});
+
+describe("PaginatedSearchableRepository with a `retryPolicy`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchByQuery: jest.Mock<TestEntity[], [string]>;
+    let repository: TestRepository;
+    let returnValue: TestEntity[];
+
+    class TestRepository extends PaginatedSearchableRepository<string, TestEntity> {
+        protected retryPolicy = new RetryPolicy({ maxAttempts: 3 });
+
+        public attemptsOf(query: string): number {
+            return this.stateByQuery.get(query).attempts;
+        }
+
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: spyFetchByQuery(query) };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        spyFetchByQuery = jest
+            .fn()
+            .mockImplementationOnce(() => {
+                throw new Error("Some error");
+            })
+            .mockImplementationOnce((query: string) => [{ id: query, value: `value-${query}` }]);
+        repository = new TestRepository();
+        returnValue = await repository.byQueryAsync("some");
+    });
+
+    it("resolves to the entities", () => expect(returnValue).toEqual([{ id: "some", value: "value-some" }]));
+
+    it("calls `fetchByQuery` twice", () => expect(spyFetchByQuery).toBeCalledTimes(2));
+
+    it("counts both attempts", () => expect(repository.attemptsOf("some")).toBe(2));
+});
+
+describe("PaginatedSearchableRepository with `AbortSignal`s", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let requests: { segment: Segment; signal: AbortSignal; resolve: (entities: TestEntity[]) => void }[];
+    let repository: TestRepository;
+    let spyDebug: jest.Mock<undefined, [DebugEvent]>;
+
+    class TestRepository extends PaginatedSearchableRepository<string, TestEntity> {
+        protected async fetchByQuery(
+            _query: string,
+            segment: Segment,
+            signal: AbortSignal,
+        ): Promise<FetchByQueryResult<TestEntity>> {
+            const entities = await new Promise<TestEntity[]>((resolve) => requests.push({ segment, signal, resolve }));
+            return { entities };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    function resolveRequest(index: number, prefix: string): Promise<void> {
+        const { segment, resolve } = requests[index];
+        const entities: TestEntity[] = [];
+        for (let i = segment.offset; i < segment.offset + segment.count; ++i) {
+            entities.push({ id: `id-${i}`, value: `${prefix}-${i}` });
+        }
+        resolve(entities);
+        return new Promise((done) => process.nextTick(done));
+    }
+
+    beforeEach(() => {
+        requests = [];
+        repository = new TestRepository();
+        spyDebug = jest.fn();
+        repository.addDebugListener(spyDebug);
+        repository.byQuery("some", { offset: 0, count: 2 });
+    });
+
+    it("passes a signal to `fetchByQuery`", () => expect(requests[0].signal.aborted).toBe(false));
+
+    it("reports status `IN_PROGRESS`", () =>
+        expect(repository.queryStatus("some")).toEqual({ status: RequestStatus.IN_PROGRESS }));
+
+    describe("after resetting the repository", () => {
+        beforeEach(async () => {
+            repository.reset();
+            requests[0].resolve([{ id: "late", value: "late" }]);
+            await new Promise((resolve) => process.nextTick(resolve));
+        });
+
+        it("aborts the signal", () => expect(requests[0].signal.aborted).toBe(true));
+
+        it("doesn't add the late result", () => expect(repository.isLoaded("late")).toBe(false));
+
+        it("reports the dropped response", () =>
+            expect(spyDebug).toHaveBeenCalledWith({
+                type: "dropped-response",
+                key: "some",
+                reason: new Error("Request was aborted."),
+            }));
+    });
+
+    describe("after reloading the loading query", () => {
+        let reloadPromise: Promise<TestEntity[]>;
+
+        beforeEach(async () => {
+            reloadPromise = repository.reloadQuery("some", { offset: 0, count: 2 });
+            await resolveRequest(1, "reloaded");
+            await resolveRequest(0, "late");
+        });
+
+        it("aborts the first signal", () => expect(requests[0].signal.aborted).toBe(true));
+
+        it("resolves to the reloaded entities", () =>
+            expect(reloadPromise).resolves.toEqual([
+                { id: "id-0", value: "reloaded-0" },
+                { id: "id-1", value: "reloaded-1" },
+            ]));
+
+        it("keeps the reloaded entities", () =>
+            expect(repository.byId("id-0")).toEqual({ id: "id-0", value: "reloaded-0" }));
+
+        it("reports the dropped response once", () => expect(spyDebug).toHaveBeenCalledTimes(1));
+    });
+
+    describe("after evicting an entity of a partially loaded query", () => {
+        beforeEach(async () => {
+            await resolveRequest(0, "first");
+            repository.byQuery("some", { offset: 0, count: 4 });
+            repository.evict("id-0");
+            await resolveRequest(1, "late");
+        });
+
+        it("loads the missing segment", () => expect(requests[1].segment).toEqual(new Segment({ offset: 2, count: 2 })));
+
+        it("aborts the signal of the missing segment", () => expect(requests[1].signal.aborted).toBe(true));
+
+        it("doesn't add the late result", () => expect(repository.isLoaded("id-2")).toBe(false));
+
+        it("doesn't know the query", () => expect(repository.byQuery("some", { offset: 0, count: 2 })).toEqual([]));
+    });
+});
+
+describe("PaginatedSearchableRepository with a `requestTimeout`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let repository: TestRepository;
+    let spyError: jest.Mock<undefined, [Error]>;
+    let waitForQueryPromise: Promise<void>;
+
+    class TestRepository extends PaginatedSearchableRepository<string, TestEntity> {
+        protected requestTimeout = 1000;
+
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: [{ id: query, value: `value-${query}` }] };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        repository = new TestRepository();
+        spyError = jest.fn();
+        repository.addErrorListener(spyError);
+        // As `setTimeout` is invoked synchronously in this file, every request times out immediately.
+        waitForQueryPromise = repository.waitForQuery("some");
+        await repository.byQueryAsync("some");
+        await waitForQueryPromise.catch(() => undefined);
+    });
+
+    it("rejects the waiting Promise", () => expect(waitForQueryPromise).rejects.toEqual(new Error("Request timed out.")));
+
+    it("doesn't call the error listener", () => expect(spyError).not.toHaveBeenCalled());
+
+    it("doesn't add the result", () => expect(repository.isLoaded("some")).toBe(false));
+});
+
+describe("PaginatedSearchableRepository with `deserialize`", () => {
+    interface TestEntityJson {
+        id: string;
+        value: string;
+    }
+
+    class TestEntity {
+        public id: string;
+        public value: string;
+
+        constructor({ id, value }: TestEntityJson) {
+            this.id = id;
+            this.value = value;
+        }
+    }
+
+    let returnValue: TestEntity[];
+
+    class TestRepository extends PaginatedSearchableRepository<string, TestEntity, string, string, TestEntityJson> {
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntityJson>> {
+            return { entities: [{ id: query, value: `value-${query}` }] };
+        }
+
+        protected async fetchById(): Promise<TestEntityJson> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+
+        protected deserialize(raw: TestEntityJson): TestEntity {
+            return new TestEntity(raw);
+        }
+    }
+
+    beforeEach(async () => (returnValue = await new TestRepository().byQueryAsync("some")));
+
+    it("resolves to the deserialized entities", () => expect(returnValue[0]).toBeInstanceOf(TestEntity));
+
+    it("resolves to the entities' values", () => expect(returnValue).toEqual([{ id: "some", value: "value-some" }]));
+});
+
+describe("PaginatedSearchableRepository keying queries", () => {
+    interface TestEntity {
+        id: string;
+    }
+
+    interface TestQuery {
+        search: string;
+        sort?: string;
+    }
+
+    let spyFetchByQuery: jest.Mock<TestEntity[], [TestQuery, Pagination]>;
+    let repository: PaginatedSearchableRepository<TestQuery, TestEntity>;
+
+    class TestRepository extends PaginatedSearchableRepository<TestQuery, TestEntity> {
+        protected async fetchByQuery(
+            query: TestQuery,
+            pagination: Pagination,
+        ): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: spyFetchByQuery(query, pagination) };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    class CaseInsensitiveTestRepository extends TestRepository {
+        protected keyOf(query: TestQuery): string {
+            return query.search.toLowerCase();
+        }
+    }
+
+    beforeEach(() => {
+        spyFetchByQuery = jest.fn(({ search }: TestQuery, { offset, count }: Pagination) =>
+            [...Array(count)].map((_, index) => ({ id: `${search}-${offset + index}` })),
+        );
+    });
+
+    describe("by default", () => {
+        beforeEach(() => (repository = new TestRepository()));
+
+        it("ignores the order of properties", async () => {
+            await repository.byQueryAsync({ search: "some", sort: "name" }, { offset: 0, count: 2 });
+            await repository.byQueryAsync({ sort: "name", search: "some" }, { offset: 0, count: 2 });
+            expect(spyFetchByQuery).toHaveBeenCalledTimes(1);
+        });
+
+        it("resolves listeners of queries with properties in a different order", async () => {
+            const promise = repository.waitForQuery({ sort: "name", search: "some" }, { offset: 0, count: 2 });
+            await repository.byQueryAsync({ search: "some", sort: "name" }, { offset: 0, count: 2 });
+            await expect(promise).resolves.toBeUndefined();
+        });
+    });
+
+    describe("with `keyOf` overridden", () => {
+        beforeEach(() => (repository = new CaseInsensitiveTestRepository()));
+
+        it("considers queries with the same key the same query", async () => {
+            await repository.byQueryAsync({ search: "some" }, { offset: 0, count: 2 });
+            await repository.byQueryAsync({ search: "SOME" }, { offset: 0, count: 2 });
+            expect(spyFetchByQuery).toHaveBeenCalledTimes(1);
+        });
+
+        it("resolves listeners of queries with the same key", async () => {
+            const promise = repository.waitForQuery({ search: "SOME" }, { offset: 0, count: 2 });
+            await repository.byQueryAsync({ search: "some" }, { offset: 0, count: 2 });
+            await expect(promise).resolves.toBeUndefined();
+        });
+    });
+});
+
+describe("PaginatedSearchableRepository aggregating requests", () => {
+    interface TestEntity {
+        id: string;
+    }
+
+    let resolveQuery: (result: FetchByQueryResult<TestEntity>) => void;
+    let repository: TestRepository;
+
+    class TestRepository extends PaginatedSearchableRepository<string, TestEntity> {
+        protected fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            if (query === "broken") {
+                return Promise.reject(new Error("Query failed"));
+            }
+            return new Promise((resolve) => (resolveQuery = resolve));
+        }
+
+        protected async fetchById(id: string): Promise<TestEntity> {
+            if (id === "broken") {
+                throw new Error("Entity failed");
+            }
+            return new Promise(() => undefined);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(() => {
+        repository = new TestRepository();
+        repository.addErrorListener(() => undefined);
+    });
+
+    describe("while loading a query and an entity", () => {
+        beforeEach(() => {
+            repository.byQueryAsync("some");
+            repository.byIdAsync("some");
+        });
+
+        it("is busy", () => expect(repository.isBusy()).toBe(true));
+
+        it("counts both pending requests", () => expect(repository.pendingCount()).toBe(2));
+    });
+
+    describe("while loading a query", () => {
+        beforeEach(() => {
+            repository.byQueryAsync("some");
+        });
+
+        it("is busy", () => expect(repository.isBusy()).toBe(true));
+
+        describe("after the query loaded", () => {
+            beforeEach(async () => {
+                resolveQuery({ entities: [] });
+                await repository.waitForIdle();
+            });
+
+            it("isn't busy", () => expect(repository.isBusy()).toBe(false));
+        });
+    });
+
+    describe("after a query and an entity failed to load", () => {
+        beforeEach(async () => {
+            await repository.byQueryAsync("broken").catch(() => undefined);
+            await repository.byIdAsync("broken");
+        });
+
+        it("lists both failed requests", () =>
+            expect(repository.failedRequests()).toEqual([
+                { id: "broken", error: new Error("Entity failed") },
+                { id: "broken", error: new Error("Query failed") },
+            ]));
+    });
+});
@@ -0,0 +1,110 @@
+import { RequestControllers } from "../src";
+
+describe("RequestControllers", () => {
+    let timers: (() => void)[];
+    let originalSetTimeout: typeof setTimeout;
+    let controllers: RequestControllers<string>;
+    let signal: AbortSignal;
+
+    beforeEach(() => {
+        originalSetTimeout = global.setTimeout;
+        timers = [];
+        global.setTimeout = ((callback: () => void) => timers.push(callback)) as unknown as typeof setTimeout;
+        controllers = new RequestControllers();
+        signal = controllers.start("some");
+    });
+
+    afterEach(() => {
+        global.setTimeout = originalSetTimeout;
+    });
+
+    it("considers the request current", () => expect(controllers.isCurrent("some", signal)).toBe(true));
+
+    it("doesn't abort the request", () => expect(signal.aborted).toBe(false));
+
+    it("doesn't schedule a timeout", () => expect(timers).toEqual([]));
+
+    describe("after finishing the request", () => {
+        beforeEach(() => controllers.finish("some", signal));
+
+        it("doesn't consider the request current", () => expect(controllers.isCurrent("some", signal)).toBe(false));
+
+        it("doesn't abort the request", () => expect(signal.aborted).toBe(false));
+
+        describe("after aborting the id", () => {
+            beforeEach(() => controllers.abort("some"));
+
+            it("doesn't abort the request", () => expect(signal.aborted).toBe(false));
+        });
+    });
+
+    describe("after starting another request with the same id", () => {
+        let nextSignal: AbortSignal;
+
+        beforeEach(() => {
+            nextSignal = controllers.start("some");
+            controllers.finish("some", signal);
+        });
+
+        it("aborts the first request", () => expect(signal.aborted).toBe(true));
+
+        it("doesn't consider the first request current", () =>
+            expect(controllers.isCurrent("some", signal)).toBe(false));
+
+        it("considers the second request current", () => expect(controllers.isCurrent("some", nextSignal)).toBe(true));
+    });
+
+    describe("after aborting the request", () => {
+        beforeEach(() => controllers.abort("some"));
+
+        it("aborts the request", () => expect(signal.aborted).toBe(true));
+
+        it("doesn't consider the request current", () => expect(controllers.isCurrent("some", signal)).toBe(false));
+    });
+
+    describe("after aborting all requests", () => {
+        let otherSignal: AbortSignal;
+
+        beforeEach(() => {
+            otherSignal = controllers.start("other");
+            controllers.abortAll();
+        });
+
+        test.each([0, 1])("aborts request %p", (index) => expect([signal, otherSignal][index].aborted).toBe(true));
+    });
+
+    describe("with a timeout", () => {
+        beforeEach(() => {
+            signal = controllers.start("timeout", 1000);
+        });
+
+        it("schedules a timeout", () => expect(timers).toHaveLength(1));
+
+        describe("after the timeout expired", () => {
+            beforeEach(() => timers.forEach((callback) => callback()));
+
+            it("aborts the request", () => expect(signal.aborted).toBe(true));
+
+            it("aborts the request with a reason", () =>
+                expect(signal.reason).toEqual(new Error("Request timed out.")));
+
+            it("considers the request current", () => expect(controllers.isCurrent("timeout", signal)).toBe(true));
+        });
+    });
+
+    describe("with a custom key function", () => {
+        beforeEach(() => {
+            controllers = new RequestControllers((id) => id.toLowerCase());
+            signal = controllers.start("some");
+        });
+
+        it("considers ids with the same key the same request", () =>
+            expect(controllers.isCurrent("SOME", signal)).toBe(true));
+
+        describe("after starting a request with an id with the same key", () => {
+            beforeEach(() => controllers.start("SOME"));
+
+            it("aborts the request", () => expect(signal.aborted).toBe(true));
+        });
+    });
+});
@@ -1,4 +1,6 @@
-import { RequestStates, RequestStatus } from "../src";
+import { autorun } from "mobx";
+
+import { RequestStates, RequestStatus, requestTransitions, TransitionListener } from "../src";
 
 describe("RequestState", () => {
     interface TestState {
@@ -17,6 +19,10 @@ describe("RequestState", () => {
                 expect(requestState.isStatus("some", RequestStatus.NONE)).toBe(true);
             });
 
+            it("has status info `NONE` for any id", () => {
+                expect(requestState.getStatusInfo("some")).toEqual({ status: RequestStatus.NONE });
+            });
+
             it("has `undefined` for any id", () => {
                 expect(requestState.getState("some")).toBeUndefined();
             });
@@ -57,6 +63,7 @@ describe("RequestState", () => {
                     status: RequestStatus.NONE,
                     state: { value: "updated" },
                     id: "some",
+                    attempts: 0,
                 });
             });
 
@@ -81,6 +88,28 @@ describe("RequestState", () => {
             });
         });
 
+        describe("after setting the status of an id to an error", () => {
+            beforeEach(() => requestState.setStatus("some", RequestStatus.ERROR, new Error("Some error")));
+
+            it("has status info `ERROR` with the error", () => {
+                expect(requestState.getStatusInfo("some")).toEqual({
+                    status: RequestStatus.ERROR,
+                    error: new Error("Some error"),
+                });
+            });
+
+            describe("after setting the state of that id", () => {
+                beforeEach(() => requestState.setState("some", { value: "updated" }));
+
+                it("keeps the error", () => {
+                    expect(requestState.getStatusInfo("some")).toEqual({
+                        status: RequestStatus.ERROR,
+                        error: new Error("Some error"),
+                    });
+                });
+            });
+        });
+
         describe("after setting the status of an id", () => {
             beforeEach(() => requestState.setStatus("some", RequestStatus.IN_PROGRESS));
 
@@ -91,6 +120,8 @@ describe("RequestState", () => {
                     status: RequestStatus.IN_PROGRESS,
                     state: { value: "from factory" },
                     id: "some",
+                    startedAt: expect.any(Number),
+                    attempts: 1,
                 });
             });
 
@@ -151,4 +182,374 @@ describe("RequestState", () => {
             });
         });
     });
+
+    describe("with object ids", () => {
+        let objectState: RequestStates<Record<string, unknown>>;
+
+        beforeEach(() => {
+            objectState = new RequestStates();
+            objectState.setStatus({ a: 1, b: 2 }, RequestStatus.DONE);
+        });
+
+        it("ignores the order of properties", () =>
+            expect(objectState.isStatus({ b: 2, a: 1 }, RequestStatus.DONE)).toBe(true));
+
+        it("distinguishes properties that are `undefined`", () =>
+            expect(objectState.isStatus({ a: 1, b: 2, c: undefined }, RequestStatus.NONE)).toBe(true));
+    });
+
+    describe("with a custom key function", () => {
+        beforeEach(() => {
+            requestState = new RequestStates(
+                () => ({ value: "from factory" }),
+                (id) => id.toLowerCase(),
+            );
+            requestState.setStatus("some", RequestStatus.DONE);
+        });
+
+        it("considers ids with the same key the same request", () =>
+            expect(requestState.isStatus("SOME", RequestStatus.DONE)).toBe(true));
+
+        describe("after deleting an id with the same key", () => {
+            beforeEach(() => requestState.delete("SOME"));
+
+            it("has status `NONE`", () => expect(requestState.isStatus("some", RequestStatus.NONE)).toBe(true));
+        });
+    });
+
+    describe("timing", () => {
+        let now: number;
+
+        beforeEach(() => {
+            now = 1000;
+            jest.spyOn(Date, "now").mockImplementation(() => now);
+            requestState = new RequestStates();
+        });
+
+        afterEach(() => jest.restoreAllMocks());
+
+        it("has no attempts initially", () =>
+            expect(requestState.get("some")).toEqual({ id: "some", status: RequestStatus.NONE, attempts: 0 }));
+
+        describe("after starting the request", () => {
+            beforeEach(() => requestState.setStatus("some", RequestStatus.IN_PROGRESS));
+
+            it("records the start", () =>
+                expect(requestState.get("some")).toMatchObject({ startedAt: 1000, attempts: 1 }));
+
+            it("isn't finished", () => expect(requestState.get("some").finishedAt).toBeUndefined());
+
+            describe("after counting a retry", () => {
+                beforeEach(() => {
+                    now = 1200;
+                    requestState.countAttempt("some");
+                });
+
+                it("counts the attempt, but keeps the start", () =>
+                    expect(requestState.get("some")).toMatchObject({
+                        status: RequestStatus.IN_PROGRESS,
+                        startedAt: 1000,
+                        attempts: 2,
+                    }));
+            });
+
+            describe("after the request succeeded", () => {
+                beforeEach(() => {
+                    now = 1500;
+                    requestState.setStatus("some", RequestStatus.DONE);
+                });
+
+                it("records the finish", () =>
+                    expect(requestState.get("some")).toMatchObject({
+                        startedAt: 1000,
+                        finishedAt: 1500,
+                        lastSuccessAt: 1500,
+                        duration: 500,
+                        attempts: 1,
+                    }));
+
+                describe("after resetting the status", () => {
+                    beforeEach(() => {
+                        now = 1800;
+                        requestState.setStatus("some", RequestStatus.NONE);
+                    });
+
+                    it("keeps the timing", () =>
+                        expect(requestState.get("some")).toMatchObject({
+                            startedAt: 1000,
+                            finishedAt: 1500,
+                            lastSuccessAt: 1500,
+                            duration: 500,
+                            attempts: 1,
+                        }));
+                });
+
+                describe("after starting the request again", () => {
+                    beforeEach(() => {
+                        now = 2000;
+                        requestState.start("some");
+                    });
+
+                    it("records the second attempt", () =>
+                        expect(requestState.get("some")).toEqual({
+                            id: "some",
+                            status: RequestStatus.IN_PROGRESS,
+                            state: undefined,
+                            startedAt: 2000,
+                            lastSuccessAt: 1500,
+                            attempts: 2,
+                        }));
+
+                    describe("after the request failed", () => {
+                        beforeEach(() => {
+                            now = 2100;
+                            requestState.setStatus("some", RequestStatus.ERROR, new Error("Some error"));
+                        });
+
+                        it("records the finish, but not as a success", () =>
+                            expect(requestState.get("some")).toMatchObject({
+                                finishedAt: 2100,
+                                lastSuccessAt: 1500,
+                                duration: 100,
+                            }));
+
+                        it("keeps the timing when setting the state", () => {
+                            requestState.setState("some", undefined);
+                            expect(requestState.get("some")).toMatchObject({ attempts: 2, duration: 100 });
+                        });
+                    });
+                });
+            });
+
+            describe("after the request found nothing", () => {
+                beforeEach(() => requestState.setStatus("some", RequestStatus.NOT_FOUND));
+
+                it("records the success", () => expect(requestState.get("some").lastSuccessAt).toBe(1000));
+            });
+        });
+
+        describe("after finishing without starting", () => {
+            beforeEach(() => requestState.setStatus("some", RequestStatus.DONE));
+
+            it("has no duration", () =>
+                expect(requestState.get("some")).toMatchObject({ finishedAt: 1000, duration: undefined, attempts: 0 }));
+        });
+
+        describe("after deleting the request", () => {
+            beforeEach(() => {
+                requestState.setStatus("some", RequestStatus.IN_PROGRESS);
+                requestState.delete("some");
+            });
+
+            it("forgets the timing", () => expect(requestState.get("some").attempts).toBe(0));
+        });
+    });
+
+    describe("aggregates", () => {
+        beforeEach(() => {
+            requestState = new RequestStates();
+            requestState.setStatus("a", RequestStatus.IN_PROGRESS);
+            requestState.setStatus("b", RequestStatus.IN_PROGRESS);
+            requestState.setStatus("c", RequestStatus.DONE);
+            requestState.setStatus("d", RequestStatus.ERROR, new Error("Some error"));
+        });
+
+        it("counts the requests per status", () =>
+            expect(requestState.counts).toEqual({
+                [RequestStatus.IN_PROGRESS]: 2,
+                [RequestStatus.NONE]: 0,
+                [RequestStatus.ERROR]: 1,
+                [RequestStatus.DONE]: 1,
+                [RequestStatus.NOT_FOUND]: 0,
+                [RequestStatus.ABORTED]: 0,
+            }));
+
+        it("has pending requests", () => expect(requestState.hasPending).toBe(true));
+
+        it("lists the failed requests", () =>
+            expect(requestState.errors).toEqual([{ id: "d", error: new Error("Some error") }]));
+
+        describe("after all requests finished", () => {
+            beforeEach(() => {
+                requestState.setStatus("a", RequestStatus.DONE);
+                requestState.setStatus("b", RequestStatus.NOT_FOUND);
+            });
+
+            it("has no pending requests", () => expect(requestState.hasPending).toBe(false));
+        });
+
+        it("is observable", () => {
+            const values: boolean[] = [];
+            const dispose = autorun(() => values.push(requestState.hasPending));
+            requestState.reset();
+            dispose();
+            expect(values).toEqual([true, false]);
+        });
+    });
+
+    describe("transitions", () => {
+        beforeEach(() => {
+            requestState = new RequestStates();
+            requestState.setStatus("some", RequestStatus.IN_PROGRESS);
+            requestState.setStatus("some", RequestStatus.DONE);
+        });
+
+        it("only allows finished requests to be reset", () =>
+            expect(requestTransitions[RequestStatus.ERROR]).toEqual([RequestStatus.NONE]));
+
+        it("throws on invalid transitions", () =>
+            expect(() => requestState.setStatus("some", RequestStatus.ABORTED)).toThrowError(
+                'Invalid transition of request string:"some" from "done" to "aborted".',
+            ));
+
+        it("doesn't change the status on invalid transitions", () => {
+            expect(() => requestState.setStatus("some", RequestStatus.IN_PROGRESS)).toThrow();
+            expect(requestState.isStatus("some", RequestStatus.DONE)).toBe(true);
+        });
+
+        it("doesn't check the transitions when overwriting the status", () => {
+            requestState.update({ id: "some", status: RequestStatus.ABORTED, state: undefined, attempts: 1 });
+            expect(requestState.isStatus("some", RequestStatus.ABORTED)).toBe(true);
+        });
+
+        describe("depending on the environment", () => {
+            function loadAssertTransitions(hasProcess = true): boolean {
+                let isEnabled = false;
+                jest.isolateModules(() => {
+                    // MobX itself requires `process` when it isn't bundled.
+                    require("mobx"); // eslint-disable-line
+                    const { process } = global;
+                    if (!hasProcess) {
+                        (global as any).process = undefined; // eslint-disable-line
+                    }
+                    try {
+                        isEnabled = require("../src/request-states").RequestStates.assertTransitions; // eslint-disable-line
+                    } finally {
+                        global.process = process;
+                    }
+                });
+                return isEnabled;
+            }
+
+            it("is enabled by default", () => expect(loadAssertTransitions()).toBe(true));
+
+            it("is disabled in production", () => {
+                const { NODE_ENV } = process.env;
+                process.env.NODE_ENV = "production";
+                try {
+                    expect(loadAssertTransitions()).toBe(false);
+                } finally {
+                    process.env.NODE_ENV = NODE_ENV;
+                }
+            });
+
+            it("is enabled without `process`", () => expect(loadAssertTransitions(false)).toBe(true));
+        });
+
+        describe("with assertions disabled", () => {
+            beforeEach(() => (RequestStates.assertTransitions = false));
+
+            afterEach(() => (RequestStates.assertTransitions = true));
+
+            it("allows invalid transitions", () => {
+                requestState.setStatus("some", RequestStatus.ABORTED);
+                expect(requestState.isStatus("some", RequestStatus.ABORTED)).toBe(true);
+            });
+        });
+
+        describe("after starting the finished request", () => {
+            beforeEach(() => requestState.start("some"));
+
+            it("is in progress", () => expect(requestState.isStatus("some", RequestStatus.IN_PROGRESS)).toBe(true));
+
+            it("counts the attempt", () => expect(requestState.get("some").attempts).toBe(2));
+        });
+
+        describe("after restarting a request in progress", () => {
+            let spyListener: jest.Mock<void, Parameters<TransitionListener<string, TestState, Error>>>;
+
+            beforeEach(() => {
+                requestState.start("other");
+                spyListener = jest.fn();
+                requestState.onTransition(spyListener);
+                requestState.start("other");
+            });
+
+            it("doesn't reset the request", () =>
+                expect(spyListener.mock.calls.map(([, from, to]) => [from, to])).toEqual([
+                    [RequestStatus.IN_PROGRESS, RequestStatus.IN_PROGRESS],
+                ]));
+        });
+
+        describe("after settling a finished request", () => {
+            let spyListener: jest.Mock<void, Parameters<TransitionListener<string, TestState, Error>>>;
+
+            beforeEach(() => {
+                spyListener = jest.fn();
+                requestState.onTransition(spyListener);
+                requestState.settle("some", RequestStatus.NOT_FOUND);
+            });
+
+            it("doesn't reset the request", () =>
+                expect(spyListener.mock.calls.map(([, from, to]) => [from, to])).toEqual([
+                    [RequestStatus.DONE, RequestStatus.NOT_FOUND],
+                ]));
+        });
+
+        describe("after settling a failed request", () => {
+            let spyListener: jest.Mock<void, Parameters<TransitionListener<string, TestState, Error>>>;
+
+            beforeEach(() => {
+                requestState.setStatus("other", RequestStatus.ERROR, new Error("Some error"));
+                spyListener = jest.fn();
+                requestState.onTransition(spyListener);
+                requestState.settle("other", RequestStatus.DONE);
+            });
+
+            it("has the new status", () => expect(requestState.isStatus("other", RequestStatus.DONE)).toBe(true));
+
+            it("resets the request first", () =>
+                expect(spyListener.mock.calls.map(([, from, to]) => [from, to])).toEqual([
+                    [RequestStatus.ERROR, RequestStatus.NONE],
+                    [RequestStatus.NONE, RequestStatus.DONE],
+                ]));
+        });
+
+        describe("with a listener", () => {
+            let spyListener: jest.Mock<void, Parameters<TransitionListener<string, TestState, Error>>>;
+            let dispose: () => void;
+
+            beforeEach(() => {
+                spyListener = jest.fn();
+                dispose = requestState.onTransition(spyListener);
+            });
+
+            describe("after the request failed", () => {
+                beforeEach(() => {
+                    requestState.start("some");
+                    requestState.setStatus("some", RequestStatus.ERROR, new Error("Some error"));
+                });
+
+                it("reports all transitions", () =>
+                    expect(spyListener.mock.calls.map(([id, from, to]) => [id, from, to])).toEqual([
+                        ["some", RequestStatus.DONE, RequestStatus.NONE],
+                        ["some", RequestStatus.NONE, RequestStatus.IN_PROGRESS],
+                        ["some", RequestStatus.IN_PROGRESS, RequestStatus.ERROR],
+                    ]));
+
+                it("reports the request after the transition", () =>
+                    expect(spyListener.mock.calls[2][3]).toMatchObject({
+                        status: RequestStatus.ERROR,
+                        error: new Error("Some error"),
+                        attempts: 2,
+                    }));
+            });
+
+            it("doesn't report transitions after disposing the listener", () => {
+                dispose();
+                requestState.setStatus("some", RequestStatus.NONE);
+                expect(spyListener).not.toHaveBeenCalled();
+            });
+        });
+    });
 });
@@ -0,0 +1,143 @@
+(global as any).setTimeout = (callback: () => void) => callback(); // eslint-disable-line
+
+import { RetryPolicy } from "../src";
+
+describe("RetryPolicy", () => {
+    let policy: RetryPolicy;
+    let spyOperation: jest.Mock<Promise<string>, []>;
+
+    describe("with the default options", () => {
+        beforeEach(() => {
+            policy = new RetryPolicy();
+            spyOperation = jest.fn(async () => {
+                throw new Error("Some error");
+            });
+        });
+
+        it("doesn't retry", async () => {
+            await expect(policy.run(spyOperation)).rejects.toEqual(expect.any(Error));
+            expect(spyOperation).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("with custom options", () => {
+        beforeEach(() => {
+            jest.spyOn(Math, "random").mockReturnValue(0.5);
+            policy = new RetryPolicy({
+                maxAttempts: 3,
+                baseDelay: 100,
+                maxDelay: 300,
+                jitter: 0.5,
+                isRetryable: (error) => error.message !== "Fatal",
+            });
+        });
+
+        afterEach(() => jest.restoreAllMocks());
+
+        test.each([
+            [1, 75],
+            [2, 150],
+            [3, 225],
+            [4, 225],
+        ])("calculates the delay after attempt %p", (attempt, expected) =>
+            expect(policy.delay(attempt)).toBe(expected),
+        );
+
+        describe("with the operation succeeding at the second attempt", () => {
+            let result: string;
+            let spyRetry: jest.Mock<undefined, [number]>;
+
+            beforeEach(async () => {
+                spyOperation = jest
+                    .fn()
+                    .mockRejectedValueOnce(new Error("Some error"))
+                    .mockResolvedValueOnce("some result");
+                spyRetry = jest.fn();
+                result = await policy.run(spyOperation, undefined, spyRetry);
+            });
+
+            it("resolves to the result", () => expect(result).toBe("some result"));
+
+            it("calls the operation twice", () => expect(spyOperation).toHaveBeenCalledTimes(2));
+
+            it("reports the retry", () => expect(spyRetry.mock.calls).toEqual([[2]]));
+        });
+
+        describe("with the operation always failing", () => {
+            beforeEach(() => {
+                spyOperation = jest.fn().mockRejectedValue(new Error("Some error"));
+            });
+
+            it("gives up after the maximum attempts", async () => {
+                await expect(policy.run(spyOperation)).rejects.toEqual(new Error("Some error"));
+                expect(spyOperation).toHaveBeenCalledTimes(3);
+            });
+        });
+
+        describe("with the signal being aborted", () => {
+            beforeEach(() => {
+                spyOperation = jest.fn().mockRejectedValue(new Error("Some error"));
+            });
+
+            it("doesn't retry", async () => {
+                const controller = new AbortController();
+                controller.abort();
+                await expect(policy.run(spyOperation, controller.signal)).rejects.toEqual(new Error("Some error"));
+                expect(spyOperation).toHaveBeenCalledTimes(1);
+            });
+        });
+
+        describe("with the signal being aborted while waiting for the next attempt", () => {
+            let controller: AbortController;
+            let runPromise: Promise<string>;
+            let spyClearTimeout: jest.SpyInstance;
+
+            beforeEach(async () => {
+                controller = new AbortController();
+                spyOperation = jest.fn().mockRejectedValue(new Error("Some error"));
+                jest.spyOn(global, "setTimeout").mockImplementation(
+                    () => "timer" as unknown as ReturnType<typeof setTimeout>,
+                );
+                spyClearTimeout = jest.spyOn(global, "clearTimeout");
+                runPromise = policy.run(spyOperation, controller.signal);
+                runPromise.catch(() => undefined);
+                await new Promise((resolve) => process.nextTick(resolve));
+                controller.abort();
+            });
+
+            it("rejects with the last error", () => expect(runPromise).rejects.toEqual(new Error("Some error")));
+
+            it("doesn't retry", async () => {
+                await runPromise.catch(() => undefined);
+                expect(spyOperation).toHaveBeenCalledTimes(1);
+            });
+
+            it("cancels the timer", () => expect(spyClearTimeout).toHaveBeenCalledWith("timer"));
+        });
+
+        describe("with the signal not being aborted", () => {
+            beforeEach(() => {
+                spyOperation = jest
+                    .fn()
+                    .mockRejectedValueOnce(new Error("Some error"))
+                    .mockResolvedValueOnce("some result");
+            });
+
+            it("retries", async () => {
+                await expect(policy.run(spyOperation, new AbortController().signal)).resolves.toBe("some result");
+                expect(spyOperation).toHaveBeenCalledTimes(2);
+            });
+        });
+
+        describe("with the operation failing with an error that isn't retryable", () => {
+            beforeEach(() => {
+                spyOperation = jest.fn().mockRejectedValue(new Error("Fatal"));
+            });
+
+            it("doesn't retry", async () => {
+                await expect(policy.run(spyOperation)).rejects.toEqual(new Error("Fatal"));
+                expect(spyOperation).toHaveBeenCalledTimes(1);
+            });
+        });
+    });
+});
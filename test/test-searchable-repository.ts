@@ -1,7 +1,15 @@
 (global as any).setTimeout = (callback: () => void) => callback(); // eslint-disable-line
 
 import { autorun, makeObservable } from "mobx";
-import { SearchableRepository, FetchByQueryResult } from "../src";
+import {
+    SearchableRepository,
+    FetchByQueryResult,
+    RetryPolicy,
+    DebugEvent,
+    RequestStatus,
+    FetchError,
+    ResetError,
+} from "../src";
 
 describe("SearchableRepository", () => {
     interface TestEntity {
@@ -130,6 +138,9 @@ describe("SearchableRepository", () => {
                     expect(spyResolve2).not.toHaveBeenCalled();
                     expect(spyReject2).toHaveBeenCalled();
                 });
+
+                it("was rejected with a `ResetError`", () =>
+                    expect(spyReject1.mock.calls[0][0]).toBeInstanceOf(ResetError));
             });
         });
 
@@ -164,6 +175,10 @@ describe("SearchableRepository", () => {
                     { id: "id-1", value: "value-some-1" },
                 ]));
 
+            it("reports status `DONE`", () => expect(repository.queryStatus(query)).toEqual({ status: RequestStatus.DONE }));
+
+            it("reports no error", () => expect(repository.queryError(query)).toBeUndefined());
+
             it("calls `fetchByQuery` with the query", () => expect(spyFetchByQuery).toBeCalledWith(query));
 
             it("calls `fetchByQuery` once", () => expect(spyFetchByQuery).toBeCalledTimes(1));
@@ -351,6 +366,50 @@ describe("SearchableRepository", () => {
                 it("makes the Promise reject", () => expect(waitForQueryPromise).rejects.toEqual(expect.any(Error)));
             });
         });
+
+        describe("after loading failed", () => {
+            beforeEach(async () => await repository.byQueryAsync(query));
+
+            it("reports status `ERROR` with the error", () =>
+                expect(repository.queryStatus(query)).toEqual({
+                    status: RequestStatus.ERROR,
+                    error: new Error("Some error"),
+                }));
+
+            it("reports the error", () => expect(repository.queryError(query)).toEqual(new Error("Some error")));
+
+            it("wraps the error in a `FetchError`", () =>
+                expect(repository.queryError(query)).toBeInstanceOf(FetchError));
+
+            describe("`byQueryAsync`", () => {
+                let returnValue: TestEntity[];
+
+                beforeEach(async () => (returnValue = await repository.byQueryAsync(query)));
+
+                it("resolves to an empty array", () => expect(returnValue).toEqual([]));
+
+                it("doesn't call `fetchByQuery` again", () => expect(spyFetchByQuery).toBeCalledTimes(1));
+            });
+
+            describe("`retryQuery`", () => {
+                let returnValue: TestEntity[];
+
+                beforeEach(async () => {
+                    spyFetchByQuery.mockImplementation(() => [{ id: "id-0", value: "value-some-0" }]);
+                    returnValue = await repository.retryQuery(query);
+                });
+
+                it("resolves to the entities", () => expect(returnValue).toEqual([{ id: "id-0", value: "value-some-0" }]));
+
+                it("calls `fetchByQuery` again", () => expect(spyFetchByQuery).toBeCalledTimes(2));
+
+                describe("a consecutive call to `retryQuery`", () => {
+                    beforeEach(async () => await repository.retryQuery(query));
+
+                    it("doesn't call `fetchByQuery` again", () => expect(spyFetchByQuery).toBeCalledTimes(2));
+                });
+            });
+        });
     });
 
     describe("waitForIdle", () => {
@@ -439,3 +498,545 @@ describe("SearchableRepository", () => {
         });
     });
 });
+
+describe("SearchableRepository with `gcGracePeriod`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchByQuery: jest.Mock<Promise<TestEntity[]>, [string]>;
+    let repository: TestRepository;
+
+    class TestRepository extends SearchableRepository<string, TestEntity> {
+        protected gcGracePeriod = 0;
+
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: await spyFetchByQuery(query) };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        spyFetchByQuery = jest.fn(async (query: string) => [{ id: query, value: `value-${query}` }]);
+        repository = new TestRepository();
+        await repository.byQueryAsync("some");
+    });
+
+    describe("after an observer stopped observing the query", () => {
+        beforeEach(async () => {
+            autorun(() => repository.byQuery("some"))();
+            await repository.byQueryAsync("some");
+        });
+
+        it("loads the query again", () => expect(spyFetchByQuery).toHaveBeenCalledTimes(2));
+    });
+
+    describe("after an observer stopped observing a loading query", () => {
+        beforeEach(() => {
+            spyFetchByQuery.mockImplementation(() => new Promise(() => undefined));
+            autorun(() => repository.byQuery("other"))();
+            repository.byQuery("other");
+        });
+
+        it("doesn't load the query again", () => expect(spyFetchByQuery).toHaveBeenCalledTimes(2));
+    });
+
+    describe("after an observer stopped observing an entity of an observed query", () => {
+        let disposer: () => void;
+
+        beforeEach(async () => {
+            disposer = autorun(() => repository.byQuery("some"));
+            autorun(() => repository.byId("some"))();
+            await repository.byQueryAsync("some");
+        });
+
+        afterEach(() => disposer());
+
+        it("keeps the entity", () => expect(repository.isLoaded("some")).toBe(true));
+
+        it("doesn't load the query again", () => expect(spyFetchByQuery).toHaveBeenCalledTimes(1));
+    });
+
+    describe("after an observer stopped observing an entity of an unobserved query", () => {
+        beforeEach(() => autorun(() => repository.byId("some"))());
+
+        it("evicts the entity", () => expect(repository.isLoaded("some")).toBe(false));
+    });
+});
+
+describe("SearchableRepository with `maxEntries`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let repository: TestRepository;
+
+    class TestRepository extends SearchableRepository<string, TestEntity> {
+        protected maxEntries = 2;
+
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: ["a", "b", "c"].map((id) => ({ id, value: `${query}-${id}` })) };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(() => (repository = new TestRepository()));
+
+    describe("loading a query with more results than fit", () => {
+        let returnValue: TestEntity[];
+
+        beforeEach(async () => (returnValue = await repository.byQueryAsync("some")));
+
+        it("resolves to all results", () =>
+            expect(returnValue).toEqual([
+                { id: "a", value: "some-a" },
+                { id: "b", value: "some-b" },
+                { id: "c", value: "some-c" },
+            ]));
+
+        it("keeps all results", () => expect([...repository.entities.keys()]).toEqual(["a", "b", "c"]));
+    });
+});
+
+describe("SearchableRepository with a `retryPolicy`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchByQuery: jest.Mock<TestEntity[], [string]>;
+    let repository: TestRepository;
+    let returnValue: TestEntity[];
+
+    class TestRepository extends SearchableRepository<string, TestEntity> {
+        protected retryPolicy = new RetryPolicy({ maxAttempts: 3 });
+
+        public attemptsOf(query: string): number {
+            return this.stateByQuery.get(query).attempts;
+        }
+
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: spyFetchByQuery(query) };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        spyFetchByQuery = jest
+            .fn()
+            .mockImplementationOnce(() => {
+                throw new Error("Some error");
+            })
+            .mockImplementationOnce((query: string) => [{ id: query, value: `value-${query}` }]);
+        repository = new TestRepository();
+        returnValue = await repository.byQueryAsync("some");
+    });
+
+    it("resolves to the entities", () => expect(returnValue).toEqual([{ id: "some", value: "value-some" }]));
+
+    it("calls `fetchByQuery` twice", () => expect(spyFetchByQuery).toBeCalledTimes(2));
+
+    it("counts both attempts", () => expect(repository.attemptsOf("some")).toBe(2));
+});
+
+describe("SearchableRepository with `AbortSignal`s", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let requests: { query: string; signal: AbortSignal; resolve: (entities: TestEntity[]) => void }[];
+    let repository: TestRepository;
+    let spyDebug: jest.Mock<undefined, [DebugEvent]>;
+
+    class TestRepository extends SearchableRepository<string, TestEntity> {
+        protected async fetchByQuery(query: string, signal: AbortSignal): Promise<FetchByQueryResult<TestEntity>> {
+            const entities = await new Promise<TestEntity[]>((resolve) => requests.push({ query, signal, resolve }));
+            return { entities };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(() => {
+        requests = [];
+        repository = new TestRepository();
+        spyDebug = jest.fn();
+        repository.addDebugListener(spyDebug);
+        repository.byQuery("some");
+    });
+
+    it("passes a signal to `fetchByQuery`", () => expect(requests[0].signal.aborted).toBe(false));
+
+    it("reports status `IN_PROGRESS`", () =>
+        expect(repository.queryStatus("some")).toEqual({ status: RequestStatus.IN_PROGRESS }));
+
+    describe("after resetting the repository", () => {
+        beforeEach(async () => {
+            repository.reset();
+            requests[0].resolve([{ id: "late", value: "late" }]);
+            await new Promise((resolve) => process.nextTick(resolve));
+        });
+
+        it("aborts the signal", () => expect(requests[0].signal.aborted).toBe(true));
+
+        it("doesn't add the late result", () => expect(repository.isLoaded("late")).toBe(false));
+
+        it("reports the dropped response", () =>
+            expect(spyDebug).toHaveBeenCalledWith({
+                type: "dropped-response",
+                key: "some",
+                reason: new Error("Request was aborted."),
+            }));
+    });
+});
+
+describe("SearchableRepository with a `requestTimeout`", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let repository: TestRepository;
+    let spyError: jest.Mock<undefined, [Error]>;
+    let waitForQueryPromise: Promise<void>;
+
+    class TestRepository extends SearchableRepository<string, TestEntity> {
+        protected requestTimeout = 1000;
+
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: [{ id: query, value: `value-${query}` }] };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        repository = new TestRepository();
+        spyError = jest.fn();
+        repository.addErrorListener(spyError);
+        // As `setTimeout` is invoked synchronously in this file, every request times out immediately.
+        waitForQueryPromise = repository.waitForQuery("some");
+        await repository.byQueryAsync("some");
+        await waitForQueryPromise.catch(() => undefined);
+    });
+
+    it("rejects the waiting Promise", () => expect(waitForQueryPromise).rejects.toEqual(new Error("Request timed out.")));
+
+    it("doesn't call the error listener", () => expect(spyError).not.toHaveBeenCalled());
+
+    it("doesn't add the result", () => expect(repository.isLoaded("some")).toBe(false));
+});
+
+describe("SearchableRepository with `deserialize`", () => {
+    interface TestEntityJson {
+        id: string;
+        value: string;
+    }
+
+    class TestEntity {
+        public id: string;
+        public value: string;
+
+        constructor({ id, value }: TestEntityJson) {
+            this.id = id;
+            this.value = value;
+        }
+    }
+
+    let returnValue: TestEntity[];
+
+    class TestRepository extends SearchableRepository<string, TestEntity, string, string, TestEntityJson> {
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntityJson>> {
+            return { entities: [{ id: query, value: `value-${query}` }] };
+        }
+
+        protected async fetchById(): Promise<TestEntityJson> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+
+        protected deserialize(raw: TestEntityJson): TestEntity {
+            return new TestEntity(raw);
+        }
+    }
+
+    beforeEach(async () => (returnValue = await new TestRepository().byQueryAsync("some")));
+
+    it("resolves to the deserialized entities", () => expect(returnValue[0]).toBeInstanceOf(TestEntity));
+
+    it("resolves to the entities' values", () => expect(returnValue).toEqual([{ id: "some", value: "value-some" }]));
+});
+
+describe("SearchableRepository deleting entities", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let spyFetchByQuery: jest.Mock<TestEntity[], [string]>;
+    let repository: TestRepository;
+
+    class TestRepository extends SearchableRepository<string, TestEntity> {
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: spyFetchByQuery(query) };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected async deleteEntity(): Promise<void> {
+            return;
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        spyFetchByQuery = jest.fn((_query: string) => [
+            { id: "a", value: "value-a" },
+            { id: "b", value: "value-b" },
+        ]);
+        repository = new TestRepository();
+        await repository.byQueryAsync("some");
+        await repository.deleteById("a");
+    });
+
+    it("removes the query result containing the entity", () =>
+        expect(repository.queryStatus("some")).toEqual({ status: RequestStatus.NONE }));
+});
+
+describe("SearchableRepository with optimistic updates", () => {
+    interface TestEntity {
+        id: string;
+        value: string;
+    }
+
+    let repository: TestRepository;
+    let updatePromise: Promise<TestEntity>;
+    let rejectPersist: (error: Error) => void;
+
+    class TestRepository extends SearchableRepository<string, TestEntity> {
+        protected async fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: [{ id: query, value: `value-${query}` }] };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected persistEntity(): Promise<TestEntity | undefined> {
+            return new Promise((_resolve, reject) => (rejectPersist = reject));
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(async () => {
+        repository = new TestRepository();
+        await repository.byQueryAsync("some");
+        updatePromise = repository.updateOptimistic("some", (entity) => (entity.value = "changed"));
+    });
+
+    it("updates the query result at once", () =>
+        expect(repository.byQuery("some")).toEqual([{ id: "some", value: "changed" }]));
+
+    describe("after persisting failed", () => {
+        beforeEach(async () => {
+            rejectPersist(new Error("Some error"));
+            await updatePromise.catch(() => undefined);
+        });
+
+        it("rolls back the query result", () =>
+            expect(repository.byQuery("some")).toEqual([{ id: "some", value: "value-some" }]));
+    });
+});
+
+describe("SearchableRepository keying queries", () => {
+    interface TestEntity {
+        id: string;
+    }
+
+    interface TestQuery {
+        search: string;
+        count?: number;
+    }
+
+    let spyFetchByQuery: jest.Mock<TestEntity[], [TestQuery]>;
+    let repository: SearchableRepository<TestQuery, TestEntity>;
+
+    class TestRepository extends SearchableRepository<TestQuery, TestEntity> {
+        protected async fetchByQuery(query: TestQuery): Promise<FetchByQueryResult<TestEntity>> {
+            return { entities: spyFetchByQuery(query) };
+        }
+
+        protected async fetchById(): Promise<TestEntity> {
+            throw new Error("Should not be reached.");
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    class CaseInsensitiveTestRepository extends TestRepository {
+        protected keyOf(query: TestQuery): string {
+            return query.search.toLowerCase();
+        }
+    }
+
+    beforeEach(() => {
+        spyFetchByQuery = jest.fn(({ search }: TestQuery) => [{ id: search }]);
+    });
+
+    describe("by default", () => {
+        beforeEach(async () => {
+            repository = new TestRepository();
+            await repository.byQueryAsync({ search: "some", count: 2 });
+        });
+
+        it("ignores the order of properties", async () => {
+            await repository.byQueryAsync({ count: 2, search: "some" });
+            expect(spyFetchByQuery).toHaveBeenCalledTimes(1);
+        });
+
+        it("distinguishes properties that are `undefined`", async () => {
+            await repository.byQueryAsync({ search: "some", count: undefined });
+            expect(spyFetchByQuery).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("with `keyOf` overridden", () => {
+        beforeEach(() => (repository = new CaseInsensitiveTestRepository()));
+
+        it("considers queries with the same key the same query", async () => {
+            await repository.byQueryAsync({ search: "some" });
+            expect(await repository.byQueryAsync({ search: "SOME" })).toEqual([{ id: "some" }]);
+            expect(spyFetchByQuery).toHaveBeenCalledTimes(1);
+        });
+
+        it("resolves listeners of queries with the same key", async () => {
+            const promise = repository.waitForQuery({ search: "SOME" });
+            await repository.byQueryAsync({ search: "some" });
+            await expect(promise).resolves.toBeUndefined();
+        });
+    });
+});
+
+describe("SearchableRepository aggregating requests", () => {
+    interface TestEntity {
+        id: string;
+    }
+
+    let resolveQuery: (result: FetchByQueryResult<TestEntity>) => void;
+    let repository: TestRepository;
+
+    class TestRepository extends SearchableRepository<string, TestEntity> {
+        protected fetchByQuery(query: string): Promise<FetchByQueryResult<TestEntity>> {
+            if (query === "broken") {
+                return Promise.reject(new Error("Query failed"));
+            }
+            return new Promise((resolve) => (resolveQuery = resolve));
+        }
+
+        protected async fetchById(id: string): Promise<TestEntity> {
+            if (id === "broken") {
+                throw new Error("Entity failed");
+            }
+            return new Promise(() => undefined);
+        }
+
+        protected extractId(entity: TestEntity): string {
+            return entity.id;
+        }
+    }
+
+    beforeEach(() => {
+        repository = new TestRepository();
+        repository.addErrorListener(() => undefined);
+    });
+
+    describe("while loading a query and an entity", () => {
+        beforeEach(() => {
+            repository.byQueryAsync("some");
+            repository.byIdAsync("some");
+        });
+
+        it("is busy", () => expect(repository.isBusy()).toBe(true));
+
+        it("counts both pending requests", () => expect(repository.pendingCount()).toBe(2));
+    });
+
+    describe("while loading a query", () => {
+        beforeEach(() => {
+            repository.byQueryAsync("some");
+        });
+
+        it("is busy", () => expect(repository.isBusy()).toBe(true));
+
+        describe("after the query loaded", () => {
+            beforeEach(async () => {
+                resolveQuery({ entities: [] });
+                await repository.waitForIdle();
+            });
+
+            it("isn't busy", () => expect(repository.isBusy()).toBe(false));
+        });
+    });
+
+    describe("after a query and an entity failed to load", () => {
+        beforeEach(async () => {
+            await repository.byQueryAsync("broken");
+            await repository.byIdAsync("broken");
+        });
+
+        it("lists both failed requests", () =>
+            expect(repository.failedRequests()).toEqual([
+                { id: "broken", error: new Error("Entity failed") },
+                { id: "broken", error: new Error("Query failed") },
+            ]));
+    });
+});
@@ -0,0 +1,189 @@
+import {
+    AsyncValidation,
+    AsyncValidator,
+    isAsyncValidator,
+    runAsyncValidators,
+    runValidators,
+    Validator,
+} from "../src";
+
+interface TestEntity {
+    name: string;
+    age: number;
+}
+
+const nameRequired: Validator<TestEntity> = {
+    field: "name",
+    validate: (entity) => (entity.name ? undefined : "Name is required."),
+};
+
+const adult: Validator<TestEntity> = {
+    validate: (entity) => (entity.age >= 18 ? undefined : "Must be an adult."),
+};
+
+describe("isAsyncValidator", () => {
+    it("detects synchronous validators", () => expect(isAsyncValidator(nameRequired)).toBe(false));
+
+    it("detects asynchronous validators", () =>
+        expect(isAsyncValidator({ validateAsync: async () => undefined })).toBe(true));
+});
+
+describe("runValidators", () => {
+    it("returns no errors for valid entities", () =>
+        expect(runValidators({ name: "Alice", age: 30 }, [nameRequired, adult])).toEqual([]));
+
+    it("returns the errors of all failing validators", () =>
+        expect(runValidators({ name: "", age: 3 }, [nameRequired, adult])).toEqual([
+            { field: "name", message: "Name is required." },
+            { field: undefined, message: "Must be an adult." },
+        ]));
+});
+
+describe("runAsyncValidators", () => {
+    const signal = new AbortController().signal;
+
+    it("returns the errors of all failing validators", () =>
+        expect(
+            runAsyncValidators(
+                { name: "Alice", age: 30 },
+                [
+                    { field: "name", validateAsync: async () => "Name is taken." },
+                    { validateAsync: async () => undefined },
+                ],
+                signal,
+            ),
+        ).resolves.toEqual([{ field: "name", message: "Name is taken." }]));
+
+    it("reports rejecting validators", () =>
+        expect(
+            runAsyncValidators(
+                { name: "Alice", age: 30 },
+                [{ validateAsync: () => Promise.reject(new Error("Some error")) }],
+                signal,
+            ),
+        ).resolves.toEqual([{ field: undefined, message: "Some error" }]));
+
+    it("reports validators rejecting with other values than errors", () =>
+        expect(
+            runAsyncValidators(
+                { name: "Alice", age: 30 },
+                [{ validateAsync: () => Promise.reject("Some error") }],
+                signal,
+            ),
+        ).resolves.toEqual([{ field: undefined, message: "Some error" }]));
+
+    it("reports validators throwing synchronously", () =>
+        expect(
+            runAsyncValidators(
+                { name: "Alice", age: 30 },
+                [
+                    {
+                        validateAsync: () => {
+                            throw new Error("Some error");
+                        },
+                    },
+                ],
+                signal,
+            ),
+        ).resolves.toEqual([{ field: undefined, message: "Some error" }]));
+});
+
+describe("AsyncValidation", () => {
+    let timers: { callback: () => void; delay?: number }[];
+    let originalSetTimeout: typeof setTimeout;
+    let requests: { entity: TestEntity; signal: AbortSignal; resolve: (message?: string) => void }[];
+    let validator: AsyncValidator<TestEntity>;
+    let validation: AsyncValidation<TestEntity>;
+
+    async function runTimers(): Promise<void> {
+        const due = timers;
+        timers = [];
+        due.forEach(({ callback }) => callback());
+        await new Promise((resolve) => originalSetTimeout(resolve));
+    }
+
+    async function respond(index: number, message?: string): Promise<void> {
+        requests[index].resolve(message);
+        await new Promise((resolve) => originalSetTimeout(resolve));
+    }
+
+    beforeEach(() => {
+        originalSetTimeout = global.setTimeout;
+        timers = [];
+        (global as any).setTimeout = (callback: () => void, delay?: number) => timers.push({ callback, delay }); // eslint-disable-line
+        requests = [];
+        validator = {
+            field: "name",
+            validateAsync: (entity, signal) => new Promise((resolve) => requests.push({ entity, signal, resolve })),
+        };
+        validation = new AsyncValidation(300);
+    });
+
+    afterEach(() => {
+        global.setTimeout = originalSetTimeout;
+    });
+
+    it("has no errors initially", () => expect(validation.errors).toEqual([]));
+
+    it("isn't pending initially", () => expect(validation.isPending).toBe(false));
+
+    describe("scheduling without validators", () => {
+        beforeEach(() => validation.schedule({ name: "Alice", age: 30 }, []));
+
+        it("isn't pending", () => expect(validation.isPending).toBe(false));
+
+        it("doesn't schedule a timer", () => expect(timers).toHaveLength(0));
+    });
+
+    describe("after scheduling a validation", () => {
+        beforeEach(() => validation.schedule({ name: "Alice", age: 30 }, [validator]));
+
+        it("is pending", () => expect(validation.isPending).toBe(true));
+
+        it("waits for the debounce period", () => {
+            expect(timers).toEqual([{ callback: expect.any(Function), delay: 300 }]);
+            expect(requests).toHaveLength(0);
+        });
+
+        describe("after the debounce period", () => {
+            beforeEach(() => runTimers());
+
+            it("validates the entity", () => expect(requests[0].entity).toEqual({ name: "Alice", age: 30 }));
+
+            it("is still pending", () => expect(validation.isPending).toBe(true));
+
+            describe("after the validator resolved", () => {
+                beforeEach(() => respond(0, "Name is taken."));
+
+                it("reports the errors", () =>
+                    expect(validation.errors).toEqual([{ field: "name", message: "Name is taken." }]));
+
+                it("isn't pending", () => expect(validation.isPending).toBe(false));
+            });
+
+            describe("after scheduling another validation", () => {
+                beforeEach(() => validation.schedule({ name: "Bob", age: 30 }, [validator]));
+
+                it("aborts the running validation", () => expect(requests[0].signal.aborted).toBe(true));
+
+                describe("after the aborted validator resolved", () => {
+                    beforeEach(() => respond(0, "Name is taken."));
+
+                    it("ignores the result", () => expect(validation.errors).toEqual([]));
+
+                    it("is still pending", () => expect(validation.isPending).toBe(true));
+                });
+            });
+        });
+
+        describe("after cancelling", () => {
+            beforeEach(() => validation.cancel());
+
+            it("ignores the result of the validation", async () => {
+                await runTimers();
+                await respond(0, "Name is taken.");
+                expect(validation.errors).toEqual([]);
+            });
+        });
+    });
+});